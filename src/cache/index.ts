@@ -0,0 +1,348 @@
+/**
+ * Persistent scan cache
+ *
+ * Stores check results under .agent-ready/cache, one file per commit and
+ * profile. Each entry records the files, glob patterns and directory
+ * listings the check used, so a scan of a dirty working tree re-runs only
+ * the checks whose inputs changed.
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { CheckConfig, CheckResult, Profile, ScanContext, ScanFileSystem } from '../types.js';
+import { executeCheck } from '../checks/index.js';
+import { INHERITABLE_CHECK_TYPES, isBuiltinCheck } from '../checks/registry.js';
+import { findScanFiles, readScanFile } from '../vfs/index.js';
+import { logger } from '../utils/logger.js';
+import { DEPENDENCY_MANIFESTS } from '../engine/dependencies.js';
+
+// Cache location, relative to the scan root
+export const CACHE_DIR = path.join('.agent-ready', 'cache');
+
+// Bump when the cache file layout changes
+const CACHE_VERSION = 1;
+
+// Oldest cache files beyond this many are removed on save
+const MAX_CACHE_FILES = 50;
+
+// Results depend on more than the repository files (clock, PATH)
+const UNCACHEABLE_TYPES = new Set(['git_freshness', 'command_exists']);
+
+// Read by checks through context.package_json and context.dependencies
+// rather than the file system
+const IMPLICIT_INPUTS = DEPENDENCY_MANIFESTS;
+
+// Fingerprints of what a check read, keyed by path or pattern
+interface CheckInputs {
+  files: Record<string, string>;
+  globs: Record<string, string>;
+  directories: Record<string, string>;
+}
+
+interface CacheEntry {
+  config_hash: string;
+  /** Written from a clean checkout; reused without re-checking inputs */
+  clean: boolean;
+  inputs: CheckInputs;
+  result: CheckResult;
+}
+
+interface CacheFile {
+  version: number;
+  tool_version: string;
+  commit: string;
+  profile_hash: string;
+  entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Open cache for one scan
+ */
+export interface ScanCache {
+  file: string;
+  /** Whether the scanned files match the commit exactly */
+  clean: boolean;
+  data: CacheFile;
+  /** Check results reused from the cache */
+  hits: number;
+  /** Cacheable checks that had to run */
+  misses: number;
+}
+
+/**
+ * Hash of the profile and the config settings that change check results
+ */
+export function hashProfile(profile: Profile, exclude: string[] = []): string {
+  return hash(JSON.stringify({ profile, exclude }));
+}
+
+/**
+ * Load the cache for a commit and profile, or start an empty one
+ *
+ * @param clean - Whether the scanned files match the commit (clean checkout or git ref)
+ */
+export async function openScanCache(
+  rootPath: string,
+  commit: string,
+  profileHash: string,
+  clean: boolean
+): Promise<ScanCache> {
+  const file = path.join(rootPath, CACHE_DIR, `${commit}-${profileHash}.json`);
+  const empty: CacheFile = {
+    version: CACHE_VERSION,
+    tool_version: toolVersion(),
+    commit,
+    profile_hash: profileHash,
+    entries: {},
+  };
+
+  let data = empty;
+  try {
+    const parsed = JSON.parse(await fs.promises.readFile(file, 'utf-8')) as CacheFile;
+    if (parsed.version === CACHE_VERSION && parsed.tool_version === empty.tool_version) {
+      data = parsed;
+    }
+  } catch (err) {
+    logger.debug({ file, err }, 'No usable scan cache');
+  }
+
+  return { file, clean, data, hits: 0, misses: 0 };
+}
+
+/**
+ * Execute checks, reusing cached results whose config and inputs are unchanged
+ *
+ * @param scope - Prefix separating the entries of monorepo apps
+ */
+export async function executeChecksWithCache(
+  checks: CheckConfig[],
+  context: ScanContext,
+  cache: ScanCache,
+  scope = ''
+): Promise<CheckResult[]> {
+  return Promise.all(
+    checks.map(async (check) => {
+      if (!isCacheable(check, context)) {
+        return { ...(await executeCheck(check, context)), weight: check.weight ?? 1 };
+      }
+
+      const key = scope ? `${scope}:${check.id}` : check.id;
+      const configHash = hash(JSON.stringify(check));
+      const entry = cache.data.entries[key];
+
+      if (
+        entry?.config_hash === configHash &&
+        ((cache.clean && entry.clean) || (await inputsUnchanged(entry.inputs, context)))
+      ) {
+        cache.hits++;
+        return entry.result;
+      }
+
+      cache.misses++;
+      const recorder = recordInputs(context);
+      const result = {
+        ...(await executeCheck(check, recorder.context)),
+        weight: check.weight ?? 1,
+      };
+      recorder.inputs.globs.add(IMPLICIT_INPUTS);
+      const manifests = await findScanFiles(context, IMPLICIT_INPUTS);
+      for (const file of [...manifests, ...(result.matched_files ?? [])]) {
+        recorder.inputs.files.add(file);
+      }
+
+      cache.data.entries[key] = {
+        config_hash: configHash,
+        clean: cache.clean,
+        inputs: await fingerprintInputs(recorder.inputs, context),
+        result,
+      };
+      return result;
+    })
+  );
+}
+
+/**
+ * Write the cache, pruning the oldest cache files
+ */
+export async function saveScanCache(cache: ScanCache): Promise<void> {
+  const dir = path.dirname(cache.file);
+  try {
+    await fs.promises.mkdir(dir, { recursive: true });
+    // Keeps the cache out of git status and out of the scan's file index
+    await fs.promises.writeFile(path.join(dir, '.gitignore'), '*\n');
+    await fs.promises.writeFile(cache.file, JSON.stringify(cache.data));
+    await pruneCacheFiles(dir);
+  } catch (err) {
+    // A read-only checkout still scans, just without caching
+    logger.debug({ file: cache.file, err }, 'Failed to write scan cache');
+  }
+}
+
+/**
+ * Remove the cache directory
+ *
+ * @returns Number of cache files removed
+ */
+export async function clearScanCache(rootPath: string): Promise<number> {
+  const dir = path.join(rootPath, CACHE_DIR);
+  const files = await listCacheFiles(dir);
+  await fs.promises.rm(dir, { recursive: true, force: true });
+  // Drop .agent-ready too when the cache was all it held
+  await fs.promises.rmdir(path.dirname(dir)).catch(() => undefined);
+  return files.length;
+}
+
+/**
+ * Whether a check's result depends only on the files it reads
+ *
+ * Checks an app may satisfy from the directories above it also read files
+ * outside the app's file system, which the input recorder doesn't see.
+ */
+function isCacheable(check: CheckConfig, context: ScanContext): boolean {
+  if (
+    !isBuiltinCheck(check) ||
+    UNCACHEABLE_TYPES.has(check.type) ||
+    (context.layers && INHERITABLE_CHECK_TYPES.includes(check.type))
+  ) {
+    return false;
+  }
+  // Composite checks are only as cacheable as their nested checks
+  return !('checks' in check) || check.checks.every((nested) => isCacheable(nested, context));
+}
+
+interface InputRecorder {
+  context: ScanContext;
+  inputs: { files: Set<string>; globs: Set<string>; directories: Set<string> };
+}
+
+/**
+ * Context for a single check that records what it reads
+ *
+ * The check gets its own file and glob caches so every read reaches the
+ * recording file system; reads still go through the scan's shared caches.
+ */
+function recordInputs(context: ScanContext): InputRecorder {
+  const inputs = {
+    files: new Set<string>(),
+    globs: new Set<string>(),
+    directories: new Set<string>(),
+  };
+
+  const fileSystem: ScanFileSystem = {
+    exists: (relativePath) => {
+      inputs.files.add(relativePath);
+      return context.fs.exists(relativePath);
+    },
+    isDirectory: (relativePath) => {
+      inputs.files.add(relativePath);
+      return context.fs.isDirectory(relativePath);
+    },
+    readFile: (relativePath) => {
+      inputs.files.add(relativePath);
+      return readScanFile(context, relativePath);
+    },
+    glob: (pattern) => {
+      inputs.globs.add(pattern);
+      return findScanFiles(context, pattern);
+    },
+    readDirectory: (relativePath) => {
+      inputs.directories.add(relativePath);
+      return context.fs.readDirectory(relativePath);
+    },
+  };
+
+  return {
+    context: { ...context, fs: fileSystem, file_cache: new Map(), glob_cache: new Map() },
+    inputs,
+  };
+}
+
+async function fingerprintInputs(
+  recorded: InputRecorder['inputs'],
+  context: ScanContext
+): Promise<CheckInputs> {
+  const inputs: CheckInputs = { files: {}, globs: {}, directories: {} };
+  for (const file of recorded.files) {
+    inputs.files[file] = await fingerprintFile(file, context);
+  }
+  for (const pattern of recorded.globs) {
+    inputs.globs[pattern] = await fingerprintGlob(pattern, context);
+  }
+  for (const dir of recorded.directories) {
+    inputs.directories[dir] = await fingerprintDirectory(dir, context);
+  }
+  return inputs;
+}
+
+async function inputsUnchanged(inputs: CheckInputs, context: ScanContext): Promise<boolean> {
+  for (const [file, fingerprint] of Object.entries(inputs.files)) {
+    if ((await fingerprintFile(file, context)) !== fingerprint) return false;
+  }
+  for (const [pattern, fingerprint] of Object.entries(inputs.globs)) {
+    if ((await fingerprintGlob(pattern, context)) !== fingerprint) return false;
+  }
+  for (const [dir, fingerprint] of Object.entries(inputs.directories)) {
+    if ((await fingerprintDirectory(dir, context)) !== fingerprint) return false;
+  }
+  return true;
+}
+
+async function fingerprintFile(relativePath: string, context: ScanContext): Promise<string> {
+  if (await context.fs.isDirectory(relativePath)) return 'directory';
+  const content = await readScanFile(context, relativePath);
+  return content === null ? 'missing' : hash(content);
+}
+
+async function fingerprintGlob(pattern: string, context: ScanContext): Promise<string> {
+  return hash((await findScanFiles(context, pattern)).join('\n'));
+}
+
+async function fingerprintDirectory(relativePath: string, context: ScanContext): Promise<string> {
+  return hash(JSON.stringify(await context.fs.readDirectory(relativePath)));
+}
+
+async function listCacheFiles(dir: string): Promise<string[]> {
+  try {
+    const names = await fs.promises.readdir(dir);
+    return names.filter((name) => name.endsWith('.json')).map((name) => path.join(dir, name));
+  } catch {
+    return [];
+  }
+}
+
+async function pruneCacheFiles(dir: string): Promise<void> {
+  const files = await listCacheFiles(dir);
+  if (files.length <= MAX_CACHE_FILES) return;
+
+  const stats = await Promise.all(
+    files.map(async (file) => ({ file, mtime: (await fs.promises.stat(file)).mtimeMs }))
+  );
+  stats.sort((a, b) => b.mtime - a.mtime);
+  await Promise.all(stats.slice(MAX_CACHE_FILES).map(({ file }) => fs.promises.rm(file)));
+}
+
+function hash(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+// Results from another version may come from different check logic
+let cachedToolVersion: string | undefined;
+function toolVersion(): string {
+  if (cachedToolVersion === undefined) {
+    const packagePath = path.join(
+      path.dirname(fileURLToPath(import.meta.url)),
+      '..',
+      '..',
+      'package.json'
+    );
+    try {
+      cachedToolVersion = (JSON.parse(fs.readFileSync(packagePath, 'utf-8')) as { version: string })
+        .version;
+    } catch {
+      cachedToolVersion = 'unknown';
+    }
+  }
+  return cachedToolVersion;
+}
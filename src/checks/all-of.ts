@@ -0,0 +1,53 @@
+/**
+ * all_of composite check implementation
+ *
+ * Passes if every nested check passes
+ */
+
+import type { AllOfCheck, CheckResult, ScanContext } from '../types.js';
+import { compositeLayer, executeNestedChecks, toNestedResults } from './composite.js';
+
+export async function executeAllOf(check: AllOfCheck, context: ScanContext): Promise<CheckResult> {
+  const results = await executeNestedChecks(check.checks, context);
+  const passed = results.filter((r) => r.passed);
+  const failed = results.filter((r) => !r.passed);
+
+  const details = {
+    passed_checks: passed.map((r) => r.check_id),
+    failed_checks: failed.map((r) => r.check_id),
+    results: toNestedResults(results),
+  };
+
+  if (failed.length === 0) {
+    const layer = compositeLayer(results, context, false);
+    const matchedFiles = results.flatMap((r) => r.matched_files ?? []);
+
+    return {
+      check_id: check.id,
+      check_name: check.name,
+      pillar: check.pillar,
+      level: check.level,
+      passed: true,
+      required: check.required,
+      message: `All ${results.length} checks passed`,
+      matched_files: matchedFiles.length > 0 ? matchedFiles : undefined,
+      ...(layer && { layer }),
+      details,
+    };
+  }
+
+  // Collect suggestions from failed checks
+  const suggestions = failed.flatMap((r) => r.suggestions ?? []);
+
+  return {
+    check_id: check.id,
+    check_name: check.name,
+    pillar: check.pillar,
+    level: check.level,
+    passed: false,
+    required: check.required,
+    message: `${passed.length}/${results.length} checks passed (need all): ${failed.map((r) => r.message).join('; ')}`,
+    suggestions: suggestions.length > 0 ? suggestions : undefined,
+    details,
+  };
+}
@@ -5,26 +5,18 @@
  */
 
 import type { AnyOfCheck, CheckResult, ScanContext } from '../types.js';
-import { executeCheck } from './index.js';
+import { compositeLayer, executeNestedChecks, toNestedResults } from './composite.js';
 
 export async function executeAnyOf(check: AnyOfCheck, context: ScanContext): Promise<CheckResult> {
   const minPass = check.min_pass ?? 1;
-  const results: CheckResult[] = [];
-  const passedChecks: string[] = [];
-
-  // Execute all nested checks
-  for (const nestedCheck of check.checks) {
-    const result = await executeCheck(nestedCheck, context);
-    results.push(result);
-    if (result.passed) {
-      passedChecks.push(nestedCheck.id);
-    }
-  }
+  const results = await executeNestedChecks(check.checks, context);
+  const passedChecks = results.filter((r) => r.passed).map((r) => r.check_id);
 
   const passedCount = passedChecks.length;
   const totalCount = check.checks.length;
 
   if (passedCount >= minPass) {
+    const layer = compositeLayer(results, context, true);
     // Collect all matched files from passed checks
     const matchedFiles = results
       .filter((r) => r.passed && r.matched_files)
@@ -39,9 +31,11 @@ export async function executeAnyOf(check: AnyOfCheck, context: ScanContext): Pro
       required: check.required,
       message: `${passedCount}/${totalCount} alternatives passed (need ${minPass})`,
       matched_files: matchedFiles.length > 0 ? matchedFiles : undefined,
+      ...(layer && { layer }),
       details: {
         passed_checks: passedChecks,
         min_required: minPass,
+        results: toNestedResults(results),
       },
     };
   }
@@ -64,6 +58,7 @@ export async function executeAnyOf(check: AnyOfCheck, context: ScanContext): Pro
       passed_checks: passedChecks,
       failed_checks: check.checks.filter((c) => !passedChecks.includes(c.id)).map((c) => c.id),
       min_required: minPass,
+      results: toNestedResults(results),
     },
   };
 }
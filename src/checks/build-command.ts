@@ -5,7 +5,7 @@
  */
 
 import type { BuildCommandDetectCheck, CheckResult, ScanContext } from '../types.js';
-import { readFileCached, safePath } from '../utils/fs.js';
+import { normalizeScanPath, readScanFile } from '../vfs/index.js';
 
 const DEFAULT_FILES = ['package.json', 'Makefile', 'pyproject.toml', 'Cargo.toml', 'go.mod'];
 
@@ -25,10 +25,10 @@ export async function executeBuildCommandDetect(
 
   for (const file of filesToCheck) {
     // Validate path doesn't escape root directory
-    const filePath = safePath(file, context.root_path);
-    if (!filePath) continue;
+    const filePath = normalizeScanPath(file);
+    if (filePath === null) continue;
 
-    const content = await readFileCached(filePath, context.file_cache);
+    const content = await readScanFile(context, filePath);
 
     if (!content) continue;
 
@@ -0,0 +1,52 @@
+/**
+ * Shared helpers for composite checks (any_of, all_of, none_of)
+ */
+
+import type { CheckConfig, CheckResult, NestedCheckResult, ScanContext } from '../types.js';
+import { executeCheck } from './index.js';
+
+/**
+ * Execute nested checks in order
+ */
+export async function executeNestedChecks(
+  checks: CheckConfig[],
+  context: ScanContext
+): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+  for (const nestedCheck of checks) {
+    results.push(await executeCheck(nestedCheck, context));
+  }
+  return results;
+}
+
+/**
+ * Nested results as reported in a composite check's details
+ */
+export function toNestedResults(results: CheckResult[]): NestedCheckResult[] {
+  return results.map((r) => ({
+    check_id: r.check_id,
+    passed: r.passed,
+    message: r.message,
+    ...(r.matched_files && { matched_files: r.matched_files }),
+    ...(r.details && { details: r.details }),
+    ...(r.layer && { layer: r.layer }),
+  }));
+}
+
+/**
+ * Layer a passing composite check was satisfied from in a layered app scan
+ *
+ * any_of needs a single nested check, so the nearest layer counts; all_of
+ * needs every nested check, so the farthest one does.
+ */
+export function compositeLayer(
+  results: CheckResult[],
+  context: ScanContext,
+  nearest: boolean
+): string | undefined {
+  if (!context.layers) return undefined;
+  const order = context.layers.map((layer) => layer.path);
+  const indices = results.filter((r) => r.passed && r.layer).map((r) => order.indexOf(r.layer!));
+  if (indices.length === 0) return undefined;
+  return order[nearest ? Math.min(...indices) : Math.max(...indices)];
+}
@@ -6,100 +6,27 @@
  */
 
 import type { DependencyDetectCheck, CheckResult, ScanContext } from '../types.js';
-import { fileExists, readFileCached, relativePath } from '../utils/fs.js';
-import * as path from 'node:path';
+import { findDependencies, getContextDependencies } from '../engine/dependencies.js';
 
 export async function executeDependencyDetect(
   check: DependencyDetectCheck,
   context: ScanContext
 ): Promise<CheckResult> {
-  const foundPackages: Array<{ package: string; source: string }> = [];
+  const foundPackages: Array<{ package: string; source: string; name?: string }> = [];
   const matchedFiles: string[] = [];
 
-  // Check package.json dependencies (npm/yarn/pnpm)
-  if (context.package_json) {
-    const deps = {
-      ...context.package_json.dependencies,
-      ...context.package_json.devDependencies,
-    };
-
-    for (const pkg of check.packages) {
-      if (deps[pkg]) {
-        foundPackages.push({ package: pkg, source: 'package.json' });
-        if (!matchedFiles.includes('package.json')) {
-          matchedFiles.push('package.json');
-        }
-      }
-    }
-  }
-
-  // Check requirements.txt (Python)
-  const requirementsPath = path.join(context.root_path, 'requirements.txt');
-  if (await fileExists(requirementsPath)) {
-    const content = await readFileCached(requirementsPath, context.file_cache);
-    if (content) {
-      for (const pkg of check.packages) {
-        // Match package name at start of line, with optional version specifier
-        const pattern = new RegExp(`^${escapeRegex(pkg)}([>=<~!\\[\\s]|$)`, 'mi');
-        if (pattern.test(content)) {
-          foundPackages.push({ package: pkg, source: 'requirements.txt' });
-          if (!matchedFiles.includes('requirements.txt')) {
-            matchedFiles.push('requirements.txt');
-          }
-        }
-      }
-    }
-  }
-
-  // Check pyproject.toml (Python Poetry/PEP 621)
-  const pyprojectPath = path.join(context.root_path, 'pyproject.toml');
-  if (await fileExists(pyprojectPath)) {
-    const content = await readFileCached(pyprojectPath, context.file_cache);
-    if (content) {
-      for (const pkg of check.packages) {
-        // Match in dependencies section
-        const pattern = new RegExp(`["']?${escapeRegex(pkg)}["']?\\s*[=:]`, 'i');
-        if (pattern.test(content)) {
-          foundPackages.push({ package: pkg, source: 'pyproject.toml' });
-          if (!matchedFiles.includes('pyproject.toml')) {
-            matchedFiles.push('pyproject.toml');
-          }
-        }
-      }
-    }
-  }
-
-  // Check go.mod (Go)
-  const goModPath = path.join(context.root_path, 'go.mod');
-  if (await fileExists(goModPath)) {
-    const content = await readFileCached(goModPath, context.file_cache);
-    if (content) {
-      for (const pkg of check.packages) {
-        // Match as a full module path (word boundary or end of line)
-        const pattern = new RegExp(`\\b${escapeRegex(pkg)}(/|\\s|$)`, 'i');
-        if (pattern.test(content)) {
-          foundPackages.push({ package: pkg, source: 'go.mod' });
-          if (!matchedFiles.includes('go.mod')) {
-            matchedFiles.push('go.mod');
-          }
-        }
-      }
-    }
-  }
-
-  // Check Cargo.toml (Rust)
-  const cargoPath = path.join(context.root_path, 'Cargo.toml');
-  if (await fileExists(cargoPath)) {
-    const content = await readFileCached(cargoPath, context.file_cache);
-    if (content) {
-      for (const pkg of check.packages) {
-        const pattern = new RegExp(`^${escapeRegex(pkg)}\\s*=`, 'mi');
-        if (pattern.test(content)) {
-          foundPackages.push({ package: pkg, source: 'Cargo.toml' });
-          if (!matchedFiles.includes('Cargo.toml')) {
-            matchedFiles.push('Cargo.toml');
-          }
-        }
+  // Declared dependencies of every ecosystem (package.json, requirements.txt,
+  // pyproject.toml, go.mod, Cargo.toml, pom.xml, build.gradle, ...)
+  const dependencies = await getContextDependencies(context);
+  for (const pkg of check.packages) {
+    for (const dep of findDependencies(dependencies, pkg)) {
+      foundPackages.push({
+        package: pkg,
+        source: dep.source,
+        ...(dep.name !== pkg && { name: dep.name }),
+      });
+      if (!matchedFiles.includes(dep.source)) {
+        matchedFiles.push(dep.source);
       }
     }
   }
@@ -107,10 +34,9 @@ export async function executeDependencyDetect(
   // Check for config files if specified
   if (check.config_files && check.config_files.length > 0) {
     for (const configFile of check.config_files) {
-      const configPath = path.join(context.root_path, configFile);
-      if (await fileExists(configPath)) {
+      if (await context.fs.exists(configFile)) {
         foundPackages.push({ package: `config:${configFile}`, source: configFile });
-        matchedFiles.push(relativePath(configPath, context.root_path));
+        matchedFiles.push(configFile);
       }
     }
   }
@@ -147,10 +73,3 @@ export async function executeDependencyDetect(
     },
   };
 }
-
-/**
- * Escape special regex characters in a string
- */
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
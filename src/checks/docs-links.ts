@@ -0,0 +1,170 @@
+/**
+ * docs_links check implementation
+ *
+ * Verifies that relative links in Markdown files point at existing files and
+ * that `#anchors` match headings, without network access. External URLs are
+ * listed in the result but never fetched.
+ */
+
+import * as path from 'node:path';
+import type { CheckLocation, CheckResult, DocsLinksCheck, ScanContext } from '../types.js';
+import { readScanFile } from '../vfs/index.js';
+import { parseMarkdownAnchors, parseMarkdownLinks } from '../utils/markdown.js';
+
+const MARKDOWN_FILE = /\.(md|markdown|mdx)$/i;
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+// Broken links listed in the message and suggestions; the rest are in details
+const MAX_LISTED = 10;
+
+interface BrokenLink {
+  file: string;
+  line: number;
+  link: string;
+  reason: string;
+}
+
+interface ExternalLink {
+  url: string;
+  file: string;
+  line: number;
+}
+
+export async function executeDocsLinks(
+  check: DocsLinksCheck,
+  context: ScanContext
+): Promise<CheckResult> {
+  const base = {
+    check_id: check.id,
+    check_name: check.name,
+    pillar: check.pillar,
+    level: check.level,
+    required: check.required,
+  };
+
+  const files = (await context.fs.glob(check.pattern)).filter((f) => MARKDOWN_FILE.test(f));
+  if (files.length === 0) {
+    return {
+      ...base,
+      passed: false,
+      message: `No Markdown files match pattern: ${check.pattern}`,
+      suggestions: [`Add documentation matching ${check.pattern}`],
+    };
+  }
+
+  // Anchors per Markdown file, null when the file cannot be read
+  const anchorCache = new Map<string, Set<string> | null>();
+  const anchorsOf = async (file: string) => {
+    if (!anchorCache.has(file)) {
+      const content = await readScanFile(context, file);
+      anchorCache.set(file, content === null ? null : parseMarkdownAnchors(content));
+    }
+    return anchorCache.get(file)!;
+  };
+
+  const broken: BrokenLink[] = [];
+  const external = new Map<string, ExternalLink>();
+  let checked = 0;
+
+  for (const file of files) {
+    const content = await readScanFile(context, file);
+    if (content === null) continue;
+
+    for (const { target, line } of parseMarkdownLinks(content)) {
+      if (/^(https?:)?\/\//i.test(target)) {
+        if (!external.has(target)) external.set(target, { url: target, file, line });
+        continue;
+      }
+      // mailto:, tel: and other schemes have nothing to resolve offline
+      if (URL_SCHEME.test(target)) continue;
+
+      checked++;
+      const reason = await checkLocalLink(context, file, target, anchorsOf);
+      if (reason) broken.push({ file, line, link: target, reason });
+    }
+  }
+
+  const details = {
+    files: files.length,
+    links_checked: checked,
+    broken,
+    external: [...external.values()],
+  };
+
+  if (broken.length === 0) {
+    return {
+      ...base,
+      passed: true,
+      message: `${checked} local link(s) in ${files.length} Markdown file(s) resolve; ${external.size} external URL(s) not checked`,
+      matched_files: files,
+      details,
+    };
+  }
+
+  const listed = broken.slice(0, MAX_LISTED);
+  const more = broken.length - listed.length;
+  const locations: CheckLocation[] = broken.map((b) => ({
+    path: b.file,
+    line: b.line,
+    message: `Broken link '${b.link}': ${b.reason}`,
+  }));
+
+  return {
+    ...base,
+    passed: false,
+    message:
+      `${broken.length} broken link(s): ` +
+      listed.map((b) => `${b.file}:${b.line} '${b.link}' (${b.reason})`).join(', ') +
+      (more > 0 ? `, and ${more} more` : ''),
+    matched_files: [...new Set(broken.map((b) => b.file))],
+    suggestions: listed.map((b) => `Fix or remove the link '${b.link}' in ${b.file}:${b.line}`),
+    locations,
+    details,
+  };
+}
+
+/**
+ * Resolve a relative link from a Markdown file
+ *
+ * @returns Why the link is broken, or null when it resolves
+ */
+async function checkLocalLink(
+  context: ScanContext,
+  file: string,
+  target: string,
+  anchorsOf: (file: string) => Promise<Set<string> | null>
+): Promise<string | null> {
+  const hash = target.indexOf('#');
+  const linkPath = decode(hash === -1 ? target : target.slice(0, hash)).replace(/\?.*$/, '');
+  const anchor = hash === -1 ? '' : decode(target.slice(hash + 1));
+
+  let resolved = file;
+  if (linkPath) {
+    // Leading '/' is relative to the repository root, as on GitHub
+    const joined = linkPath.startsWith('/')
+      ? path.posix.normalize(linkPath.slice(1))
+      : path.posix.join(path.posix.dirname(file), linkPath);
+    resolved = joined.replace(/\/+$/, '');
+    if (resolved === '..' || resolved.startsWith('../')) return 'points outside the repository';
+    if (resolved !== '.' && resolved !== '' && !(await context.fs.exists(resolved))) {
+      return 'file not found';
+    }
+  }
+
+  if (!anchor || !MARKDOWN_FILE.test(resolved)) return null;
+  const anchors = await anchorsOf(resolved);
+  if (anchors && !anchors.has(anchor.toLowerCase())) {
+    return resolved === file
+      ? `anchor '#${anchor}' not found`
+      : `anchor '#${anchor}' not found in ${resolved}`;
+  }
+  return null;
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
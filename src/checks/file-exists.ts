@@ -5,7 +5,7 @@
  */
 
 import type { FileExistsCheck, CheckResult, ScanContext } from '../types.js';
-import { fileExists as fileExistsUtil, readFileCached, safePath } from '../utils/fs.js';
+import { normalizeScanPath, readScanFile } from '../vfs/index.js';
 import { safeRegexTest } from '../utils/regex.js';
 
 export async function executeFileExists(
@@ -13,9 +13,9 @@ export async function executeFileExists(
   context: ScanContext
 ): Promise<CheckResult> {
   // Validate path doesn't escape root directory (prevent path traversal attacks)
-  const filePath = safePath(check.path, context.root_path);
+  const filePath = normalizeScanPath(check.path);
 
-  if (!filePath) {
+  if (filePath === null) {
     return {
       check_id: check.id,
       check_name: check.name,
@@ -28,7 +28,7 @@ export async function executeFileExists(
   }
 
   // Check if file exists
-  const exists = await fileExistsUtil(filePath);
+  const exists = await context.fs.exists(filePath);
 
   if (!exists) {
     return {
@@ -58,7 +58,7 @@ export async function executeFileExists(
   }
 
   // Check content against regex
-  const content = await readFileCached(filePath, context.file_cache);
+  const content = await readScanFile(context, filePath);
 
   if (!content) {
     return {
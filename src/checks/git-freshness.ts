@@ -5,10 +5,8 @@
  * using git commit history. This is used for documentation freshness checks.
  */
 
-import * as path from 'node:path';
 import type { CheckResult, ScanContext, Pillar, Level } from '../types.js';
 import { gitExec } from '../utils/exec.js';
-import { fileExists } from '../utils/fs.js';
 
 /**
  * Git freshness check configuration
@@ -30,11 +28,13 @@ export interface GitFreshnessCheck {
  *
  * @param filePath - Relative path to the file
  * @param repoPath - Root path of the repository
+ * @param sha - Commit to look back from (defaults to HEAD)
  * @returns Date of last modification, or null if not tracked
  */
-function getLastModifiedDate(filePath: string, repoPath: string): Date | null {
+function getLastModifiedDate(filePath: string, repoPath: string, sha?: string): Date | null {
   // Get the last commit date for the file
-  const result = gitExec(['log', '-1', '--format=%aI', '--', filePath], repoPath);
+  const revision = sha ? [sha] : [];
+  const result = gitExec(['log', '-1', '--format=%aI', ...revision, '--', filePath], repoPath);
 
   if (!result.success || !result.stdout) {
     return null;
@@ -65,10 +65,8 @@ export async function executeGitFreshness(
   check: GitFreshnessCheck,
   context: ScanContext
 ): Promise<CheckResult> {
-  const filePath = path.join(context.root_path, check.path);
-
   // First check if the file exists
-  const exists = await fileExists(filePath);
+  const exists = await context.fs.exists(check.path);
   if (!exists) {
     return {
       check_id: check.id,
@@ -83,7 +81,7 @@ export async function executeGitFreshness(
   }
 
   // Get last modification date from git
-  const lastModified = getLastModifiedDate(check.path, context.root_path);
+  const lastModified = getLastModifiedDate(check.path, context.root_path, context.git_ref?.sha);
 
   if (!lastModified) {
     return {
@@ -98,7 +96,8 @@ export async function executeGitFreshness(
     };
   }
 
-  const now = new Date();
+  // Scans of a git ref measure freshness as of that commit
+  const now = context.git_ref ? new Date(context.git_ref.committed_at) : new Date();
   const daysSinceModified = daysBetween(lastModified, now);
 
   if (daysSinceModified <= check.max_days) {
@@ -6,7 +6,7 @@
 
 import * as yaml from 'js-yaml';
 import type { GitHubActionPresentCheck, CheckResult, ScanContext } from '../types.js';
-import { findFilesCached, readFileCached, relativePath } from '../utils/fs.js';
+import { findScanFiles, readScanFile } from '../vfs/index.js';
 import { safeRegex } from '../utils/regex.js';
 
 interface WorkflowConfig {
@@ -26,11 +26,7 @@ export async function executeGitHubActionPresent(
 ): Promise<CheckResult> {
   // Find all workflow files
   const workflowPattern = '.github/workflows/*.{yml,yaml}';
-  const workflowFiles = await findFilesCached(
-    workflowPattern,
-    context.root_path,
-    context.glob_cache
-  );
+  const workflowFiles = await findScanFiles(context, workflowPattern);
 
   if (workflowFiles.length === 0) {
     return {
@@ -69,7 +65,7 @@ export async function executeGitHubActionPresent(
   }
 
   for (const workflowPath of workflowFiles) {
-    const content = await readFileCached(workflowPath, context.file_cache);
+    const content = await readScanFile(context, workflowPath);
     if (!content) continue;
 
     try {
@@ -87,7 +83,7 @@ export async function executeGitHubActionPresent(
             : step.uses.startsWith(check.action.replace(/@.*$/, ''));
 
           if (isMatch) {
-            matchingWorkflows.push(relativePath(workflowPath, context.root_path));
+            matchingWorkflows.push(workflowPath);
             foundActions.push(step.uses);
             break;
           }
@@ -7,7 +7,7 @@
 import * as path from 'node:path';
 import * as yaml from 'js-yaml';
 import type { GitHubWorkflowEventCheck, CheckResult, ScanContext } from '../types.js';
-import { findFilesCached, readFileCached, relativePath } from '../utils/fs.js';
+import { findScanFiles, readScanFile } from '../vfs/index.js';
 
 interface WorkflowConfig {
   name?: string;
@@ -52,11 +52,7 @@ export async function executeGitHubWorkflowEvent(
 ): Promise<CheckResult> {
   // Find all workflow files
   const workflowPattern = '.github/workflows/*.{yml,yaml}';
-  const workflowFiles = await findFilesCached(
-    workflowPattern,
-    context.root_path,
-    context.glob_cache
-  );
+  const workflowFiles = await findScanFiles(context, workflowPattern);
 
   if (workflowFiles.length === 0) {
     return {
@@ -75,7 +71,7 @@ export async function executeGitHubWorkflowEvent(
   const errors: string[] = [];
 
   for (const workflowPath of workflowFiles) {
-    const content = await readFileCached(workflowPath, context.file_cache);
+    const content = await readScanFile(context, workflowPath);
     if (!content) continue;
 
     try {
@@ -84,10 +80,10 @@ export async function executeGitHubWorkflowEvent(
 
       const hasEvent = checkForEvent(parsed.on, check.event, check.branches);
       if (hasEvent) {
-        matchingWorkflows.push(relativePath(workflowPath, context.root_path));
+        matchingWorkflows.push(workflowPath);
       }
     } catch {
-      errors.push(`Failed to parse ${path.basename(workflowPath)}`);
+      errors.push(`Failed to parse ${path.posix.basename(workflowPath)}`);
     }
   }
 
@@ -1,13 +1,16 @@
 /**
  * Check registry and executor
  *
- * Dispatches check execution to the appropriate handler based on check type
+ * Dispatches check execution to the appropriate handler based on check type.
+ * Types not built in are looked up in the plugin registry.
  */
 
-import type { CheckConfig, CheckResult, ScanContext } from '../types.js';
+import type { CheckConfig, CheckExecutor, CheckResult, ScanContext } from '../types.js';
 import { executeFileExists } from './file-exists.js';
 import { executePathGlob } from './path-glob.js';
 import { executeAnyOf } from './any-of.js';
+import { executeAllOf } from './all-of.js';
+import { executeNoneOf } from './none-of.js';
 import { executeGitHubWorkflowEvent } from './github-workflow.js';
 import { executeGitHubActionPresent } from './github-action.js';
 import { executeBuildCommandDetect } from './build-command.js';
@@ -15,11 +18,73 @@ import { executeLogFrameworkDetect } from './log-framework.js';
 import { executeDependencyDetect } from './dependency-detect.js';
 import { executeGitFreshness } from './git-freshness.js';
 import { executeCommandExists } from './command-exists.js';
+import { executeStructuredMatch } from './structured-match.js';
+import { executeMarkdownSections } from './markdown-sections.js';
+import { executeDocsLinks } from './docs-links.js';
+import {
+  BUILTIN_CHECK_TYPES,
+  INHERITABLE_CHECK_TYPES,
+  getCheckExecutor,
+  getRegisteredCheckTypes,
+  isBuiltinCheck,
+} from './registry.js';
+
+export {
+  registerCheckExecutor,
+  unregisterCheckExecutor,
+  getCheckExecutor,
+  getRegisteredCheckTypes,
+  isBuiltinCheck,
+} from './registry.js';
+export { loadCheckPlugin, loadCheckPlugins } from './plugins.js';
 
 /**
  * Execute a check and return the result
+ *
+ * In a layered app scan, file checks try the app and then each directory
+ * above it; the first layer that passes is recorded on the result.
  */
 export async function executeCheck(check: CheckConfig, context: ScanContext): Promise<CheckResult> {
+  if (!context.layers || !(INHERITABLE_CHECK_TYPES as string[]).includes(check.type)) {
+    return executeCheckType(check, context);
+  }
+
+  let ownResult: CheckResult | undefined;
+  for (const layer of context.layers) {
+    const result = await executeCheckType(check, {
+      ...context,
+      fs: layer.fs,
+      file_cache: layer.file_cache,
+      glob_cache: layer.glob_cache,
+    });
+    if (result.passed) return { ...result, layer: layer.path };
+    ownResult ??= result;
+  }
+  // Suggestions point at the app's own files
+  return ownResult!;
+}
+
+async function executeCheckType(check: CheckConfig, context: ScanContext): Promise<CheckResult> {
+  if (!isBuiltinCheck(check)) {
+    // Custom check types registered by plugins
+    const executor = getCheckExecutor(check.type);
+    if (executor) {
+      return executePluginCheck(executor, check, context);
+    }
+
+    // Unregistered types are rejected by YAML validation,
+    // but handle gracefully by preserving check properties
+    return {
+      check_id: check.id,
+      check_name: check.name,
+      pillar: check.pillar,
+      level: check.level,
+      passed: false,
+      required: check.required,
+      message: `Unknown check type: ${check.type}`,
+    };
+  }
+
   switch (check.type) {
     case 'file_exists':
       return executeFileExists(check, context);
@@ -30,6 +95,12 @@ export async function executeCheck(check: CheckConfig, context: ScanContext): Pr
     case 'any_of':
       return executeAnyOf(check, context);
 
+    case 'all_of':
+      return executeAllOf(check, context);
+
+    case 'none_of':
+      return executeNoneOf(check, context);
+
     case 'github_workflow_event':
       return executeGitHubWorkflowEvent(check, context);
 
@@ -51,48 +122,61 @@ export async function executeCheck(check: CheckConfig, context: ScanContext): Pr
     case 'command_exists':
       return executeCommandExists(check as any, context);
 
-    default: {
-      // This should never happen due to TypeScript and YAML validation,
-      // but handle gracefully by preserving check properties
-      const unknownCheck = check as CheckConfig & { type: string };
-      return {
-        check_id: unknownCheck.id,
-        check_name: unknownCheck.name,
-        pillar: unknownCheck.pillar,
-        level: unknownCheck.level,
-        passed: false,
-        required: unknownCheck.required,
-        message: `Unknown check type: ${unknownCheck.type}`,
-      };
-    }
+    case 'structured_match':
+      return executeStructuredMatch(check, context);
+
+    case 'markdown_sections':
+      return executeMarkdownSections(check, context);
+
+    case 'docs_links':
+      return executeDocsLinks(check, context);
+  }
+}
+
+/**
+ * Run a plugin executor, turning thrown errors into a failed result
+ */
+async function executePluginCheck(
+  executor: CheckExecutor,
+  check: CheckConfig,
+  context: ScanContext
+): Promise<CheckResult> {
+  try {
+    return await executor.execute(check, context);
+  } catch (error) {
+    return {
+      check_id: check.id,
+      check_name: check.name,
+      pillar: check.pillar,
+      level: check.level,
+      passed: false,
+      required: check.required,
+      message: `Check type '${executor.type}' failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
   }
 }
 
 /**
  * Execute multiple checks in parallel
+ *
+ * Each result carries the check's scoring weight for the level gate.
  */
 export async function executeChecks(
   checks: CheckConfig[],
   context: ScanContext
 ): Promise<CheckResult[]> {
-  const results = await Promise.all(checks.map((check) => executeCheck(check, context)));
+  const results = await Promise.all(
+    checks.map(async (check) => ({
+      ...(await executeCheck(check, context)),
+      weight: check.weight ?? 1,
+    }))
+  );
   return results;
 }
 
 /**
- * Get all supported check types
+ * Get all supported check types, including those registered by plugins
  */
 export function getSupportedCheckTypes(): string[] {
-  return [
-    'file_exists',
-    'path_glob',
-    'any_of',
-    'github_workflow_event',
-    'github_action_present',
-    'build_command_detect',
-    'log_framework_detect',
-    'dependency_detect',
-    'git_freshness',
-    'command_exists',
-  ];
+  return [...BUILTIN_CHECK_TYPES, ...getRegisteredCheckTypes()];
 }
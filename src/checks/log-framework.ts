@@ -5,7 +5,20 @@
  */
 
 import type { LogFrameworkDetectCheck, CheckResult, ScanContext } from '../types.js';
-import { readFileCached, findFilesCached, relativePath } from '../utils/fs.js';
+import { findScanFiles, readScanFile } from '../vfs/index.js';
+import { findDependencies, getContextDependencies } from '../engine/dependencies.js';
+
+// Package names of frameworks whose name differs from the package
+// (Go modules, Maven groups); others are looked up by framework name
+const FRAMEWORK_PACKAGES: Record<string, string[]> = {
+  logrus: ['github.com/sirupsen/logrus'],
+  zap: ['go.uber.org/zap'],
+  zerolog: ['github.com/rs/zerolog'],
+  slf4j: ['org.slf4j'],
+  log4j: ['org.apache.logging.log4j', 'log4j:log4j'],
+  logback: ['ch.qos.logback'],
+  'log/env_logger': ['log', 'env_logger'],
+};
 
 // Known logging frameworks by language/ecosystem
 const FRAMEWORK_PATTERNS: Record<string, RegExp[]> = {
@@ -41,21 +54,17 @@ export async function executeLogFrameworkDetect(
 ): Promise<CheckResult> {
   const foundFrameworks: Array<{ framework: string; source: string }> = [];
 
-  // Check package.json dependencies
-  if (context.package_json) {
-    const deps = {
-      ...context.package_json.dependencies,
-      ...context.package_json.devDependencies,
-    };
-
-    for (const framework of check.frameworks) {
-      if (deps[framework]) {
-        foundFrameworks.push({ framework, source: 'package.json' });
-      }
+  // Check declared dependencies of every ecosystem
+  const dependencies = await getContextDependencies(context);
+  for (const framework of check.frameworks) {
+    const packages = FRAMEWORK_PACKAGES[framework] ?? [framework];
+    const dep = packages.flatMap((pkg) => findDependencies(dependencies, pkg))[0];
+    if (dep) {
+      foundFrameworks.push({ framework, source: dep.source });
     }
   }
 
-  // If found in package.json, we're done
+  // If found in a manifest, we're done
   if (foundFrameworks.length > 0) {
     return {
       check_id: check.id,
@@ -65,7 +74,7 @@ export async function executeLogFrameworkDetect(
       passed: true,
       required: check.required,
       message: `Found logging framework(s): ${foundFrameworks.map((f) => f.framework).join(', ')}`,
-      matched_files: ['package.json'],
+      matched_files: [...new Set(foundFrameworks.map((f) => f.source))],
       details: {
         frameworks: foundFrameworks,
       },
@@ -76,13 +85,13 @@ export async function executeLogFrameworkDetect(
   const sourcePatterns = ['**/*.ts', '**/*.js', '**/*.py', '**/*.go', '**/*.java', '**/*.rs'];
 
   for (const pattern of sourcePatterns) {
-    const files = await findFilesCached(pattern, context.root_path, context.glob_cache);
+    const files = await findScanFiles(context, pattern);
 
     // Limit search to avoid scanning too many files
     const filesToCheck = files.slice(0, 100);
 
     for (const filePath of filesToCheck) {
-      const content = await readFileCached(filePath, context.file_cache);
+      const content = await readScanFile(context, filePath);
       if (!content) continue;
 
       for (const framework of check.frameworks) {
@@ -93,7 +102,7 @@ export async function executeLogFrameworkDetect(
           if (pattern.test(content)) {
             foundFrameworks.push({
               framework,
-              source: relativePath(filePath, context.root_path),
+              source: filePath,
             });
             break;
           }
@@ -0,0 +1,183 @@
+/**
+ * markdown_sections check implementation
+ *
+ * Parses the headings of a Markdown file and checks that required sections
+ * exist (under any of their aliases), have enough prose and contain code
+ * blocks where asked, and that headings do not nest too deeply
+ */
+
+import type {
+  CheckResult,
+  MarkdownSectionRequirement,
+  MarkdownSectionsCheck,
+  ScanContext,
+} from '../types.js';
+import { normalizeScanPath, readScanFile } from '../vfs/index.js';
+import {
+  normalizeHeading,
+  parseMarkdownSections,
+  type MarkdownHeading,
+  type MarkdownSection,
+} from '../utils/markdown.js';
+
+interface SectionOutcome {
+  /** Accepted headings, first one is used in suggestions */
+  heading: string[];
+  passed: boolean;
+  /** Why it failed, or which heading satisfied it */
+  reason: string;
+  /** What to change when it failed */
+  suggestions?: string[];
+  /** Heading that satisfied the requirement, or the closest match */
+  matched?: MarkdownHeading;
+  word_count?: number;
+  has_code_block?: boolean;
+}
+
+export async function executeMarkdownSections(
+  check: MarkdownSectionsCheck,
+  context: ScanContext
+): Promise<CheckResult> {
+  const base = {
+    check_id: check.id,
+    check_name: check.name,
+    pillar: check.pillar,
+    level: check.level,
+    required: check.required,
+  };
+
+  // Validate path doesn't escape root directory (prevent path traversal attacks)
+  const filePath = normalizeScanPath(check.path);
+  if (filePath === null) {
+    return {
+      ...base,
+      passed: false,
+      message: `Invalid path (path traversal detected): ${check.path}`,
+    };
+  }
+
+  const content = await readScanFile(context, filePath);
+  if (content === null) {
+    return {
+      ...base,
+      passed: false,
+      message: `File not found: ${check.path}`,
+      suggestions: [`Create ${check.path}`],
+    };
+  }
+
+  const sections = parseMarkdownSections(content);
+  const outcomes = (check.sections ?? []).map((requirement) =>
+    evaluateRequirement(check.path, sections, requirement)
+  );
+  const failed = outcomes.filter((o) => !o.passed);
+  const reasons = failed.map((o) => o.reason);
+  const suggestions = failed.flatMap((o) => o.suggestions ?? []);
+
+  const tooDeep =
+    check.max_depth !== undefined
+      ? sections.map((s) => s.heading).filter((h) => h.level > check.max_depth!)
+      : [];
+  if (tooDeep.length > 0) {
+    const first = tooDeep[0];
+    reasons.push(
+      `${tooDeep.length} heading(s) deeper than level ${check.max_depth} (line ${first.line}: '${'#'.repeat(first.level)} ${first.text}')`
+    );
+    suggestions.push(`Flatten headings in ${check.path} to at most level ${check.max_depth}`);
+  }
+
+  const details = {
+    headings: sections.map((s) => s.heading),
+    sections: outcomes,
+    ...(tooDeep.length > 0 && { too_deep: tooDeep }),
+  };
+
+  if (reasons.length === 0) {
+    return {
+      ...base,
+      passed: true,
+      message:
+        outcomes.length > 0
+          ? `${check.path} has ${outcomes.length} required section(s)`
+          : `${check.path} has ${sections.length} heading(s) within level ${check.max_depth}`,
+      matched_files: [check.path],
+      details,
+    };
+  }
+
+  return {
+    ...base,
+    passed: false,
+    message: `${check.path} structure: ${reasons.join('; ')}`,
+    suggestions,
+    details,
+  };
+}
+
+/**
+ * Find the section satisfying a requirement
+ *
+ * Every section whose heading contains one of the aliases as whole words is
+ * a candidate; the requirement passes if any candidate meets its limits.
+ */
+function evaluateRequirement(
+  filePath: string,
+  sections: MarkdownSection[],
+  requirement: MarkdownSectionRequirement
+): SectionOutcome {
+  const aliases = Array.isArray(requirement.heading) ? requirement.heading : [requirement.heading];
+  const label = `'${aliases[0]}'`;
+  const patterns = aliases.map((alias) => ` ${normalizeHeading(alias)} `);
+
+  const candidates = sections.filter((section) => {
+    const heading = ` ${normalizeHeading(section.heading.text)} `;
+    return patterns.some((pattern) => heading.includes(pattern));
+  });
+
+  if (candidates.length === 0) {
+    return {
+      heading: aliases,
+      passed: false,
+      reason: `missing section ${aliases.map((a) => `'${a}'`).join(' / ')}`,
+      suggestions: [`Add a '## ${aliases[0]}' section to ${filePath}`],
+    };
+  }
+
+  const minWords = requirement.min_words ?? 0;
+  const outcome = (section: MarkdownSection) => ({
+    heading: aliases,
+    matched: section.heading,
+    word_count: section.word_count,
+    has_code_block: section.has_code_block,
+  });
+
+  const satisfying = candidates.find(
+    (s) => s.word_count >= minWords && (!requirement.code_block || s.has_code_block)
+  );
+  if (satisfying) {
+    return {
+      ...outcome(satisfying),
+      passed: true,
+      reason: `'${satisfying.heading.text}' (line ${satisfying.heading.line})`,
+    };
+  }
+
+  // Report against the first candidate
+  const closest = candidates[0];
+  const problems: string[] = [];
+  const suggestions: string[] = [];
+  if (closest.word_count < minWords) {
+    problems.push(`has ${closest.word_count} word(s), expected at least ${minWords}`);
+    suggestions.push(`Expand the ${label} section of ${filePath} to at least ${minWords} words`);
+  }
+  if (requirement.code_block && !closest.has_code_block) {
+    problems.push('has no fenced code block');
+    suggestions.push(`Add a fenced code block under ${label} in ${filePath}`);
+  }
+  return {
+    ...outcome(closest),
+    passed: false,
+    reason: `section '${closest.heading.text}' (line ${closest.heading.line}) ${problems.join(' and ')}`,
+    suggestions,
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * none_of composite check implementation
+ *
+ * Passes if no nested check passes, e.g. "no .env file is committed"
+ */
+
+import type { CheckResult, NoneOfCheck, ScanContext } from '../types.js';
+import { executeNestedChecks, toNestedResults } from './composite.js';
+
+export async function executeNoneOf(
+  check: NoneOfCheck,
+  context: ScanContext
+): Promise<CheckResult> {
+  const results = await executeNestedChecks(check.checks, context);
+  const matched = results.filter((r) => r.passed);
+
+  const details = {
+    matched_checks: matched.map((r) => r.check_id),
+    results: toNestedResults(results),
+  };
+
+  if (matched.length === 0) {
+    return {
+      check_id: check.id,
+      check_name: check.name,
+      pillar: check.pillar,
+      level: check.level,
+      passed: true,
+      required: check.required,
+      message: `None of ${results.length} forbidden conditions found`,
+      details,
+    };
+  }
+
+  // The files that made a nested check pass are the ones to remove
+  const matchedFiles = [...new Set(matched.flatMap((r) => r.matched_files ?? []))];
+
+  return {
+    check_id: check.id,
+    check_name: check.name,
+    pillar: check.pillar,
+    level: check.level,
+    passed: false,
+    required: check.required,
+    message: `Found ${matched.length} forbidden condition(s): ${matched.map((r) => r.check_name).join(', ')}`,
+    matched_files: matchedFiles.length > 0 ? matchedFiles : undefined,
+    suggestions: matchedFiles.length > 0 ? matchedFiles.map((f) => `Remove ${f}`) : undefined,
+    details,
+  };
+}
@@ -5,7 +5,7 @@
  */
 
 import type { PathGlobCheck, CheckResult, ScanContext } from '../types.js';
-import { findFilesCached, readFileCached, relativePath } from '../utils/fs.js';
+import { findScanFiles, readScanFile } from '../vfs/index.js';
 import { safeRegexTest, isUnsafeRegex } from '../utils/regex.js';
 
 export async function executePathGlob(
@@ -15,7 +15,7 @@ export async function executePathGlob(
   const minMatches = check.min_matches ?? 1;
 
   // Find files matching pattern
-  const matches = await findFilesCached(check.pattern, context.root_path, context.glob_cache);
+  const matches = await findScanFiles(context, check.pattern);
 
   if (matches.length < minMatches) {
     return {
@@ -47,7 +47,6 @@ export async function executePathGlob(
 
   // If no content regex, file matches are enough
   if (!check.content_regex) {
-    const relativeMatches = matches.map((m) => relativePath(m, context.root_path));
     return {
       check_id: check.id,
       check_name: check.name,
@@ -56,7 +55,7 @@ export async function executePathGlob(
       passed: true,
       required: check.required,
       message: `Found ${matches.length} files matching '${check.pattern}'`,
-      matched_files: relativeMatches,
+      matched_files: matches,
     };
   }
 
@@ -78,11 +77,11 @@ export async function executePathGlob(
   const matchingFiles: string[] = [];
 
   for (const filePath of matches) {
-    const content = await readFileCached(filePath, context.file_cache);
+    const content = await readScanFile(context, filePath);
     if (content) {
       const result = safeRegexTest(check.content_regex, content);
       if (result.matched) {
-        matchingFiles.push(relativePath(filePath, context.root_path));
+        matchingFiles.push(filePath);
       }
     }
   }
@@ -0,0 +1,71 @@
+/**
+ * Check plugin loader
+ *
+ * Imports plugin modules listed in a profile's `plugins` section and
+ * registers the check types they provide
+ */
+
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { CheckPlugin } from '../types.js';
+import { registerCheckExecutor } from './registry.js';
+
+/**
+ * Resolve a plugin specifier declared in a profile
+ *
+ * Relative paths are resolved against the declaring profile's directory;
+ * package names are left for the module loader to resolve.
+ */
+export function resolvePluginSpecifier(specifier: string, profileDir: string): string {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    return path.resolve(profileDir, specifier);
+  }
+  return specifier;
+}
+
+/**
+ * Import a plugin module and register its check types
+ */
+export async function loadCheckPlugin(specifier: string): Promise<CheckPlugin> {
+  const url = path.isAbsolute(specifier) ? pathToFileURL(specifier).href : specifier;
+
+  let module: { default?: unknown };
+  try {
+    module = await import(url);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const hint = /\.[cm]?ts$/.test(specifier)
+      ? ' (TypeScript plugins must be compiled to JavaScript or run under a TS loader)'
+      : '';
+    throw new Error(`Failed to load check plugin '${specifier}': ${message}${hint}`);
+  }
+
+  const plugin = module.default as CheckPlugin | undefined;
+  if (!plugin || typeof plugin !== 'object' || !Array.isArray(plugin.executors)) {
+    throw new Error(
+      `Invalid check plugin '${specifier}': default export must be { name, executors: CheckExecutor[] }`
+    );
+  }
+
+  for (const executor of plugin.executors) {
+    try {
+      registerCheckExecutor(executor);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid check plugin '${plugin.name ?? specifier}': ${message}`);
+    }
+  }
+
+  return plugin;
+}
+
+/**
+ * Load several plugins in order
+ */
+export async function loadCheckPlugins(specifiers: string[]): Promise<CheckPlugin[]> {
+  const plugins: CheckPlugin[] = [];
+  for (const specifier of specifiers) {
+    plugins.push(await loadCheckPlugin(specifier));
+  }
+  return plugins;
+}
@@ -0,0 +1,91 @@
+/**
+ * Check type registry
+ *
+ * Tracks check types registered by plugins alongside the built-in types,
+ * so profile validation and check dispatch can resolve custom types
+ */
+
+import type { BuiltinCheckConfig, CheckConfig, CheckExecutor, CheckType } from '../types.js';
+
+// Built-in check types, dispatched directly by executeCheck
+export const BUILTIN_CHECK_TYPES: CheckType[] = [
+  'file_exists',
+  'path_glob',
+  'any_of',
+  'all_of',
+  'none_of',
+  'github_workflow_event',
+  'github_action_present',
+  'build_command_detect',
+  'log_framework_detect',
+  'dependency_detect',
+  'git_freshness',
+  'command_exists',
+  'structured_match',
+  'markdown_sections',
+  'docs_links',
+];
+
+/**
+ * Whether a check has a built-in type (rather than a plugin type)
+ */
+export function isBuiltinCheck(check: CheckConfig): check is BuiltinCheckConfig {
+  return (BUILTIN_CHECK_TYPES as string[]).includes(check.type);
+}
+
+// Check types a monorepo app can satisfy with files inherited from the directories above it
+export const INHERITABLE_CHECK_TYPES: CheckType[] = [
+  'file_exists',
+  'path_glob',
+  'github_workflow_event',
+  'github_action_present',
+];
+
+// Plugin check types by type name
+const executors = new Map<string, CheckExecutor>();
+
+/**
+ * Register an executor for a custom check type
+ *
+ * Re-registering the same executor object is a no-op, so a plugin module
+ * can be loaded by several profiles in one process.
+ */
+export function registerCheckExecutor(executor: CheckExecutor): void {
+  if (!executor || typeof executor.type !== 'string' || !executor.type) {
+    throw new Error('Check executor must have a non-empty string type');
+  }
+  if (typeof executor.execute !== 'function') {
+    throw new Error(`Check executor '${executor.type}' must have an execute function`);
+  }
+  if ((BUILTIN_CHECK_TYPES as string[]).includes(executor.type)) {
+    throw new Error(`Cannot override built-in check type '${executor.type}'`);
+  }
+
+  const existing = executors.get(executor.type);
+  if (existing && existing !== executor) {
+    throw new Error(`Check type '${executor.type}' is already registered`);
+  }
+
+  executors.set(executor.type, executor);
+}
+
+/**
+ * Remove a custom check type
+ */
+export function unregisterCheckExecutor(type: string): boolean {
+  return executors.delete(type);
+}
+
+/**
+ * Get the executor for a custom check type
+ */
+export function getCheckExecutor(type: string): CheckExecutor | undefined {
+  return executors.get(type);
+}
+
+/**
+ * List the custom check types registered by plugins
+ */
+export function getRegisteredCheckTypes(): string[] {
+  return [...executors.keys()];
+}
@@ -0,0 +1,330 @@
+/**
+ * structured_match check implementation
+ *
+ * Parses a JSON, JSONC, YAML or TOML file and evaluates assertions on the
+ * values at path expressions such as `compilerOptions.strict`,
+ * `tool.pytest` or `permissions.deny[*]`
+ */
+
+import { isDeepStrictEqual } from 'node:util';
+import * as yaml from 'js-yaml';
+import type {
+  CheckResult,
+  ScanContext,
+  StructuredAssertion,
+  StructuredFormat,
+  StructuredMatchCheck,
+} from '../types.js';
+import { normalizeScanPath, readScanFile } from '../vfs/index.js';
+import { parseJsonc } from '../utils/jsonc.js';
+import { parseToml } from '../utils/toml.js';
+import { safeRegexTest } from '../utils/regex.js';
+
+// Formats inferred from file extensions; .json is parsed leniently as JSONC
+const EXTENSION_FORMATS: Record<string, StructuredFormat> = {
+  '.json': 'jsonc',
+  '.jsonc': 'jsonc',
+  '.json5': 'jsonc',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+};
+
+// One step of a path expression
+type PathSegment = { key: string } | { index: number } | { wildcard: true };
+
+// Value found at a path expression, with its concrete path
+interface PathMatch {
+  path: string;
+  value: unknown;
+}
+
+/**
+ * Format of a structured file: explicit, or inferred from its extension
+ */
+export function inferStructuredFormat(
+  filePath: string,
+  format?: StructuredFormat
+): StructuredFormat | undefined {
+  if (format) return format;
+  const extension = /\.[^./]+$/.exec(filePath.toLowerCase())?.[0];
+  return extension ? EXTENSION_FORMATS[extension] : undefined;
+}
+
+/**
+ * Parse a path expression: dot-separated keys, `[n]` indexes, `*` or `[*]`
+ * wildcards and `["quoted.key"]` segments
+ *
+ * @throws Error when the expression is malformed
+ */
+export function parsePathExpression(expression: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let i = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid path expression '${expression}': ${message}`);
+  };
+
+  while (i < expression.length) {
+    if (expression[i] === '[') {
+      const end = expression.indexOf(']', i);
+      if (end === -1) fail("missing ']'");
+      const inner = expression.slice(i + 1, end).trim();
+      const quoted = /^(["'])(.*)\1$/.exec(inner);
+      if (inner === '*') {
+        segments.push({ wildcard: true });
+      } else if (/^\d+$/.test(inner)) {
+        segments.push({ index: parseInt(inner, 10) });
+      } else if (quoted) {
+        segments.push({ key: quoted[2] });
+      } else {
+        fail(`unsupported segment '[${inner}]'`);
+      }
+      i = end + 1;
+    } else {
+      const match = /^[^.[\]]+/.exec(expression.slice(i));
+      if (!match) fail(`empty segment at position ${i}`);
+      const key = match![0];
+      segments.push(key === '*' ? { wildcard: true } : { key });
+      i += key.length;
+    }
+
+    if (expression[i] === '.') {
+      i++;
+      if (i === expression.length) fail('trailing dot');
+    }
+  }
+
+  if (segments.length === 0) fail('empty expression');
+  return segments;
+}
+
+/**
+ * All values at a path expression
+ */
+export function evaluatePathExpression(document: unknown, expression: string): PathMatch[] {
+  let matches: PathMatch[] = [{ path: '', value: document }];
+
+  for (const segment of parsePathExpression(expression)) {
+    const next: PathMatch[] = [];
+    for (const { path, value } of matches) {
+      if ('index' in segment) {
+        if (Array.isArray(value) && segment.index < value.length) {
+          next.push({ path: `${path}[${segment.index}]`, value: value[segment.index] });
+        }
+      } else if ('key' in segment) {
+        if (isObject(value) && Object.hasOwn(value, segment.key)) {
+          next.push({ path: joinPath(path, segment.key), value: value[segment.key] });
+        }
+      } else if (Array.isArray(value)) {
+        value.forEach((item, i) => next.push({ path: `${path}[${i}]`, value: item }));
+      } else if (isObject(value)) {
+        for (const [key, item] of Object.entries(value)) {
+          next.push({ path: joinPath(path, key), value: item });
+        }
+      }
+    }
+    matches = next;
+  }
+
+  return matches;
+}
+
+export async function executeStructuredMatch(
+  check: StructuredMatchCheck,
+  context: ScanContext
+): Promise<CheckResult> {
+  const base = {
+    check_id: check.id,
+    check_name: check.name,
+    pillar: check.pillar,
+    level: check.level,
+    required: check.required,
+  };
+
+  // Validate path doesn't escape root directory (prevent path traversal attacks)
+  const filePath = normalizeScanPath(check.path);
+  if (filePath === null) {
+    return {
+      ...base,
+      passed: false,
+      message: `Invalid path (path traversal detected): ${check.path}`,
+    };
+  }
+
+  const content = await readScanFile(context, filePath);
+  if (content === null) {
+    return {
+      ...base,
+      passed: false,
+      message: `File not found: ${check.path}`,
+      suggestions: [`Create ${check.path}`],
+    };
+  }
+
+  const format = inferStructuredFormat(check.path, check.format);
+  if (!format) {
+    return {
+      ...base,
+      passed: false,
+      message: `Cannot infer the format of ${check.path}; set 'format'`,
+    };
+  }
+
+  let document: unknown;
+  try {
+    document = parseStructured(content, format);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      ...base,
+      passed: false,
+      message: `Failed to parse ${check.path} as ${format}: ${message}`,
+      suggestions: [`Fix the ${format} syntax of ${check.path}`],
+      details: { format, error: message },
+    };
+  }
+
+  const outcomes = check.assertions.map((assertion) => evaluateAssertion(document, assertion));
+  const failed = outcomes.filter((o) => !o.passed);
+  const details = { format, assertions: outcomes };
+
+  if (failed.length === 0) {
+    return {
+      ...base,
+      passed: true,
+      message: `${check.path} satisfies ${outcomes.length} assertion(s)`,
+      matched_files: [check.path],
+      details,
+    };
+  }
+
+  return {
+    ...base,
+    passed: false,
+    message: `${check.path} fails ${failed.length}/${outcomes.length} assertion(s): ${failed.map((o) => o.reason).join('; ')}`,
+    suggestions: failed.map((o) => `Update ${check.path} so that ${o.expected}`),
+    details,
+  };
+}
+
+/**
+ * Parse file content in a structured format
+ */
+export function parseStructured(content: string, format: StructuredFormat): unknown {
+  switch (format) {
+    case 'json':
+      return JSON.parse(content);
+    case 'jsonc':
+      return parseJsonc(content);
+    case 'yaml':
+      // JSON_SCHEMA for security - prevents arbitrary code execution
+      return yaml.load(content, { schema: yaml.JSON_SCHEMA });
+    case 'toml':
+      return parseToml(content);
+  }
+}
+
+interface AssertionOutcome {
+  path: string;
+  passed: boolean;
+  /** What the assertion requires, e.g. "compilerOptions.strict equals true" */
+  expected: string;
+  /** Why it failed, or what satisfied it */
+  reason: string;
+  /** Values found at the path expression */
+  values: unknown[];
+  /** Concrete paths of the values */
+  matched_paths: string[];
+}
+
+function evaluateAssertion(document: unknown, assertion: StructuredAssertion): AssertionOutcome {
+  const matches = evaluatePathExpression(document, assertion.path);
+  const expected = describeAssertion(assertion);
+  const outcome = {
+    path: assertion.path,
+    expected,
+    values: matches.map((m) => m.value),
+    matched_paths: matches.map((m) => m.path),
+  };
+
+  if (assertion.exists === false) {
+    return matches.length === 0
+      ? { ...outcome, passed: true, reason: `${assertion.path} is absent` }
+      : { ...outcome, passed: false, reason: `${assertion.path} is present` };
+  }
+
+  if (matches.length === 0) {
+    return { ...outcome, passed: false, reason: `${assertion.path} not found` };
+  }
+
+  // Passes when any value found satisfies every operator
+  const satisfying = matches.find((m) => satisfies(m.value, assertion));
+  return satisfying
+    ? { ...outcome, passed: true, reason: `${satisfying.path || assertion.path} matched` }
+    : {
+        ...outcome,
+        passed: false,
+        reason: `${assertion.path} is ${formatValue(matches[0].value)}, expected ${expected.slice(assertion.path.length + 1)}`,
+      };
+}
+
+function satisfies(value: unknown, assertion: StructuredAssertion): boolean {
+  if (assertion.equals !== undefined && !isDeepStrictEqual(value, assertion.equals)) {
+    return false;
+  }
+
+  if (assertion.matches !== undefined) {
+    if (!['string', 'number', 'boolean'].includes(typeof value)) return false;
+    if (!safeRegexTest(assertion.matches, String(value)).matched) return false;
+  }
+
+  if (assertion.contains !== undefined) {
+    if (Array.isArray(value)) {
+      if (!value.some((item) => isDeepStrictEqual(item, assertion.contains))) return false;
+    } else if (typeof value === 'string') {
+      if (!value.includes(String(assertion.contains))) return false;
+    } else if (isObject(value)) {
+      if (!Object.hasOwn(value, String(assertion.contains))) return false;
+    } else {
+      return false;
+    }
+  }
+
+  if (assertion.min_length !== undefined) {
+    const length = Array.isArray(value)
+      ? value.length
+      : typeof value === 'string'
+        ? value.length
+        : isObject(value)
+          ? Object.keys(value).length
+          : -1;
+    if (length < assertion.min_length) return false;
+  }
+
+  return true;
+}
+
+function describeAssertion(assertion: StructuredAssertion): string {
+  const parts: string[] = [];
+  if (assertion.exists !== undefined) parts.push(assertion.exists ? 'exists' : 'is absent');
+  if (assertion.equals !== undefined) parts.push(`equals ${formatValue(assertion.equals)}`);
+  if (assertion.matches !== undefined) parts.push(`matches /${assertion.matches}/`);
+  if (assertion.contains !== undefined) parts.push(`contains ${formatValue(assertion.contains)}`);
+  if (assertion.min_length !== undefined)
+    parts.push(`has at least ${assertion.min_length} item(s)`);
+  return `${assertion.path} ${parts.join(' and ')}`;
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$-]*$/.test(key) ? (path ? `${path}.${key}` : key) : `${path}["${key}"]`;
+}
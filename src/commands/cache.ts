@@ -0,0 +1,26 @@
+/**
+ * Cache command implementation
+ */
+
+import * as path from 'node:path';
+import chalk from 'chalk';
+import { CACHE_DIR, clearScanCache } from '../cache/index.js';
+import { t } from '../i18n/index.js';
+
+export interface CacheClearOptions {
+  path: string;
+}
+
+export async function cacheClearCommand(options: CacheClearOptions): Promise<void> {
+  try {
+    const count = await clearScanCache(options.path);
+    console.log(
+      chalk.green(t('cache.cleared', { count, path: path.join(options.path, CACHE_DIR) }))
+    );
+  } catch (error) {
+    console.error(
+      chalk.red(t('cli.error', { message: error instanceof Error ? error.message : String(error) }))
+    );
+    process.exit(1);
+  }
+}
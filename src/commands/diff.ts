@@ -0,0 +1,52 @@
+/**
+ * Diff command implementation
+ */
+
+import chalk from 'chalk';
+import type { DiffFormat } from '../types.js';
+import { DIFF_FORMATS } from '../types.js';
+import { diffReports, loadReport } from '../diff/index.js';
+import { formatDiffJson, formatDiffMarkdown, outputDiffTerminal } from '../output/diff.js';
+import { writeFile } from '../utils/fs.js';
+import { t } from '../i18n/index.js';
+
+export interface DiffOptions {
+  before: string;
+  after: string;
+  output: string;
+  outputFile?: string;
+}
+
+export async function diffCommand(options: DiffOptions): Promise<void> {
+  // Validate output format
+  if (!DIFF_FORMATS.includes(options.output as DiffFormat)) {
+    console.error(
+      chalk.red(t('cli.error', { message: t('cli.invalidOutput', { format: options.output }) }))
+    );
+    console.error(t('diff.validFormats'));
+    process.exit(1);
+  }
+
+  try {
+    const diff = diffReports(await loadReport(options.before), await loadReport(options.after));
+
+    if (options.output === 'terminal') {
+      outputDiffTerminal(diff);
+    } else {
+      const content = options.output === 'json' ? formatDiffJson(diff) : formatDiffMarkdown(diff);
+      if (options.outputFile) {
+        await writeFile(options.outputFile, content);
+      } else {
+        console.log(content);
+      }
+    }
+
+    // Exit non-zero on regressions so CI can gate on it
+    process.exit(diff.regression ? 1 : 0);
+  } catch (error) {
+    console.error(
+      chalk.red(t('cli.error', { message: error instanceof Error ? error.message : String(error) }))
+    );
+    process.exit(1);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * History command implementation
+ */
+
+import chalk from 'chalk';
+import type { HistoryFormat, Level } from '../types.js';
+import { HISTORY_FORMATS, LEVELS } from '../types.js';
+import { parseInterval, scanHistory } from '../history/index.js';
+import { formatHistoryCsv, formatHistoryJson, outputHistoryTerminal } from '../output/history.js';
+import { writeFile } from '../utils/fs.js';
+import { t } from '../i18n/index.js';
+
+export interface HistoryCommandOptions {
+  path: string;
+  profile?: string;
+  level?: string;
+  since?: string;
+  every: string;
+  output: string;
+  outputFile?: string;
+  verbose: boolean;
+  allowPlugins?: boolean;
+}
+
+export async function historyCommand(options: HistoryCommandOptions): Promise<void> {
+  // Validate level if provided
+  if (options.level && !LEVELS.includes(options.level as Level)) {
+    console.error(
+      chalk.red(t('cli.error', { message: t('cli.invalidLevel', { level: options.level }) }))
+    );
+    console.error(t('cli.validLevels'));
+    process.exit(1);
+  }
+
+  // Validate output format
+  if (!HISTORY_FORMATS.includes(options.output as HistoryFormat)) {
+    console.error(
+      chalk.red(t('cli.error', { message: t('cli.invalidOutput', { format: options.output }) }))
+    );
+    console.error(t('history.validFormats'));
+    process.exit(1);
+  }
+
+  try {
+    const points = await scanHistory(
+      {
+        path: options.path,
+        profile: options.profile,
+        level: options.level as Level | undefined,
+        verbose: options.verbose,
+        since: options.since,
+        every: parseInterval(options.every),
+        allowPlugins: options.allowPlugins,
+      },
+      (point, current, total) => {
+        // Progress goes to stderr so CSV/JSON on stdout stays clean
+        console.error(
+          chalk.dim(
+            t('history.scanning', {
+              current,
+              total,
+              sha: point.sha.slice(0, 7),
+              score: point.overall_score,
+            })
+          )
+        );
+      }
+    );
+
+    if (options.output === 'terminal') {
+      outputHistoryTerminal(points);
+      return;
+    }
+
+    const content = options.output === 'csv' ? formatHistoryCsv(points) : formatHistoryJson(points);
+    if (options.outputFile) {
+      await writeFile(options.outputFile, content);
+    } else {
+      console.log(content);
+    }
+  } catch (error) {
+    console.error(
+      chalk.red(t('cli.error', { message: error instanceof Error ? error.message : String(error) }))
+    );
+    process.exit(1);
+  }
+}
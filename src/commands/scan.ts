@@ -4,18 +4,74 @@
 
 import * as path from 'node:path';
 import chalk from 'chalk';
-import type { ScanOptions, Level } from '../types.js';
-import { scan } from '../scanner.js';
+import type {
+  FailOnCondition,
+  FailOnViolation,
+  Level,
+  OutputFormat,
+  ReportDiff,
+  ScanOptions,
+  ScanResult,
+} from '../types.js';
+import { OUTPUT_FORMATS } from '../types.js';
+import { scanWithChecks } from '../scanner.js';
+import { loadRepoConfig } from '../config/index.js';
 import { outputJson } from '../output/json.js';
 import { outputMarkdown } from '../output/markdown.js';
+import { outputSarif } from '../output/sarif.js';
+import { outputJunit } from '../output/junit.js';
+import { outputHtml } from '../output/html.js';
+import {
+  diffReports,
+  evaluateFailOn,
+  loadReport,
+  parseFailOn,
+  parseReport,
+} from '../diff/index.js';
 import { directoryExists } from '../utils/fs.js';
 import { t } from '../i18n/index.js';
 
-export async function scanCommand(options: ScanOptions): Promise<void> {
+// Defaults used when neither a CLI flag nor .agent-ready.yml sets a value
+const DEFAULT_PROFILE = 'factory_compat';
+const DEFAULT_OUTPUT: OutputFormat = 'both';
+
+/**
+ * CLI options before defaults from .agent-ready.yml are applied
+ */
+export interface ScanCommandOptions extends Omit<ScanOptions, 'profile' | 'output' | 'config'> {
+  profile?: string;
+  output?: string;
+  /** Report to compare against; the exit code then reflects --fail-on */
+  baseline?: string;
+  failOn?: string;
+  updateBaseline?: boolean;
+}
+
+// Gate applied when --baseline is given without --fail-on
+const DEFAULT_FAIL_ON: FailOnCondition[] = [{ type: 'regression' }];
+
+export async function scanCommand(cliOptions: ScanCommandOptions): Promise<void> {
   // Validate path exists
-  if (!(await directoryExists(options.path))) {
+  if (!(await directoryExists(cliOptions.path))) {
+    console.error(
+      chalk.red(t('cli.error', { message: t('cli.pathNotFound', { path: cliOptions.path }) }))
+    );
+    process.exit(1);
+  }
+
+  // Load repository config (.agent-ready.yml); CLI flags take precedence
+  let options: ScanOptions;
+  try {
+    const config = await loadRepoConfig(cliOptions.path);
+    options = {
+      ...cliOptions,
+      profile: cliOptions.profile ?? config.profile ?? DEFAULT_PROFILE,
+      output: (cliOptions.output ?? config.output ?? DEFAULT_OUTPUT) as OutputFormat,
+      config,
+    };
+  } catch (error) {
     console.error(
-      chalk.red(t('cli.error', { message: t('cli.pathNotFound', { path: options.path }) }))
+      chalk.red(t('cli.error', { message: error instanceof Error ? error.message : String(error) }))
     );
     process.exit(1);
   }
@@ -30,7 +86,7 @@ export async function scanCommand(options: ScanOptions): Promise<void> {
   }
 
   // Validate output format
-  if (!['json', 'markdown', 'both'].includes(options.output)) {
+  if (!OUTPUT_FORMATS.includes(options.output)) {
     console.error(
       chalk.red(t('cli.error', { message: t('cli.invalidOutput', { format: options.output }) }))
     );
@@ -38,6 +94,25 @@ export async function scanCommand(options: ScanOptions): Promise<void> {
     process.exit(1);
   }
 
+  // Validate baseline gate options
+  let failOn = DEFAULT_FAIL_ON;
+  if ((cliOptions.failOn || cliOptions.updateBaseline) && !cliOptions.baseline) {
+    console.error(chalk.red(t('cli.error', { message: t('cli.baselineRequired') })));
+    process.exit(1);
+  }
+  if (cliOptions.failOn) {
+    try {
+      failOn = parseFailOn(cliOptions.failOn);
+    } catch (error) {
+      console.error(
+        chalk.red(
+          t('cli.error', { message: error instanceof Error ? error.message : String(error) })
+        )
+      );
+      process.exit(1);
+    }
+  }
+
   if (options.verbose) {
     console.log(chalk.dim(t('cli.scanning', { path: options.path })));
     console.log(chalk.dim(t('cli.profile', { profile: options.profile })));
@@ -45,7 +120,7 @@ export async function scanCommand(options: ScanOptions): Promise<void> {
 
   try {
     // Run scan
-    const result = await scan(options);
+    const { result, checks } = await scanWithChecks(options);
 
     // Output results
     if (options.output === 'json' || options.output === 'both') {
@@ -60,7 +135,37 @@ export async function scanCommand(options: ScanOptions): Promise<void> {
       outputMarkdown(result, options.verbose);
     }
 
-    // Exit with appropriate code
+    if (options.output === 'sarif') {
+      // Rule metadata comes from the profile's check definitions the scan ran with
+      const outputPath = options.outputFile || path.join(options.path, 'readiness.sarif');
+      await outputSarif(result, checks, outputPath);
+      if (options.verbose) {
+        console.log(chalk.dim(t('cli.sarifOutput', { path: outputPath })));
+      }
+    }
+
+    if (options.output === 'junit') {
+      const outputPath = options.outputFile || path.join(options.path, 'readiness.xml');
+      await outputJunit(result, outputPath);
+      if (options.verbose) {
+        console.log(chalk.dim(t('cli.junitOutput', { path: outputPath })));
+      }
+    }
+
+    if (options.output === 'html') {
+      const outputPath = options.outputFile || path.join(options.path, 'readiness.html');
+      await outputHtml(result, outputPath);
+      if (options.verbose) {
+        console.log(chalk.dim(t('cli.htmlOutput', { path: outputPath })));
+      }
+    }
+
+    // Gate on the baseline when given, otherwise on reaching any level
+    if (cliOptions.baseline) {
+      process.exit(
+        await checkBaseline(result, cliOptions.baseline, failOn, !!cliOptions.updateBaseline)
+      );
+    }
     process.exit(result.level ? 0 : 1);
   } catch (error) {
     console.error(chalk.red(t('cli.scanFailed')), error instanceof Error ? error.message : error);
@@ -68,6 +173,56 @@ export async function scanCommand(options: ScanOptions): Promise<void> {
   }
 }
 
+/**
+ * Compare a scan with the baseline report (or rewrite it) and return the exit code
+ */
+async function checkBaseline(
+  result: ScanResult,
+  baselinePath: string,
+  failOn: FailOnCondition[],
+  update: boolean
+): Promise<number> {
+  if (update) {
+    await outputJson(result, baselinePath);
+    console.log(chalk.dim(t('cli.baselineUpdated', { path: baselinePath })));
+    return 0;
+  }
+
+  const diff = diffReports(await loadReport(baselinePath), parseReport(result));
+  const violations = evaluateFailOn(diff, failOn);
+
+  if (violations.length === 0) {
+    console.log(chalk.green(t('cli.baselinePassed', { path: baselinePath })));
+    return 0;
+  }
+
+  console.log(chalk.red.bold(t('cli.baselineFailed', { path: baselinePath })));
+  for (const violation of violations) {
+    console.log(chalk.red(`  - ${formatViolation(violation, diff)}`));
+  }
+  return 1;
+}
+
+function formatViolation(violation: FailOnViolation, diff: ReportDiff): string {
+  const checks = violation.checks ?? [];
+  switch (violation.condition.type) {
+    case 'regression':
+      return t('cli.violationRegression', { count: checks.length, checks: checks.join(', ') });
+    case 'new-failures':
+      return t('cli.violationNewFailures', { count: checks.length, checks: checks.join(', ') });
+    case 'level-drop':
+      return t('cli.violationLevelDrop', {
+        before: diff.before.level ?? '-',
+        after: diff.after.level ?? '-',
+      });
+    case 'score-drop':
+      return t('cli.violationScoreDrop', {
+        delta: -diff.score_delta,
+        threshold: violation.condition.threshold,
+      });
+  }
+}
+
 function isValidLevel(level: string): level is Level {
   return ['L1', 'L2', 'L3', 'L4', 'L5'].includes(level);
 }
@@ -0,0 +1,401 @@
+/**
+ * Repository config loader
+ *
+ * Loads .agent-ready.yml from the scan root and applies its check
+ * overrides and waivers to a profile
+ */
+
+import * as path from 'node:path';
+import * as yaml from 'js-yaml';
+import type {
+  AppConfig,
+  CheckConfig,
+  CheckOverride,
+  CheckResult,
+  Level,
+  MonorepoConfig,
+  OutputFormat,
+  ProjectType,
+  RepoConfig,
+  RollupPolicy,
+  ScanFileSystem,
+  WaivedCheckResult,
+  Waiver,
+} from '../types.js';
+import { LEVELS, OUTPUT_FORMATS, PROJECT_TYPES, ROLLUP_POLICIES } from '../types.js';
+import { readFile } from '../utils/fs.js';
+
+// Config file names, in lookup order
+export const CONFIG_FILE_NAMES = ['.agent-ready.yml', '.agent-ready.yaml'];
+
+/**
+ * Create an empty config (used when no config file exists)
+ */
+export function emptyRepoConfig(): RepoConfig {
+  return { disable: [], exclude: [], overrides: {}, waivers: [] };
+}
+
+/**
+ * Discover and load the config file at the repository root
+ *
+ * @param fileSystem - Files to look in; defaults to the directory at rootPath
+ */
+export async function loadRepoConfig(
+  rootPath: string,
+  fileSystem?: ScanFileSystem
+): Promise<RepoConfig> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const configPath = path.join(rootPath, name);
+    const content = fileSystem ? await fileSystem.readFile(name) : await readFile(configPath);
+    if (content !== null) {
+      const config = parseRepoConfig(content, name);
+
+      // Profile paths in the config are relative to the repository root
+      config.profile = resolveProfilePath(rootPath, config.profile);
+      for (const app of Object.values(config.monorepo?.apps ?? {})) {
+        app.profile = resolveProfilePath(rootPath, app.profile);
+      }
+
+      return { ...config, path: configPath };
+    }
+  }
+
+  return emptyRepoConfig();
+}
+
+// Profile names are kept; paths are resolved against the repository root
+function resolveProfilePath(rootPath: string, profile?: string): string | undefined {
+  return profile && /[/\\]|\.ya?ml$/.test(profile) ? path.resolve(rootPath, profile) : profile;
+}
+
+// Raw config type for parsing
+interface RawRepoConfig {
+  profile?: unknown;
+  output?: unknown;
+  disable?: unknown;
+  exclude?: unknown;
+  overrides?: unknown;
+  waivers?: unknown;
+  project_types?: unknown;
+  monorepo?: unknown;
+}
+
+/**
+ * Parse YAML content to RepoConfig
+ * Uses JSON_SCHEMA for security - prevents arbitrary code execution
+ */
+export function parseRepoConfig(content: string, source = '.agent-ready.yml'): RepoConfig {
+  const parsed = yaml.load(content, { schema: yaml.JSON_SCHEMA }) as RawRepoConfig | null;
+
+  // An empty file is a valid (empty) config
+  if (parsed === null || parsed === undefined) {
+    return emptyRepoConfig();
+  }
+
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Invalid config ${source}: not an object`);
+  }
+
+  const config = emptyRepoConfig();
+
+  if (parsed.profile !== undefined) {
+    if (typeof parsed.profile !== 'string') {
+      throw new Error(`Invalid config ${source}: 'profile' must be a string`);
+    }
+    config.profile = parsed.profile;
+  }
+
+  if (parsed.output !== undefined) {
+    if (!OUTPUT_FORMATS.includes(parsed.output as OutputFormat)) {
+      throw new Error(
+        `Invalid config ${source}: 'output' must be one of ${OUTPUT_FORMATS.join(', ')}`
+      );
+    }
+    config.output = parsed.output as OutputFormat;
+  }
+
+  if (parsed.disable !== undefined) {
+    if (!Array.isArray(parsed.disable) || !parsed.disable.every((id) => typeof id === 'string')) {
+      throw new Error(`Invalid config ${source}: 'disable' must be an array of check IDs`);
+    }
+    config.disable = parsed.disable;
+  }
+
+  if (parsed.exclude !== undefined) {
+    if (!Array.isArray(parsed.exclude) || !parsed.exclude.every((p) => typeof p === 'string')) {
+      throw new Error(`Invalid config ${source}: 'exclude' must be an array of path patterns`);
+    }
+    config.exclude = parsed.exclude;
+  }
+
+  if (parsed.overrides !== undefined) {
+    if (
+      typeof parsed.overrides !== 'object' ||
+      parsed.overrides === null ||
+      Array.isArray(parsed.overrides)
+    ) {
+      throw new Error(`Invalid config ${source}: 'overrides' must map check IDs to overrides`);
+    }
+    for (const [id, raw] of Object.entries(parsed.overrides)) {
+      config.overrides[id] = validateOverride(id, raw, source);
+    }
+  }
+
+  if (parsed.waivers !== undefined) {
+    if (!Array.isArray(parsed.waivers)) {
+      throw new Error(`Invalid config ${source}: 'waivers' must be an array`);
+    }
+    config.waivers = parsed.waivers.map((raw, i) => validateWaiver(raw, i, source));
+  }
+
+  if (parsed.project_types !== undefined) {
+    config.project_types = validateProjectTypes(parsed.project_types, 'project_types', source);
+  }
+
+  if (parsed.monorepo !== undefined) {
+    config.monorepo = validateMonorepo(parsed.monorepo, source);
+  }
+
+  return config;
+}
+
+/**
+ * Validate a list of project types to pin
+ */
+function validateProjectTypes(raw: unknown, field: string, source: string): ProjectType[] {
+  const types: ProjectType[] = PROJECT_TYPES.filter((t) => t !== 'unknown');
+  if (
+    !Array.isArray(raw) ||
+    raw.length === 0 ||
+    !raw.every((t) => types.includes(t as ProjectType))
+  ) {
+    throw new Error(
+      `Invalid config ${source}: '${field}' must be a non-empty array of ${types.join(', ')}`
+    );
+  }
+  return [...new Set(raw as ProjectType[])];
+}
+
+/**
+ * Validate the `monorepo` section: rollup policy and per-app settings
+ */
+function validateMonorepo(raw: unknown, source: string): MonorepoConfig {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid config ${source}: 'monorepo' must be an object`);
+  }
+
+  const { rollup = 'root', apps = {} } = raw as Record<string, unknown>;
+  if (!ROLLUP_POLICIES.includes(rollup as RollupPolicy)) {
+    throw new Error(
+      `Invalid config ${source}: 'monorepo.rollup' must be one of ${ROLLUP_POLICIES.join(', ')}`
+    );
+  }
+  if (typeof apps !== 'object' || apps === null || Array.isArray(apps)) {
+    throw new Error(`Invalid config ${source}: 'monorepo.apps' must map app paths to settings`);
+  }
+
+  const monorepo: MonorepoConfig = { rollup: rollup as RollupPolicy, apps: {} };
+  for (const [appPath, app] of Object.entries(apps)) {
+    monorepo.apps[appPath.replace(/^\.\//, '').replace(/\/+$/, '')] = validateAppConfig(
+      appPath,
+      app,
+      source
+    );
+  }
+  return monorepo;
+}
+
+/**
+ * Validate the settings of a single monorepo app
+ */
+function validateAppConfig(appPath: string, raw: unknown, source: string): AppConfig {
+  const where = `app '${appPath}'`;
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid config ${source}: ${where} must be an object`);
+  }
+
+  const entry = raw as Record<string, unknown>;
+  const app: AppConfig = { disable: [], overrides: {}, weight: 1 };
+
+  if (entry.profile !== undefined) {
+    if (typeof entry.profile !== 'string') {
+      throw new Error(`Invalid config ${source}: ${where} 'profile' must be a string`);
+    }
+    app.profile = entry.profile;
+  }
+
+  if (entry.project_types !== undefined) {
+    app.project_types = validateProjectTypes(
+      entry.project_types,
+      `${appPath}.project_types`,
+      source
+    );
+  }
+
+  if (entry.disable !== undefined) {
+    if (!Array.isArray(entry.disable) || !entry.disable.every((id) => typeof id === 'string')) {
+      throw new Error(`Invalid config ${source}: ${where} 'disable' must be an array of check IDs`);
+    }
+    app.disable = entry.disable;
+  }
+
+  if (entry.overrides !== undefined) {
+    if (
+      typeof entry.overrides !== 'object' ||
+      entry.overrides === null ||
+      Array.isArray(entry.overrides)
+    ) {
+      throw new Error(
+        `Invalid config ${source}: ${where} 'overrides' must map check IDs to overrides`
+      );
+    }
+    for (const [id, override] of Object.entries(entry.overrides)) {
+      app.overrides[id] = validateOverride(id, override, source);
+    }
+  }
+
+  if (entry.weight !== undefined) {
+    if (typeof entry.weight !== 'number' || !Number.isFinite(entry.weight) || entry.weight < 0) {
+      throw new Error(`Invalid config ${source}: ${where} 'weight' must be a non-negative number`);
+    }
+    app.weight = entry.weight;
+  }
+
+  return app;
+}
+
+/**
+ * Validate a single check override
+ */
+function validateOverride(id: string, raw: unknown, source: string): CheckOverride {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid config ${source}: override for '${id}' must be an object`);
+  }
+
+  const { level, required, weight } = raw as Record<string, unknown>;
+  const override: CheckOverride = {};
+
+  if (level !== undefined) {
+    if (!LEVELS.includes(level as Level)) {
+      throw new Error(
+        `Invalid config ${source}: override for '${id}' has invalid level '${level}'. Valid levels: ${LEVELS.join(', ')}`
+      );
+    }
+    override.level = level as Level;
+  }
+
+  if (required !== undefined) {
+    if (typeof required !== 'boolean') {
+      throw new Error(`Invalid config ${source}: override for '${id}' 'required' must be boolean`);
+    }
+    override.required = required;
+  }
+
+  if (weight !== undefined) {
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(
+        `Invalid config ${source}: override for '${id}' 'weight' must be a non-negative number`
+      );
+    }
+    override.weight = weight;
+  }
+
+  return override;
+}
+
+/**
+ * Validate a single waiver entry
+ */
+function validateWaiver(raw: unknown, index: number, source: string): Waiver {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid config ${source}: waiver at index ${index} must be an object`);
+  }
+
+  const entry = raw as Record<string, unknown>;
+  for (const field of ['check', 'reason', 'owner', 'expires']) {
+    if (typeof entry[field] !== 'string' || !entry[field]) {
+      throw new Error(
+        `Invalid config ${source}: waiver at index ${index} missing required '${field}'`
+      );
+    }
+  }
+
+  const expires = entry.expires as string;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(expires) || isNaN(Date.parse(`${expires}T00:00:00Z`))) {
+    throw new Error(
+      `Invalid config ${source}: waiver for '${entry.check}' has invalid 'expires' date '${expires}' (expected YYYY-MM-DD)`
+    );
+  }
+
+  return {
+    check: entry.check as string,
+    reason: entry.reason as string,
+    owner: entry.owner as string,
+    expires,
+  };
+}
+
+/**
+ * Apply `disable` and `overrides` (of the repository or a monorepo app) to a
+ * profile's checks
+ */
+export function applyCheckOverrides(
+  checks: CheckConfig[],
+  config: Pick<RepoConfig, 'disable' | 'overrides'>
+): CheckConfig[] {
+  const disabled = new Set(config.disable);
+
+  return checks
+    .filter((check) => !disabled.has(check.id))
+    .map((check) => {
+      const override = config.overrides[check.id];
+      return override ? { ...check, ...override } : check;
+    });
+}
+
+/**
+ * Check whether a waiver has passed its expiry date
+ *
+ * A waiver is valid through the end of its `expires` day (UTC).
+ */
+export function isWaiverExpired(waiver: Waiver, now: Date = new Date()): boolean {
+  const endOfDay = Date.parse(`${waiver.expires}T23:59:59.999Z`);
+  return now.getTime() > endOfDay;
+}
+
+/**
+ * Split check results into scored and waived results
+ *
+ * Results covered by an active waiver are set aside; expired waivers are
+ * ignored so their checks count (and fail) like any other.
+ */
+export function applyWaivers(
+  results: CheckResult[],
+  waivers: Waiver[],
+  now: Date = new Date()
+): { scored: CheckResult[]; waived: WaivedCheckResult[]; expired: Waiver[] } {
+  const active = new Map<string, Waiver>();
+  const expired: Waiver[] = [];
+
+  for (const waiver of waivers) {
+    if (isWaiverExpired(waiver, now)) {
+      expired.push(waiver);
+    } else {
+      active.set(waiver.check, waiver);
+    }
+  }
+
+  const scored: CheckResult[] = [];
+  const waived: WaivedCheckResult[] = [];
+
+  for (const result of results) {
+    const waiver = active.get(result.check_id);
+    if (waiver) {
+      waived.push({ ...result, waiver });
+    } else {
+      scored.push(result);
+    }
+  }
+
+  return { scored, waived, expired };
+}
@@ -0,0 +1,228 @@
+/**
+ * Report diff
+ *
+ * Compares two readiness reports: level change, score deltas and checks
+ * that started failing or passing. Also evaluates `--fail-on` conditions
+ * for scans gated on a baseline report.
+ */
+
+import type {
+  FailOnCondition,
+  FailOnViolation,
+  Level,
+  Pillar,
+  PillarDiff,
+  ReportDiff,
+  ReportSnapshot,
+} from '../types.js';
+import { LEVELS, PILLARS } from '../types.js';
+import { readFile } from '../utils/fs.js';
+
+/**
+ * Load a report file written by `scan` (readiness.json) or `formatJson`
+ */
+export async function loadReport(filePath: string): Promise<ReportSnapshot> {
+  const content = await readFile(filePath);
+  if (content === null) {
+    throw new Error(`Report not found: ${filePath}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid report ${filePath}: ${message}`);
+  }
+
+  return parseReport(raw, filePath);
+}
+
+// Fields shared by the readiness.json shape and a full ScanResult
+interface RawReport {
+  repo?: unknown;
+  commit?: unknown;
+  timestamp?: unknown;
+  profile?: unknown;
+  level?: unknown;
+  overall_score?: unknown;
+  pillars?: Record<string, { level_achieved?: unknown; score?: unknown }>;
+  failed_checks?: { check_id?: unknown }[];
+  passed_checks?: unknown;
+  check_results?: { check_id?: unknown; passed?: unknown }[];
+}
+
+/**
+ * Normalize a parsed report into a snapshot
+ *
+ * Accepts the slim shape written by outputJson as well as a full ScanResult
+ * (which has check_results, so passing checks are known too).
+ */
+export function parseReport(raw: unknown, source = 'report'): ReportSnapshot {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid report ${source}: not an object`);
+  }
+
+  const report = raw as RawReport;
+  if (typeof report.overall_score !== 'number') {
+    throw new Error(`Invalid report ${source}: missing 'overall_score'`);
+  }
+  if (typeof report.pillars !== 'object' || report.pillars === null) {
+    throw new Error(`Invalid report ${source}: missing 'pillars'`);
+  }
+  if (!Array.isArray(report.failed_checks) && !Array.isArray(report.check_results)) {
+    throw new Error(`Invalid report ${source}: missing 'failed_checks'`);
+  }
+
+  const pillars: ReportSnapshot['pillars'] = {};
+  for (const [key, summary] of Object.entries(report.pillars)) {
+    if (!PILLARS.includes(key as Pillar)) continue;
+    pillars[key as Pillar] = {
+      level_achieved: toLevel(summary?.level_achieved),
+      score: typeof summary?.score === 'number' ? summary.score : 0,
+    };
+  }
+
+  const checkIds = (checks: { check_id?: unknown }[]) =>
+    checks.map((c) => c.check_id).filter((id): id is string => typeof id === 'string');
+
+  let failed: string[];
+  let passed: string[] | undefined;
+  if (Array.isArray(report.check_results)) {
+    failed = checkIds(report.check_results.filter((c) => !c.passed));
+    passed = checkIds(report.check_results.filter((c) => c.passed));
+  } else {
+    failed = checkIds(report.failed_checks ?? []);
+    passed = Array.isArray(report.passed_checks)
+      ? report.passed_checks.filter((id): id is string => typeof id === 'string')
+      : undefined;
+  }
+
+  return {
+    repo: optionalString(report.repo),
+    commit: optionalString(report.commit),
+    timestamp: optionalString(report.timestamp),
+    profile: optionalString(report.profile),
+    level: toLevel(report.level),
+    overall_score: report.overall_score,
+    pillars,
+    failed_checks: failed,
+    passed_checks: passed,
+  };
+}
+
+/**
+ * Compare two reports
+ */
+export function diffReports(before: ReportSnapshot, after: ReportSnapshot): ReportDiff {
+  const levelDelta = levelRank(after.level) - levelRank(before.level);
+  const scoreDelta = round(after.overall_score - before.overall_score);
+
+  const pillars: PillarDiff[] = PILLARS.filter(
+    (pillar) => before.pillars[pillar] || after.pillars[pillar]
+  ).map((pillar) => {
+    const b = before.pillars[pillar];
+    const a = after.pillars[pillar];
+    return {
+      pillar,
+      before_level: b?.level_achieved ?? null,
+      after_level: a?.level_achieved ?? null,
+      before_score: b?.score ?? 0,
+      after_score: a?.score ?? 0,
+      score_delta: round((a?.score ?? 0) - (b?.score ?? 0)),
+    };
+  });
+
+  const failedBefore = new Set(before.failed_checks);
+  const failedAfter = new Set(after.failed_checks);
+  const passedAfter = after.passed_checks ? new Set(after.passed_checks) : undefined;
+
+  const newlyFailing = after.failed_checks.filter((id) => !failedBefore.has(id));
+  // Without a list of passing checks, anything no longer failing counts as passing
+  const newlyPassing = before.failed_checks.filter(
+    (id) => !failedAfter.has(id) && (!passedAfter || passedAfter.has(id))
+  );
+
+  return {
+    before,
+    after,
+    level_change: levelDelta > 0 ? 'up' : levelDelta < 0 ? 'down' : 'unchanged',
+    score_delta: scoreDelta,
+    pillars,
+    newly_failing: newlyFailing,
+    newly_passing: newlyPassing,
+    regression: levelDelta < 0 || scoreDelta < 0 || newlyFailing.length > 0,
+  };
+}
+
+/**
+ * Parse a `--fail-on` value: comma-separated conditions
+ * (regression, new-failures, level-drop, score-drop:<n>)
+ */
+export function parseFailOn(value: string): FailOnCondition[] {
+  return value.split(',').map((part) => {
+    const condition = part.trim();
+    if (condition === 'regression' || condition === 'new-failures' || condition === 'level-drop') {
+      return { type: condition };
+    }
+
+    const scoreDrop = /^score-drop:(\d+(?:\.\d+)?)$/.exec(condition);
+    if (scoreDrop) {
+      return { type: 'score-drop', threshold: parseFloat(scoreDrop[1]) };
+    }
+
+    throw new Error(
+      `Invalid fail-on condition '${condition}'. Valid conditions: regression, new-failures, level-drop, score-drop:<n>`
+    );
+  });
+}
+
+/**
+ * Check a baseline diff against fail-on conditions
+ *
+ * @returns The conditions that were met (empty when the gate passes)
+ */
+export function evaluateFailOn(diff: ReportDiff, conditions: FailOnCondition[]): FailOnViolation[] {
+  const violations: FailOnViolation[] = [];
+  const passedBefore = diff.before.passed_checks ? new Set(diff.before.passed_checks) : undefined;
+
+  for (const condition of conditions) {
+    switch (condition.type) {
+      case 'regression': {
+        // Without a list of passing checks, every new failure is a regression
+        const checks = diff.newly_failing.filter((id) => !passedBefore || passedBefore.has(id));
+        if (checks.length > 0) violations.push({ condition, checks });
+        break;
+      }
+      case 'new-failures':
+        if (diff.newly_failing.length > 0) {
+          violations.push({ condition, checks: diff.newly_failing });
+        }
+        break;
+      case 'level-drop':
+        if (diff.level_change === 'down') violations.push({ condition });
+        break;
+      case 'score-drop':
+        if (-diff.score_delta > condition.threshold) violations.push({ condition });
+        break;
+    }
+  }
+
+  return violations;
+}
+
+function levelRank(level: Level | null): number {
+  return level ? LEVELS.indexOf(level) + 1 : 0;
+}
+
+function toLevel(value: unknown): Level | null {
+  return LEVELS.includes(value as Level) ? (value as Level) : null;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
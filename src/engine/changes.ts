@@ -0,0 +1,89 @@
+/**
+ * Changed-files scoping for pull request scans
+ *
+ * With --changed-since the scan still runs every check, then flags the
+ * results a change touched: those whose matched files or target paths (a
+ * check's `path`, `pattern` or the files it reads) include a changed file.
+ */
+
+import * as path from 'node:path';
+import { Minimatch } from 'minimatch';
+import type { CheckConfig, CheckResult } from '../types.js';
+import { isBuiltinCheck } from '../checks/registry.js';
+
+// Where the GitHub workflow checks look
+const WORKFLOW_FILES = '.github/workflows/*.{yml,yaml}';
+
+/**
+ * Paths and globs a check reads, relative to the scan root
+ */
+export function getCheckTargets(check: CheckConfig): string[] {
+  // Plugin checks don't declare what they read
+  if (!isBuiltinCheck(check)) return [];
+
+  switch (check.type) {
+    case 'file_exists':
+    case 'structured_match':
+    case 'markdown_sections':
+      return [check.path];
+    case 'git_freshness':
+      // A file or a directory
+      return [check.path, `${check.path}/**`];
+    case 'path_glob':
+    case 'docs_links':
+      return [check.pattern];
+    case 'build_command_detect':
+      return check.files ?? [];
+    case 'dependency_detect':
+      return check.config_files ?? [];
+    case 'github_workflow_event':
+    case 'github_action_present':
+      return [WORKFLOW_FILES];
+    case 'any_of':
+    case 'all_of':
+    case 'none_of':
+      return check.checks.flatMap(getCheckTargets);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Flag the results whose matched files or target paths include a changed file
+ *
+ * @param changed - Changed files relative to the repository root
+ * @param root - Directory the results are relative to ('.' for the root);
+ *   results satisfied from another layer are relative to that layer
+ */
+export function markTouched(
+  results: CheckResult[],
+  checks: CheckConfig[],
+  changed: string[],
+  root = '.'
+): CheckResult[] {
+  const checksById = new Map(checks.map((check) => [check.id, check]));
+
+  return results.map((result) => {
+    const files = filesUnder(changed, result.layer ?? root);
+    if (files.length === 0) return result;
+
+    const matched = new Set(result.matched_files ?? []);
+    const check = checksById.get(result.check_id);
+    const targets = (check ? getCheckTargets(check) : []).map(
+      (target) => new Minimatch(target, { dot: true })
+    );
+    const touched = files.some(
+      (file) => matched.has(file) || targets.some((target) => target.match(file))
+    );
+    return touched ? { ...result, touched: true } : result;
+  });
+}
+
+/**
+ * Changed files inside a directory, relative to it
+ */
+export function filesUnder(changed: string[], dir: string): string[] {
+  if (dir === '.' || dir === '') return changed;
+  const prefix = `${path.posix.normalize(dir)}/`;
+  return changed.filter((file) => file.startsWith(prefix)).map((file) => file.slice(prefix.length));
+}
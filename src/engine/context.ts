@@ -4,27 +4,69 @@
  * Creates the context object passed to all checks during a scan
  */
 
-import * as path from 'node:path';
-import type { ScanContext, PackageJson } from '../types.js';
-import { readFile, fileExists, directoryExists, findFiles } from '../utils/fs.js';
+import type {
+  ScanContext,
+  ScanFileSystem,
+  PackageJson,
+  GitRefInfo,
+  ProjectType,
+} from '../types.js';
 import { getCommitSha, getRepoName } from '../utils/git.js';
-import { detectProjectType } from './project-type.js';
+import { buildFileIndex, createIndexedFileSystem, createLocalFileSystem } from '../vfs/index.js';
+import { detectProjectType, pinProjectTypes } from './project-type.js';
+import { loadDependencies } from './dependencies.js';
+import { detectWorkspaces } from './workspaces.js';
+
+export interface ScanContextOptions {
+  /** Files to scan; defaults to the directory at rootPath */
+  fs?: ScanFileSystem;
+  /** Git ref the files were read from */
+  git_ref?: GitRefInfo;
+  /** Paths to leave out of the file index, in .gitignore syntax */
+  exclude?: string[];
+  /** Project types to use instead of detecting them */
+  project_types?: ProjectType[];
+}
 
 /**
  * Build scan context for a repository
  */
-export async function buildScanContext(rootPath: string): Promise<ScanContext> {
+export async function buildScanContext(
+  rootPath: string,
+  options: ScanContextOptions = {}
+): Promise<ScanContext> {
   const repoName = getRepoName(rootPath);
-  const commitSha = getCommitSha(rootPath);
+  const source = options.fs ?? createLocalFileSystem(rootPath);
+
+  // Walk the files once; all queries during the scan are answered from the index
+  const index = await buildFileIndex(source, { exclude: options.exclude });
+  const fileSystem = createIndexedFileSystem(
+    index.files,
+    (file) => source.readFile(file),
+    index.directories
+  );
+
+  // Files not read from the working copy don't belong to its HEAD commit
+  const commitSha = options.git_ref
+    ? options.git_ref.sha
+    : options.fs
+      ? 'unknown'
+      : getCommitSha(rootPath);
 
   // Load package.json if it exists
-  const packageJson = await loadPackageJson(rootPath);
+  const packageJson = await loadPackageJson(fileSystem);
+
+  // Dependencies of every ecosystem, for dependency and framework checks
+  const dependencies = await loadDependencies(fileSystem, packageJson);
 
-  // Detect monorepo
-  const { isMonorepo, apps } = await detectMonorepo(rootPath, packageJson);
+  // Detect monorepo packages from workspace configs
+  const workspaces = await detectWorkspaces(fileSystem, packageJson);
 
   // Detect project type for intelligent check filtering
-  const projectType = await detectProjectType(rootPath, packageJson);
+  const detected = await detectProjectType(fileSystem, packageJson, dependencies, workspaces);
+  const projectType = options.project_types?.length
+    ? pinProjectTypes(detected, options.project_types)
+    : detected;
 
   return {
     root_path: rootPath,
@@ -33,18 +75,21 @@ export async function buildScanContext(rootPath: string): Promise<ScanContext> {
     file_cache: new Map(),
     glob_cache: new Map(),
     package_json: packageJson,
-    is_monorepo: isMonorepo,
-    monorepo_apps: apps,
+    dependencies,
+    is_monorepo: workspaces.isMonorepo,
+    monorepo_apps: workspaces.apps,
     project_type: projectType,
+    fs: fileSystem,
+    file_index: index.stats,
+    git_ref: options.git_ref,
   };
 }
 
 /**
  * Load and parse package.json
  */
-async function loadPackageJson(rootPath: string): Promise<PackageJson | undefined> {
-  const packageJsonPath = path.join(rootPath, 'package.json');
-  const content = await readFile(packageJsonPath);
+async function loadPackageJson(fileSystem: ScanFileSystem): Promise<PackageJson | undefined> {
+  const content = await fileSystem.readFile('package.json');
 
   if (!content) return undefined;
 
@@ -54,72 +99,3 @@ async function loadPackageJson(rootPath: string): Promise<PackageJson | undefine
     return undefined;
   }
 }
-
-/**
- * Detect if repo is a monorepo and find app directories
- */
-async function detectMonorepo(
-  rootPath: string,
-  packageJson?: PackageJson
-): Promise<{ isMonorepo: boolean; apps: string[] }> {
-  const apps: string[] = [];
-
-  // Check for yarn/npm workspaces
-  if (packageJson?.workspaces) {
-    const workspaces = Array.isArray(packageJson.workspaces)
-      ? packageJson.workspaces
-      : packageJson.workspaces.packages || [];
-
-    for (const pattern of workspaces) {
-      const matches = await findFiles(pattern, rootPath);
-      // Get directory names from matched package.json files
-      for (const match of matches) {
-        const dir = path.dirname(match);
-        const relDir = path.relative(rootPath, dir);
-        if (relDir && relDir !== '.') {
-          apps.push(relDir);
-        }
-      }
-    }
-
-    if (apps.length > 0) {
-      return { isMonorepo: true, apps };
-    }
-  }
-
-  // Check for common monorepo patterns
-  const monorepoMarkers = ['lerna.json', 'pnpm-workspace.yaml', 'rush.json', 'nx.json'];
-
-  for (const marker of monorepoMarkers) {
-    if (await fileExists(path.join(rootPath, marker))) {
-      // Try to find apps/packages directories
-      const commonDirs = ['apps', 'packages', 'libs', 'services'];
-      for (const dir of commonDirs) {
-        const dirPath = path.join(rootPath, dir);
-        if (await directoryExists(dirPath)) {
-          const subDirs = await findFiles(`${dir}/*/package.json`, rootPath);
-          for (const subDir of subDirs) {
-            const relDir = path.relative(rootPath, path.dirname(subDir));
-            apps.push(relDir);
-          }
-        }
-      }
-      return { isMonorepo: true, apps };
-    }
-  }
-
-  // Check for apps/ or packages/ directories even without markers
-  const commonDirs = ['apps', 'packages'];
-  for (const dir of commonDirs) {
-    const subPackages = await findFiles(`${dir}/*/package.json`, rootPath);
-    if (subPackages.length >= 2) {
-      for (const subPackage of subPackages) {
-        const relDir = path.relative(rootPath, path.dirname(subPackage));
-        apps.push(relDir);
-      }
-      return { isMonorepo: true, apps };
-    }
-  }
-
-  return { isMonorepo: false, apps: [] };
-}
@@ -0,0 +1,403 @@
+/**
+ * Dependency manifest parsing
+ *
+ * Reads the dependency manifests of npm, Python, Go, Rust, Ruby, JVM and PHP
+ * projects into one normalized list, so checks can look for packages without
+ * knowing each ecosystem's file format.
+ */
+
+import type {
+  Dependency,
+  DependencyEcosystem,
+  PackageJson,
+  ScanContext,
+  ScanFileSystem,
+} from '../types.js';
+import { parseToml } from '../utils/toml.js';
+
+/**
+ * Manifests dependencies are read from: root manifests, plus Maven and
+ * Gradle modules one directory down
+ */
+export const DEPENDENCY_MANIFESTS =
+  '{package.json,requirements*.txt,pyproject.toml,Pipfile,go.mod,Cargo.toml,Gemfile,composer.json,pom.xml,*/pom.xml,build.gradle,build.gradle.kts,*/build.gradle,*/build.gradle.kts}';
+
+type ManifestParser = (content: string, source: string) => Dependency[];
+
+// Parser for each manifest file name; requirements*.txt is matched separately
+const PARSERS: Record<string, ManifestParser> = {
+  'pyproject.toml': parsePyproject,
+  Pipfile: parsePipfile,
+  'go.mod': parseGoMod,
+  'Cargo.toml': parseCargoToml,
+  Gemfile: parseGemfile,
+  'composer.json': parseComposerJson,
+  'pom.xml': parsePomXml,
+  'build.gradle': parseGradle,
+  'build.gradle.kts': parseGradle,
+};
+
+// Python dependency groups that are not needed at runtime
+const PYTHON_DEV_GROUP = /^(dev|test|tests|testing|lint|docs?|typing|type|check)$/i;
+
+/**
+ * Read every dependency manifest in a repository
+ *
+ * package.json is taken from `packageJson` (already parsed for the scan
+ * context). Manifests that fail to parse contribute no dependencies.
+ */
+export async function loadDependencies(
+  fileSystem: ScanFileSystem,
+  packageJson?: PackageJson
+): Promise<Dependency[]> {
+  const dependencies = packageJson ? parsePackageJson(packageJson, 'package.json') : [];
+
+  for (const source of await fileSystem.glob(DEPENDENCY_MANIFESTS)) {
+    const name = source.split('/').pop()!;
+    const parser = /^requirements.*\.txt$/.test(name) ? parseRequirementsTxt : PARSERS[name];
+    if (!parser) continue;
+
+    const content = await fileSystem.readFile(source);
+    if (content === null) continue;
+    try {
+      dependencies.push(...parser(content, source));
+    } catch {
+      // Invalid manifests are reported by the tools that own them
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Dependencies of a scan context, read from its manifests when the context
+ * was built by hand without them
+ */
+export async function getContextDependencies(context: ScanContext): Promise<Dependency[]> {
+  return context.dependencies ?? loadDependencies(context.fs, context.package_json);
+}
+
+/**
+ * Dependencies matching a package name
+ *
+ * Names compare case-insensitively. Python names also treat '-', '_' and '.'
+ * alike; Go modules match their sub-paths; Maven coordinates match by
+ * 'group:artifact', artifact or group (including sub-groups).
+ */
+export function findDependencies(dependencies: Dependency[], name: string): Dependency[] {
+  const wanted = name.toLowerCase();
+  return dependencies.filter((dep) => matchesDependency(dep, wanted));
+}
+
+function matchesDependency(dep: Dependency, wanted: string): boolean {
+  const name = dep.name.toLowerCase();
+  if (name === wanted) return true;
+
+  switch (dep.ecosystem) {
+    case 'pypi':
+      return normalizePythonName(name) === normalizePythonName(wanted);
+    case 'go':
+      return name.startsWith(`${wanted}/`);
+    case 'maven': {
+      const [group, artifact] = name.split(':');
+      return artifact === wanted || group === wanted || group.startsWith(`${wanted}.`);
+    }
+    default:
+      return false;
+  }
+}
+
+// PEP 503 name normalization
+function normalizePythonName(name: string): string {
+  return name.replace(/[-_.]+/g, '-');
+}
+
+function dependency(
+  ecosystem: DependencyEcosystem,
+  source: string,
+  name: string,
+  version: unknown,
+  dev: boolean
+): Dependency {
+  return {
+    name,
+    ecosystem,
+    ...(typeof version === 'string' && version !== '' && { version }),
+    dev,
+    source,
+  };
+}
+
+function parsePackageJson(packageJson: PackageJson, source: string): Dependency[] {
+  const groups: Array<[Record<string, string> | undefined, boolean]> = [
+    [packageJson.dependencies, false],
+    [packageJson.optionalDependencies, false],
+    [packageJson.peerDependencies, false],
+    [packageJson.devDependencies, true],
+  ];
+  return groups.flatMap(([deps, dev]) =>
+    Object.entries(deps ?? {}).map(([name, version]) =>
+      dependency('npm', source, name, version, dev)
+    )
+  );
+}
+
+/**
+ * Parse a PEP 508 requirement such as `requests[socks]>=2.0; python_version < "3.8"`
+ */
+function parsePep508(requirement: string): { name: string; version?: string } | null {
+  const match = /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*([^;@]*)/.exec(requirement);
+  if (!match) return null;
+  const version = match[2].trim().replace(/^\((.*)\)$/, '$1');
+  return { name: match[1], ...(version && { version }) };
+}
+
+function parseRequirementsTxt(content: string, source: string): Dependency[] {
+  const dev = /(dev|test|lint|doc)/i.test(source.split('/').pop()!);
+  const dependencies: Dependency[] = [];
+
+  for (const rawLine of content.replace(/\\\r?\n/g, ' ').split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) continue;
+
+    // Editable or URL installs name the package with #egg=
+    const egg = /#egg=([A-Za-z0-9._-]+)/.exec(rawLine);
+    if (egg) {
+      dependencies.push(dependency('pypi', source, egg[1], undefined, dev));
+      continue;
+    }
+    // Options such as -r other.txt, -c constraints.txt, --index-url
+    if (line.startsWith('-')) continue;
+
+    const requirement = parsePep508(line);
+    if (requirement) {
+      dependencies.push(dependency('pypi', source, requirement.name, requirement.version, dev));
+    }
+  }
+
+  return dependencies;
+}
+
+function parsePyproject(content: string, source: string): Dependency[] {
+  const doc = parseToml(content);
+  const dependencies: Dependency[] = [];
+  const addRequirements = (requirements: unknown, dev: boolean) => {
+    if (!Array.isArray(requirements)) return;
+    for (const item of requirements) {
+      const requirement = typeof item === 'string' ? parsePep508(item) : null;
+      if (requirement) {
+        dependencies.push(dependency('pypi', source, requirement.name, requirement.version, dev));
+      }
+    }
+  };
+
+  // PEP 621
+  const project = asTable(doc.project);
+  addRequirements(project.dependencies, false);
+  for (const [group, requirements] of Object.entries(asTable(project['optional-dependencies']))) {
+    addRequirements(requirements, PYTHON_DEV_GROUP.test(group));
+  }
+  // PEP 735 dependency groups are development-only
+  for (const requirements of Object.values(asTable(doc['dependency-groups']))) {
+    addRequirements(requirements, true);
+  }
+
+  // Poetry
+  const poetry = asTable(asTable(doc.tool).poetry);
+  const addPoetry = (table: unknown, dev: boolean) => {
+    for (const [name, spec] of Object.entries(asTable(table))) {
+      if (name.toLowerCase() === 'python') continue;
+      dependencies.push(dependency('pypi', source, name, versionOf(spec), dev));
+    }
+  };
+  addPoetry(poetry.dependencies, false);
+  addPoetry(poetry['dev-dependencies'], true);
+  for (const [group, table] of Object.entries(asTable(poetry.group))) {
+    addPoetry(asTable(table).dependencies, group !== 'main');
+  }
+
+  return dependencies;
+}
+
+function parsePipfile(content: string, source: string): Dependency[] {
+  const doc = parseToml(content);
+  return [
+    ...Object.entries(asTable(doc.packages)).map(([name, spec]) =>
+      dependency('pypi', source, name, versionOf(spec), false)
+    ),
+    ...Object.entries(asTable(doc['dev-packages'])).map(([name, spec]) =>
+      dependency('pypi', source, name, versionOf(spec), true)
+    ),
+  ];
+}
+
+function parseGoMod(content: string, source: string): Dependency[] {
+  const dependencies: Dependency[] = [];
+  let inRequireBlock = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (inRequireBlock) {
+      if (line === ')') {
+        inRequireBlock = false;
+        continue;
+      }
+      const [name, version] = line.split(/\s+/);
+      if (name) dependencies.push(dependency('go', source, name, version, false));
+      continue;
+    }
+
+    if (/^require\s*\($/.test(line)) {
+      inRequireBlock = true;
+      continue;
+    }
+    const single = /^require\s+(\S+)\s+(\S+)/.exec(line);
+    if (single) dependencies.push(dependency('go', source, single[1], single[2], false));
+  }
+
+  return dependencies;
+}
+
+function parseCargoToml(content: string, source: string): Dependency[] {
+  const doc = parseToml(content);
+  const dependencies: Dependency[] = [];
+  const addTables = (table: Record<string, unknown>) => {
+    const sections: Array<[string, boolean]> = [
+      ['dependencies', false],
+      ['build-dependencies', false],
+      ['dev-dependencies', true],
+    ];
+    for (const [section, dev] of sections) {
+      for (const [key, spec] of Object.entries(asTable(table[section]))) {
+        // `foo = { package = "real-name" }` renames a crate
+        const renamed = asTable(spec).package;
+        const name = typeof renamed === 'string' ? renamed : key;
+        dependencies.push(dependency('cargo', source, name, versionOf(spec), dev));
+      }
+    }
+  };
+
+  addTables(doc);
+  addTables(asTable(doc.workspace));
+  for (const target of Object.values(asTable(doc.target))) {
+    addTables(asTable(target));
+  }
+
+  return dependencies;
+}
+
+function parseGemfile(content: string, source: string): Dependency[] {
+  const dependencies: Dependency[] = [];
+  // Groups of the enclosing `group ... do` blocks; null for other blocks
+  const blocks: Array<string[] | null> = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+
+    const group = /^group\s+(.+?)\s+do\b/.exec(line);
+    if (group) {
+      blocks.push([...group[1].matchAll(/:(\w+)|["'](\w+)["']/g)].map((m) => m[1] ?? m[2]));
+      continue;
+    }
+    if (/\bdo(\s*\|[^|]*\|)?$/.test(line) || /^(if|unless|case|begin|while)\b/.test(line)) {
+      blocks.push(null);
+      continue;
+    }
+    if (line === 'end') {
+      blocks.pop();
+      continue;
+    }
+
+    const gem = /^gem\s*\(?\s*["']([^"']+)["'](?:\s*,\s*["']([^"']+)["'])?(.*)$/.exec(line);
+    if (!gem) continue;
+    const inline = /group:\s*(?:\[([^\]]*)\]|:(\w+))/.exec(gem[3]);
+    const groups = [
+      ...blocks.flatMap((b) => b ?? []),
+      ...(inline ? (inline[2] ?? inline[1]).split(/[\s,:]+/).filter(Boolean) : []),
+    ];
+    const dev = groups.length > 0 && groups.every((g) => /^(development|test)$/.test(g));
+    dependencies.push(dependency('rubygems', source, gem[1], gem[2], dev));
+  }
+
+  return dependencies;
+}
+
+function parseComposerJson(content: string, source: string): Dependency[] {
+  const doc = JSON.parse(content) as Record<string, unknown>;
+  const platform = (name: string) => name === 'php' || /^(ext|lib)-/.test(name);
+  return [
+    ...Object.entries(asTable(doc.require)).map(([name, version]) =>
+      platform(name) ? null : dependency('composer', source, name, version, false)
+    ),
+    ...Object.entries(asTable(doc['require-dev'])).map(([name, version]) =>
+      platform(name) ? null : dependency('composer', source, name, version, true)
+    ),
+  ].filter((dep): dep is Dependency => dep !== null);
+}
+
+function parsePomXml(content: string, source: string): Dependency[] {
+  const xml = content.replace(/<!--[\s\S]*?-->/g, '');
+  const tag = (block: string, name: string) =>
+    new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`).exec(block)?.[1];
+
+  const dependencies: Dependency[] = [];
+  for (const [, block] of xml.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)) {
+    const group = tag(block, 'groupId');
+    const artifact = tag(block, 'artifactId');
+    if (!group || !artifact) continue;
+    const scope = tag(block, 'scope');
+    dependencies.push(
+      dependency('maven', source, `${group}:${artifact}`, tag(block, 'version'), scope === 'test')
+    );
+  }
+  return dependencies;
+}
+
+// Gradle configurations that declare dependencies
+const GRADLE_DECLARATION =
+  /^\s*(implementation|api|compile|compileOnly|runtimeOnly|runtime|testImplementation|testCompileOnly|testRuntimeOnly|testCompile|androidTestImplementation|annotationProcessor|kapt|ksp)\b(.*)$/;
+
+function parseGradle(content: string, source: string): Dependency[] {
+  const dependencies: Dependency[] = [];
+
+  for (const line of content.replace(/\/\*[\s\S]*?\*\//g, '').split(/\r?\n/)) {
+    const declaration = GRADLE_DECLARATION.exec(line.replace(/\/\/.*$/, ''));
+    if (!declaration) continue;
+    const dev = /^(test|androidTest)/.test(declaration[1]);
+    const rest = declaration[2];
+
+    // 'group:name:version' (also inside platform(...) or with a classifier)
+    const coordinates = /["']([^"':\s]+):([^"':\s]+)(?::([^"'\s]+))?["']/.exec(rest);
+    if (coordinates) {
+      const version = coordinates[3]?.split(':')[0];
+      dependencies.push(
+        dependency('maven', source, `${coordinates[1]}:${coordinates[2]}`, version, dev)
+      );
+      continue;
+    }
+
+    // group: 'g', name: 'n', version: 'v' (Groovy) or group = "g", ... (Kotlin)
+    const part = (key: string) =>
+      new RegExp(`\\b${key}\\s*[:=]\\s*["']([^"']+)["']`).exec(rest)?.[1];
+    const group = part('group');
+    const name = part('name');
+    if (group && name) {
+      dependencies.push(dependency('maven', source, `${group}:${name}`, part('version'), dev));
+    }
+  }
+
+  return dependencies;
+}
+
+function asTable(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+// Version of a TOML dependency: "1.0" or { version = "1.0", ... }
+function versionOf(spec: unknown): string | undefined {
+  if (typeof spec === 'string') return spec;
+  const version = asTable(spec).version;
+  return typeof version === 'string' ? version : undefined;
+}
@@ -3,10 +3,15 @@
  */
 
 export { buildScanContext } from './context.js';
+export { loadDependencies, findDependencies, DEPENDENCY_MANIFESTS } from './dependencies.js';
+export { detectWorkspaces } from './workspaces.js';
+export { getCheckTargets, markTouched } from './changes.js';
 export {
   calculateLevelSummaries,
   determineAchievedLevel,
   calculateProgressToNext,
   calculatePillarSummaries,
   calculateOverallScore,
+  calculateScoreContributions,
+  rollupLevels,
 } from './level-gate.js';
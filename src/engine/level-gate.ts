@@ -9,9 +9,19 @@
  *
  * Factory.ai spec: "To unlock a level, you must pass 80% of criteria from
  * that level and all previous levels"
+ *
+ * All ratios are weighted by each check's `weight` (default 1.0), so a
+ * profile without weights is scored exactly as a plain pass count.
  */
 
-import type { Level, CheckResult, LevelSummary, PillarSummary, Pillar } from '../types.js';
+import type {
+  Level,
+  CheckResult,
+  LevelSummary,
+  PillarSummary,
+  Pillar,
+  RollupPolicy,
+} from '../types.js';
 import { PASSING_THRESHOLD, LEVELS, PILLARS, PILLAR_NAMES } from '../types.js';
 
 /**
@@ -25,18 +35,20 @@ export function calculateLevelSummaries(results: CheckResult[]): Record<Level, L
 
     const totalCount = levelResults.length;
     const passedCount = levelResults.filter((r) => r.passed).length;
+    const weightTotal = sumWeights(levelResults);
+    const weightPassed = sumWeights(levelResults.filter((r) => r.passed));
 
     // Get required check results for this level
     const requiredResults = levelResults.filter((r) => r.required);
     const requiredPassed = requiredResults.filter((r) => r.passed).length;
     const requiredTotal = requiredResults.length;
 
-    const score = totalCount > 0 ? Math.round((passedCount / totalCount) * 100) : 0;
+    const score = weightTotal > 0 ? Math.round((weightPassed / weightTotal) * 100) : 0;
 
     // Note: 'achieved' here is a per-level summary stat
     // The actual gating logic (Factory 80% rule on PREVIOUS level) is in determineAchievedLevel
     const allRequiredPass = requiredPassed === requiredTotal;
-    const meetsThreshold = totalCount === 0 || passedCount / totalCount >= PASSING_THRESHOLD;
+    const meetsThreshold = weightTotal === 0 || weightPassed / weightTotal >= PASSING_THRESHOLD;
     const achieved = allRequiredPass && meetsThreshold;
 
     summaries[level] = {
@@ -45,6 +57,8 @@ export function calculateLevelSummaries(results: CheckResult[]): Record<Level, L
       score,
       checks_passed: passedCount,
       checks_total: totalCount,
+      weight_passed: weightPassed,
+      weight_total: weightTotal,
       required_passed: requiredPassed,
       required_total: requiredTotal,
     };
@@ -88,8 +102,8 @@ export function determineAchievedLevel(levelSummaries: Record<Level, LevelSummar
     // Check 1: All required checks at THIS level must pass
     const allRequiredPass = summary.required_passed === summary.required_total;
 
-    // Check 2: Factory 80% rule - 80% of THIS level must pass
-    const thisLevelScore = summary.checks_passed / summary.checks_total;
+    // Check 2: Factory 80% rule - 80% of THIS level (by weight) must pass
+    const thisLevelScore = levelPassRatio(summary);
     const meetsThreshold = thisLevelScore >= PASSING_THRESHOLD;
 
     // Level is achieved if both conditions are met
@@ -124,7 +138,7 @@ export function calculateProgressToNext(
     return 1.0; // No checks for next level
   }
 
-  return nextSummary.checks_passed / nextSummary.checks_total;
+  return levelPassRatio(nextSummary);
 }
 
 /**
@@ -138,8 +152,10 @@ export function calculatePillarSummaries(results: CheckResult[]): Record<Pillar,
     const totalCount = pillarResults.length;
     const passedCount = pillarResults.filter((r) => r.passed).length;
     const failedChecks = pillarResults.filter((r) => !r.passed).map((r) => r.check_id);
+    const weightTotal = sumWeights(pillarResults);
+    const weightPassed = sumWeights(pillarResults.filter((r) => r.passed));
 
-    const score = totalCount > 0 ? Math.round((passedCount / totalCount) * 100) : 100;
+    const score = weightTotal > 0 ? Math.round((weightPassed / weightTotal) * 100) : 100;
 
     // Determine highest achieved level for this pillar
     const pillarLevelAchieved = determinePillarLevel(pillarResults);
@@ -151,6 +167,8 @@ export function calculatePillarSummaries(results: CheckResult[]): Record<Pillar,
       score,
       checks_passed: passedCount,
       checks_total: totalCount,
+      weight_passed: weightPassed,
+      weight_total: weightTotal,
       failed_checks: failedChecks,
     };
   }
@@ -193,11 +211,12 @@ function determinePillarLevel(results: CheckResult[]): Level | null {
     const requiredPassed = requiredResults.filter((r) => r.passed).length;
     const allRequiredPass = requiredPassed === requiredResults.length;
 
-    // Check 2: Factory 80% rule - 80% of PREVIOUS level must pass
+    // Check 2: Factory 80% rule - 80% of PREVIOUS level (by weight) must pass
     let prevLevelGatePasses = true;
-    if (prevResults.length > 0) {
-      const prevPassed = prevResults.filter((r) => r.passed).length;
-      prevLevelGatePasses = prevPassed / prevResults.length >= PASSING_THRESHOLD;
+    const prevWeight = sumWeights(prevResults);
+    if (prevWeight > 0) {
+      const prevPassed = sumWeights(prevResults.filter((r) => r.passed));
+      prevLevelGatePasses = prevPassed / prevWeight >= PASSING_THRESHOLD;
     }
 
     if (allRequiredPass && prevLevelGatePasses) {
@@ -211,11 +230,128 @@ function determinePillarLevel(results: CheckResult[]): Level | null {
 }
 
 /**
- * Calculate overall score (0-100)
+ * Calculate overall score (0-100), weighted by check weight
  */
 export function calculateOverallScore(results: CheckResult[]): number {
-  if (results.length === 0) return 0;
+  const total = sumWeights(results);
+  if (total === 0) return 0;
+
+  const passed = sumWeights(results.filter((r) => r.passed));
+  return Math.round((passed / total) * 100);
+}
+
+/**
+ * Attach each check's weight and its share of the overall score
+ *
+ * score_contribution is the number of overall_score points the check is
+ * worth, whether or not it passed, so failing checks show what fixing them
+ * would gain.
+ */
+export function calculateScoreContributions(results: CheckResult[]): CheckResult[] {
+  const total = sumWeights(results);
+
+  return results.map((r) => {
+    const weight = getWeight(r);
+    const contribution = total > 0 ? (weight / total) * 100 : 0;
+    return {
+      ...r,
+      weight,
+      score_contribution: Math.round(contribution * 100) / 100,
+    };
+  });
+}
+
+/**
+ * Weight of a single check result (defaults to 1.0)
+ */
+function getWeight(result: CheckResult): number {
+  return result.weight ?? 1;
+}
+
+/**
+ * Sum the weights of a set of check results
+ */
+function sumWeights(results: CheckResult[]): number {
+  return results.reduce((sum, r) => sum + getWeight(r), 0);
+}
+
+/**
+ * Weighted pass ratio for a level summary
+ *
+ * Falls back to plain check counts for summaries that predate weighting.
+ */
+function levelPassRatio(summary: LevelSummary): number {
+  const total = summary.weight_total ?? summary.checks_total;
+  const passed = summary.weight_passed ?? summary.checks_passed;
+  return total > 0 ? passed / total : 1;
+}
+
+/**
+ * A level, score and progress to roll up, with its weight in the 'average' policy
+ */
+export interface RollupInput {
+  level: Level | null;
+  score: number;
+  progress_to_next: number;
+  weight: number;
+}
+
+/**
+ * Combine the root's and the apps' levels into a monorepo headline
+ *
+ * - root: the root's level, score and progress alone
+ * - min: the lowest level and score of the root and any app
+ * - average: weighted means; the level is rounded down, so the monorepo
+ *   only reaches a level its members reach on average
+ *
+ * Levels count as numbers (no level is 0) when averaged. Progress is toward
+ * the level after the headline one: members already there count as done,
+ * members one level below with their own progress, others as not started.
+ * It is the lowest of the members' under 'min' and their weighted mean
+ * under 'average'.
+ */
+export function rollupLevels(
+  policy: RollupPolicy,
+  root: RollupInput,
+  apps: RollupInput[]
+): { level: Level | null; score: number; progress_to_next: number } {
+  const rootOnly = {
+    level: root.level,
+    score: root.score,
+    progress_to_next: root.progress_to_next,
+  };
+  if (policy === 'root' || apps.length === 0) {
+    return rootOnly;
+  }
 
-  const passed = results.filter((r) => r.passed).length;
-  return Math.round((passed / results.length) * 100);
+  const members = [root, ...apps];
+  const rank = (level: Level | null) => (level ? parseInt(level.substring(1), 10) : 0);
+  const toLevel = (value: number) => (value >= 1 ? (`L${Math.min(value, 5)}` as Level) : null);
+  const progressTo = (member: RollupInput, target: number) => {
+    if (target > LEVELS.length || rank(member.level) >= target) return 1;
+    return rank(member.level) === target - 1 ? member.progress_to_next : 0;
+  };
+
+  if (policy === 'min') {
+    const level = Math.min(...members.map((m) => rank(m.level)));
+    return {
+      level: toLevel(level),
+      score: Math.min(...members.map((m) => m.score)),
+      progress_to_next: Math.min(...members.map((m) => progressTo(m, level + 1))),
+    };
+  }
+
+  const totalWeight = members.reduce((sum, m) => sum + m.weight, 0);
+  if (totalWeight === 0) {
+    return rootOnly;
+  }
+  const mean = (value: (m: RollupInput) => number) =>
+    members.reduce((sum, m) => sum + value(m) * m.weight, 0) / totalWeight;
+
+  const level = Math.floor(mean((m) => rank(m.level)) + 1e-9);
+  return {
+    level: toLevel(level),
+    score: Math.round(mean((m) => m.score)),
+    progress_to_next: mean((m) => progressTo(m, level + 1)),
+  };
 }
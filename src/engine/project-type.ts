@@ -4,245 +4,474 @@
  * Detects project type to enable intelligent check filtering.
  * This is the core of the "production control layer" concept:
  * checks should be relevant to what the project actually is.
+ *
+ * Detection reads package.json as well as the manifests and entry points of
+ * other ecosystems (Python, Go, Rust, JVM, Ruby, PHP), so a Go CLI or a
+ * FastAPI service is classified as reliably as a Node.js package.
  */
 
-import * as path from 'node:path';
-import type { PackageJson } from '../types.js';
-import { fileExists, readFile, findFiles } from '../utils/fs.js';
-
-/**
- * Project types that determine which checks are applicable
- */
-export type ProjectType = 'cli' | 'web-service' | 'library' | 'webapp' | 'monorepo' | 'unknown';
+import type {
+  Dependency,
+  LanguageShare,
+  PackageJson,
+  ProjectType,
+  ProjectTypeInfo,
+  ProjectTypeMatch,
+  ScanFileSystem,
+} from '../types.js';
+import { parseToml } from '../utils/toml.js';
+import { findDependencies, loadDependencies } from './dependencies.js';
+import { detectWorkspaces, type WorkspaceInfo } from './workspaces.js';
+
+export type { ProjectType, ProjectTypeInfo, ProjectTypeMatch };
+
+interface FrameworkSignature {
+  name: string;
+  kind: 'server' | 'frontend' | 'cli';
+  /** Package names, compared with findDependencies */
+  packages: string[];
+}
 
-/**
- * Extended project metadata for richer context
- */
-export interface ProjectTypeInfo {
-  type: ProjectType;
-  confidence: 'high' | 'medium' | 'low';
-  indicators: string[];
+interface DetectedFramework extends FrameworkSignature {
+  /** Manifest declaring the framework */
+  source: string;
 }
 
+// Frameworks recognized in dependencies, grouped by what they make a project
+const FRAMEWORKS: FrameworkSignature[] = [
+  // Node.js servers
+  { name: 'Express', kind: 'server', packages: ['express'] },
+  { name: 'Fastify', kind: 'server', packages: ['fastify'] },
+  { name: 'Koa', kind: 'server', packages: ['koa'] },
+  { name: 'hapi', kind: 'server', packages: ['hapi', '@hapi/hapi'] },
+  { name: 'NestJS', kind: 'server', packages: ['nestjs', '@nestjs/core'] },
+  // Python servers
+  { name: 'FastAPI', kind: 'server', packages: ['fastapi'] },
+  { name: 'Django', kind: 'server', packages: ['django'] },
+  { name: 'Flask', kind: 'server', packages: ['flask'] },
+  { name: 'Starlette', kind: 'server', packages: ['starlette'] },
+  { name: 'aiohttp', kind: 'server', packages: ['aiohttp'] },
+  { name: 'Tornado', kind: 'server', packages: ['tornado'] },
+  { name: 'Sanic', kind: 'server', packages: ['sanic'] },
+  // Go servers
+  { name: 'Gin', kind: 'server', packages: ['github.com/gin-gonic/gin'] },
+  { name: 'Echo', kind: 'server', packages: ['github.com/labstack/echo'] },
+  { name: 'chi', kind: 'server', packages: ['github.com/go-chi/chi'] },
+  { name: 'Fiber', kind: 'server', packages: ['github.com/gofiber/fiber'] },
+  { name: 'Gorilla mux', kind: 'server', packages: ['github.com/gorilla/mux'] },
+  // Rust servers
+  { name: 'axum', kind: 'server', packages: ['axum'] },
+  { name: 'Actix Web', kind: 'server', packages: ['actix-web'] },
+  { name: 'Rocket', kind: 'server', packages: ['rocket'] },
+  { name: 'warp', kind: 'server', packages: ['warp'] },
+  // JVM servers
+  { name: 'Spring Boot', kind: 'server', packages: ['org.springframework.boot'] },
+  { name: 'Quarkus', kind: 'server', packages: ['io.quarkus'] },
+  { name: 'Micronaut', kind: 'server', packages: ['io.micronaut'] },
+  { name: 'Ktor', kind: 'server', packages: ['io.ktor'] },
+  { name: 'Javalin', kind: 'server', packages: ['io.javalin'] },
+  // Ruby and PHP servers
+  { name: 'Rails', kind: 'server', packages: ['rails'] },
+  { name: 'Sinatra', kind: 'server', packages: ['sinatra'] },
+  { name: 'Laravel', kind: 'server', packages: ['laravel/framework'] },
+  { name: 'Symfony', kind: 'server', packages: ['symfony/framework-bundle'] },
+  // Frontend
+  { name: 'React', kind: 'frontend', packages: ['react'] },
+  { name: 'Vue', kind: 'frontend', packages: ['vue'] },
+  { name: 'Angular', kind: 'frontend', packages: ['@angular/core'] },
+  { name: 'Svelte', kind: 'frontend', packages: ['svelte'] },
+  { name: 'Next.js', kind: 'frontend', packages: ['next'] },
+  { name: 'Nuxt', kind: 'frontend', packages: ['nuxt'] },
+  { name: 'Remix', kind: 'frontend', packages: ['@remix-run/react'] },
+  { name: 'Gatsby', kind: 'frontend', packages: ['gatsby'] },
+  { name: 'Astro', kind: 'frontend', packages: ['astro'] },
+  { name: 'SolidJS', kind: 'frontend', packages: ['solid-js'] },
+  { name: 'Qwik', kind: 'frontend', packages: ['qwik'] },
+  // Command-line frameworks
+  { name: 'Click', kind: 'cli', packages: ['click'] },
+  { name: 'Typer', kind: 'cli', packages: ['typer'] },
+  { name: 'Cobra', kind: 'cli', packages: ['github.com/spf13/cobra'] },
+  { name: 'urfave/cli', kind: 'cli', packages: ['github.com/urfave/cli'] },
+  { name: 'clap', kind: 'cli', packages: ['clap'] },
+  { name: 'picocli', kind: 'cli', packages: ['info.picocli'] },
+  { name: 'Thor', kind: 'cli', packages: ['thor'] },
+];
+
+// Source file extensions counted in the language breakdown
+const LANGUAGE_EXTENSIONS = new Map<string, string>(
+  Object.entries({
+    ts: 'TypeScript',
+    tsx: 'TypeScript',
+    mts: 'TypeScript',
+    cts: 'TypeScript',
+    js: 'JavaScript',
+    jsx: 'JavaScript',
+    mjs: 'JavaScript',
+    cjs: 'JavaScript',
+    py: 'Python',
+    pyi: 'Python',
+    go: 'Go',
+    rs: 'Rust',
+    java: 'Java',
+    kt: 'Kotlin',
+    kts: 'Kotlin',
+    scala: 'Scala',
+    groovy: 'Groovy',
+    rb: 'Ruby',
+    php: 'PHP',
+    cs: 'C#',
+    fs: 'F#',
+    c: 'C',
+    h: 'C',
+    cc: 'C++',
+    cpp: 'C++',
+    cxx: 'C++',
+    hpp: 'C++',
+    hh: 'C++',
+    swift: 'Swift',
+    m: 'Objective-C',
+    mm: 'Objective-C',
+    dart: 'Dart',
+    ex: 'Elixir',
+    exs: 'Elixir',
+    erl: 'Erlang',
+    hs: 'Haskell',
+    clj: 'Clojure',
+    lua: 'Lua',
+    jl: 'Julia',
+    zig: 'Zig',
+    vue: 'Vue',
+    svelte: 'Svelte',
+    sh: 'Shell',
+    bash: 'Shell',
+    zsh: 'Shell',
+  })
+);
+
+// Confidence levels, weakest first
+const CONFIDENCE_RANK: Record<ProjectTypeMatch['confidence'], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+// Go sources searched for an HTTP server; enough to find one in most services
+const MAX_GO_SOURCES = 200;
+
 /**
- * Detect project type from repository contents
+ * Detect project types from repository contents
  *
- * Detection priority:
+ * A repository can be several things at once (a library that ships a CLI, a
+ * web service bundling its webapp), so every type with evidence is listed in
+ * `types`. The primary type (`type`, `confidence`, `indicators`) is the most
+ * confident one; types detected with equal confidence follow priority order:
  * 1. CLI - has bin field in package.json
- * 2. Monorepo - has workspaces or monorepo markers
- * 3. Web Service - has Docker/K8s or server frameworks
- * 4. Webapp - has React/Vue/Angular/Next.js
- * 5. Library - has main/module exports, no bin
- * 6. Unknown - cannot determine
+ * 2. Monorepo - has workspace configs of any package manager or build tool
+ * 3. Web Service - uses a server framework (any ecosystem) or Go net/http
+ * 4. CLI - console scripts, Go main packages, Rust binaries, CLI frameworks
+ * 5. Web Service - has Docker/K8s/Helm configs and no CLI entry point
+ * 6. Webapp - has React/Vue/Angular/Next.js
+ * 7. Library - package.json exports, Python/Rust/Go/JVM/Ruby packages
+ * 8. Unknown - cannot determine
+ *
+ * Further types are only listed when detected with at least medium
+ * confidence, so a service's package.json `main` field alone does not make
+ * it a library too.
+ *
+ * @param dependencies Dependencies of every ecosystem; read from the
+ *   manifests when not given
+ * @param workspaces Monorepo workspaces; detected when not given
  */
 export async function detectProjectType(
-  rootPath: string,
-  packageJson?: PackageJson
+  fileSystem: ScanFileSystem,
+  packageJson?: PackageJson,
+  dependencies?: Dependency[],
+  workspaces?: WorkspaceInfo
 ): Promise<ProjectTypeInfo> {
-  const indicators: string[] = [];
-
-  // Check for CLI project (highest priority)
-  if (packageJson?.bin) {
-    indicators.push('package.json has bin field');
-    return {
-      type: 'cli',
-      confidence: 'high',
-      indicators,
-    };
-  }
+  const frameworks = detectFrameworks(
+    ownDependencies(dependencies ?? (await loadDependencies(fileSystem, packageJson)), packageJson)
+  );
+  const [primary, ...others] = await detectTypes(
+    fileSystem,
+    packageJson,
+    frameworks,
+    workspaces ?? (await detectWorkspaces(fileSystem, packageJson))
+  );
+  const types = primary
+    ? [primary, ...others.filter((match) => match.confidence !== 'low')]
+    : [
+        {
+          type: 'unknown' as const,
+          confidence: 'low' as const,
+          indicators: ['Could not determine project type'],
+        },
+      ];
 
-  // Check for monorepo (takes precedence over individual project types)
-  const monorepoResult = await detectMonorepoType(rootPath, packageJson);
-  if (monorepoResult) {
-    return monorepoResult;
-  }
-
-  // Check for web service (Docker, K8s, server frameworks)
-  const webServiceResult = await detectWebService(rootPath, packageJson);
-  if (webServiceResult) {
-    return webServiceResult;
-  }
+  return {
+    ...types[0],
+    types,
+    languages: await countLanguages(fileSystem),
+    frameworks: frameworks.map((f) => f.name),
+  };
+}
 
-  // Check for webapp (frontend frameworks)
-  const webappResult = await detectWebapp(rootPath, packageJson);
-  if (webappResult) {
-    return webappResult;
-  }
+/**
+ * Replace detected types with the ones pinned by `project_types` in
+ * .agent-ready.yml; languages and frameworks are kept
+ */
+export function pinProjectTypes(info: ProjectTypeInfo, pinned: ProjectType[]): ProjectTypeInfo {
+  const types: ProjectTypeMatch[] = pinned.map((type) => ({
+    type,
+    confidence: 'high',
+    indicators: ['Pinned by project_types in .agent-ready.yml'],
+  }));
+  return { ...info, ...types[0], types, pinned: true };
+}
 
-  // Check for library
-  const libraryResult = detectLibrary(packageJson);
-  if (libraryResult) {
-    return libraryResult;
-  }
+/**
+ * Every detected type, most confident first, ties in priority order
+ *
+ * The first becomes the primary type, so a dependency on a CLI framework
+ * alone (low confidence) does not outrank a medium-confidence library.
+ */
+async function detectTypes(
+  fileSystem: ScanFileSystem,
+  packageJson: PackageJson | undefined,
+  frameworks: DetectedFramework[],
+  workspaces: WorkspaceInfo
+): Promise<ProjectTypeMatch[]> {
+  const cli = await detectCli(fileSystem, packageJson, frameworks);
+  const monorepo = detectMonorepoType(workspaces);
+  const webService = await detectWebService(fileSystem, frameworks, cli !== null);
+  const webapp = await detectWebapp(fileSystem, frameworks);
+  const library = mergeMatches(detectLibrary(packageJson), await detectPackage(fileSystem));
+
+  // A bin field outranks everything; entry points of other ecosystems only
+  // yield to monorepos and server frameworks
+  const ordered = packageJson?.bin
+    ? [cli, monorepo, webService, webapp, library]
+    : [monorepo, webService, cli, webapp, library];
+  return ordered
+    .filter((match): match is ProjectTypeMatch => match !== null)
+    .sort((a, b) => CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence]);
+}
 
-  // Fallback to unknown
+/**
+ * Combine two detections of the same type
+ */
+function mergeMatches(
+  a: ProjectTypeMatch | null,
+  b: ProjectTypeMatch | null
+): ProjectTypeMatch | null {
+  if (!a || !b) return a ?? b;
   return {
-    type: 'unknown',
-    confidence: 'low',
-    indicators: ['Could not determine project type'],
+    type: a.type,
+    confidence:
+      CONFIDENCE_RANK[a.confidence] >= CONFIDENCE_RANK[b.confidence] ? a.confidence : b.confidence,
+    indicators: [...a.indicators, ...b.indicators],
   };
 }
 
 /**
- * Detect monorepo patterns
+ * Dependencies that describe the project itself
+ *
+ * npm peer and optional dependencies name what a package works with (a React
+ * component library peers on react), so only dependencies and
+ * devDependencies count, as they always have.
  */
-async function detectMonorepoType(
-  rootPath: string,
-  packageJson?: PackageJson
-): Promise<ProjectTypeInfo | null> {
-  const indicators: string[] = [];
+function ownDependencies(dependencies: Dependency[], packageJson?: PackageJson): Dependency[] {
+  const npm = new Set(
+    Object.keys({ ...packageJson?.dependencies, ...packageJson?.devDependencies })
+  );
+  return dependencies.filter((dep) => dep.ecosystem !== 'npm' || npm.has(dep.name));
+}
 
-  // Check for workspaces
-  if (packageJson?.workspaces) {
-    indicators.push('package.json has workspaces');
-    return {
-      type: 'monorepo',
-      confidence: 'high',
-      indicators,
-    };
+/**
+ * Frameworks found in dependencies, in FRAMEWORKS order
+ */
+function detectFrameworks(dependencies: Dependency[]): DetectedFramework[] {
+  const found: DetectedFramework[] = [];
+  for (const framework of FRAMEWORKS) {
+    for (const pkg of framework.packages) {
+      const [dep] = findDependencies(dependencies, pkg);
+      if (dep) {
+        found.push({ ...framework, source: dep.source });
+        break;
+      }
+    }
   }
+  return found;
+}
 
-  // Check for monorepo markers
-  const monorepoMarkers = [
-    { file: 'lerna.json', name: 'Lerna' },
-    { file: 'pnpm-workspace.yaml', name: 'pnpm workspace' },
-    { file: 'rush.json', name: 'Rush' },
-    { file: 'nx.json', name: 'Nx' },
-    { file: 'turbo.json', name: 'Turborepo' },
-  ];
-
-  for (const marker of monorepoMarkers) {
-    if (await fileExists(path.join(rootPath, marker.file))) {
-      indicators.push(`Found ${marker.name} config (${marker.file})`);
-      return {
-        type: 'monorepo',
-        confidence: 'high',
-        indicators,
-      };
-    }
+/**
+ * Count source files per language by extension
+ */
+async function countLanguages(fileSystem: ScanFileSystem): Promise<LanguageShare[]> {
+  const counts = new Map<string, number>();
+  for (const file of await fileSystem.glob('**/*')) {
+    const dot = file.lastIndexOf('.');
+    const language =
+      dot > file.lastIndexOf('/')
+        ? LANGUAGE_EXTENSIONS.get(file.slice(dot + 1).toLowerCase())
+        : undefined;
+    if (language) counts.set(language, (counts.get(language) ?? 0) + 1);
   }
 
-  return null;
+  const total = [...counts.values()].reduce((sum, n) => sum + n, 0);
+  return [...counts.entries()]
+    .map(([language, files]) => ({
+      language,
+      files,
+      percent: Math.round((files / total) * 100),
+    }))
+    .sort((a, b) => b.files - a.files || a.language.localeCompare(b.language));
 }
 
 /**
- * Detect web service patterns (Docker, K8s, server frameworks)
+ * Detect monorepos from their workspace configs
  */
-async function detectWebService(
-  rootPath: string,
-  packageJson?: PackageJson
-): Promise<ProjectTypeInfo | null> {
+function detectMonorepoType(workspaces: WorkspaceInfo): ProjectTypeMatch | null {
+  if (!workspaces.isMonorepo) return null;
+
+  return {
+    type: 'monorepo',
+    confidence: workspaces.guessed ? 'medium' : 'high',
+    indicators: workspaces.indicators,
+  };
+}
+
+/**
+ * Detect deployment configs (Docker, K8s, Helm)
+ */
+async function detectDeploymentConfigs(fileSystem: ScanFileSystem): Promise<string[]> {
   const indicators: string[] = [];
 
   // Check for Docker
-  if (await fileExists(path.join(rootPath, 'Dockerfile'))) {
+  if (await fileSystem.exists('Dockerfile')) {
     indicators.push('Found Dockerfile');
   }
 
   // Check for docker-compose
   const composeFiles = ['docker-compose.yml', 'docker-compose.yaml', 'compose.yml', 'compose.yaml'];
   for (const composeFile of composeFiles) {
-    if (await fileExists(path.join(rootPath, composeFile))) {
+    if (await fileSystem.exists(composeFile)) {
       indicators.push(`Found ${composeFile}`);
       break;
     }
   }
 
   // Check for Kubernetes
-  const k8sPatterns = await findFiles('**/k8s/**/*.{yml,yaml}', rootPath);
+  const k8sPatterns = await fileSystem.glob('**/k8s/**/*.{yml,yaml}');
   if (k8sPatterns.length > 0) {
     indicators.push('Found Kubernetes configs');
   }
 
   // Check for Helm
-  if (await fileExists(path.join(rootPath, 'Chart.yaml'))) {
+  if (await fileSystem.exists('Chart.yaml')) {
     indicators.push('Found Helm Chart.yaml');
   }
 
-  // Check for server frameworks in dependencies
-  const serverFrameworks = [
-    'express',
-    'fastify',
-    'koa',
-    'hapi',
-    'nestjs',
-    '@nestjs/core',
-    'fastapi',
-    'flask',
-    'django',
-    'gin-gonic',
-    'echo',
-    'actix-web',
-    'rocket',
-    'axum',
-  ];
+  return indicators;
+}
 
-  const deps = {
-    ...packageJson?.dependencies,
-    ...packageJson?.devDependencies,
+/**
+ * Detect web services by their server framework or Go net/http server, or by
+ * deployment configs alone when the project has no CLI entry point
+ */
+async function detectWebService(
+  fileSystem: ScanFileSystem,
+  frameworks: DetectedFramework[],
+  hasCli: boolean
+): Promise<ProjectTypeMatch | null> {
+  const deployment = await detectDeploymentConfigs(fileSystem);
+  const indicators = frameworks
+    .filter((f) => f.kind === 'server')
+    .map((f) => `Found server framework: ${f.name} (${f.source})`);
+
+  const goServer = await findGoHttpServer(fileSystem);
+  if (goServer) {
+    indicators.push(`Found net/http server in ${goServer}`);
+  }
+
+  // A containerized CLI is still a CLI
+  if (indicators.length === 0 && (hasCli || deployment.length === 0)) return null;
+
+  return {
+    type: 'web-service',
+    confidence: indicators.length + deployment.length >= 2 ? 'high' : 'medium',
+    indicators: [...deployment, ...indicators],
   };
+}
 
-  for (const framework of serverFrameworks) {
-    if (deps[framework]) {
-      indicators.push(`Found server framework: ${framework}`);
-      break;
+/**
+ * Detect command-line entry points of any ecosystem
+ */
+async function detectCli(
+  fileSystem: ScanFileSystem,
+  packageJson: PackageJson | undefined,
+  frameworks: DetectedFramework[]
+): Promise<ProjectTypeMatch | null> {
+  const indicators: string[] = [];
+
+  if (packageJson?.bin) {
+    indicators.push('package.json has bin field');
+  }
+
+  // Python console scripts
+  const pyproject = await readToml(fileSystem, 'pyproject.toml');
+  const project = asTable(pyproject?.project);
+  const poetry = asTable(asTable(pyproject?.tool).poetry);
+  if (Object.keys({ ...asTable(project.scripts), ...asTable(poetry.scripts) }).length > 0) {
+    indicators.push('pyproject.toml declares console scripts');
+  }
+  for (const file of ['setup.cfg', 'setup.py']) {
+    if ((await fileSystem.readFile(file))?.includes('console_scripts')) {
+      indicators.push(`${file} declares console_scripts entry points`);
     }
   }
 
-  // If we have strong indicators, it's a web service
-  if (indicators.length >= 2) {
-    return {
-      type: 'web-service',
-      confidence: 'high',
-      indicators,
-    };
+  // Go main packages
+  for (const file of await findGoMainPackages(fileSystem)) {
+    indicators.push(`Found Go main package: ${file}`);
   }
 
-  if (indicators.length === 1) {
-    return {
-      type: 'web-service',
-      confidence: 'medium',
-      indicators,
-    };
+  // Rust binary targets
+  const cargo = await readToml(fileSystem, 'Cargo.toml');
+  if (Array.isArray(cargo?.bin) && cargo.bin.length > 0) {
+    indicators.push('Cargo.toml declares [[bin]] targets');
+  } else if (cargo && (await fileSystem.exists('src/main.rs'))) {
+    indicators.push('Found Rust binary crate (src/main.rs)');
   }
 
-  return null;
+  const entryPoints = indicators.length;
+  for (const framework of frameworks.filter((f) => f.kind === 'cli')) {
+    indicators.push(`Found CLI framework: ${framework.name} (${framework.source})`);
+  }
+
+  if (indicators.length === 0) return null;
+
+  return {
+    type: 'cli',
+    confidence:
+      packageJson?.bin || (entryPoints > 0 && indicators.length >= 2)
+        ? 'high'
+        : entryPoints > 0
+          ? 'medium'
+          : 'low',
+    indicators,
+  };
 }
 
 /**
  * Detect webapp patterns (frontend frameworks)
  */
 async function detectWebapp(
-  rootPath: string,
-  packageJson?: PackageJson
-): Promise<ProjectTypeInfo | null> {
-  const indicators: string[] = [];
-
-  const deps = {
-    ...packageJson?.dependencies,
-    ...packageJson?.devDependencies,
-  };
-
-  // Frontend frameworks
-  const frontendFrameworks = [
-    { pkg: 'react', name: 'React' },
-    { pkg: 'vue', name: 'Vue' },
-    { pkg: '@angular/core', name: 'Angular' },
-    { pkg: 'svelte', name: 'Svelte' },
-    { pkg: 'next', name: 'Next.js' },
-    { pkg: 'nuxt', name: 'Nuxt' },
-    { pkg: '@remix-run/react', name: 'Remix' },
-    { pkg: 'gatsby', name: 'Gatsby' },
-    { pkg: 'astro', name: 'Astro' },
-    { pkg: 'solid-js', name: 'SolidJS' },
-    { pkg: 'qwik', name: 'Qwik' },
-  ];
-
-  for (const framework of frontendFrameworks) {
-    if (deps[framework.pkg]) {
-      indicators.push(`Found frontend framework: ${framework.name}`);
-    }
-  }
+  fileSystem: ScanFileSystem,
+  frameworks: DetectedFramework[]
+): Promise<ProjectTypeMatch | null> {
+  const indicators = frameworks
+    .filter((f) => f.kind === 'frontend')
+    .map((f) => `Found frontend framework: ${f.name}`);
 
   // Check for frontend config files
   const frontendConfigs = [
@@ -258,7 +487,7 @@ async function detectWebapp(
   ];
 
   for (const config of frontendConfigs) {
-    if (await fileExists(path.join(rootPath, config.file))) {
+    if (await fileSystem.exists(config.file)) {
       indicators.push(`Found ${config.name} config`);
       break;
     }
@@ -278,7 +507,7 @@ async function detectWebapp(
 /**
  * Detect library patterns
  */
-function detectLibrary(packageJson?: PackageJson): ProjectTypeInfo | null {
+function detectLibrary(packageJson?: PackageJson): ProjectTypeMatch | null {
   if (!packageJson) return null;
 
   const indicators: string[] = [];
@@ -313,8 +542,8 @@ function detectLibrary(packageJson?: PackageJson): ProjectTypeInfo | null {
     indicators.push('package.json has files field');
   }
 
-  // If we have library indicators but no bin, it's likely a library
-  if (indicators.length >= 2 && !pkg.bin) {
+  // A bin field no longer rules it out: packages often ship a CLI too
+  if (indicators.length >= 2) {
     return {
       type: 'library',
       confidence: 'medium',
@@ -322,7 +551,7 @@ function detectLibrary(packageJson?: PackageJson): ProjectTypeInfo | null {
     };
   }
 
-  if (indicators.length >= 1 && !pkg.bin) {
+  if (indicators.length >= 1) {
     return {
       type: 'library',
       confidence: 'low',
@@ -333,6 +562,109 @@ function detectLibrary(packageJson?: PackageJson): ProjectTypeInfo | null {
   return null;
 }
 
+/**
+ * Detect packages of other ecosystems
+ *
+ * Cargo library targets, gemspecs and the Gradle java-library plugin are
+ * explicit; a pyproject.toml or a Go module without main packages only
+ * suggests a library.
+ */
+async function detectPackage(fileSystem: ScanFileSystem): Promise<ProjectTypeMatch | null> {
+  const indicators: string[] = [];
+  let explicit = false;
+
+  const pyproject = await readToml(fileSystem, 'pyproject.toml');
+  if (pyproject?.project || asTable(pyproject?.tool).poetry) {
+    indicators.push('pyproject.toml declares a Python package');
+  } else if (await fileSystem.exists('setup.py')) {
+    indicators.push('Found setup.py');
+  }
+
+  if ((await fileSystem.exists('go.mod')) && (await findGoMainPackages(fileSystem)).length === 0) {
+    indicators.push('go.mod without main packages');
+  }
+
+  const cargo = await readToml(fileSystem, 'Cargo.toml');
+  if (cargo?.lib) {
+    indicators.push('Cargo.toml declares a [lib] target');
+    explicit = true;
+  } else if (cargo && (await fileSystem.exists('src/lib.rs'))) {
+    indicators.push('Found Rust library crate (src/lib.rs)');
+    explicit = true;
+  }
+
+  for (const file of ['build.gradle', 'build.gradle.kts']) {
+    if ((await fileSystem.readFile(file))?.includes('java-library')) {
+      indicators.push(`${file} applies the java-library plugin`);
+      explicit = true;
+    }
+  }
+
+  if ((await fileSystem.glob('*.gemspec')).length > 0) {
+    indicators.push('Found Ruby gemspec');
+    explicit = true;
+  }
+
+  if (indicators.length === 0) return null;
+
+  return {
+    type: 'library',
+    confidence: explicit || indicators.length >= 2 ? 'medium' : 'low',
+    indicators,
+  };
+}
+
+/**
+ * Go files declaring `package main`: cmd/<name>/main.go and the root main.go
+ */
+async function findGoMainPackages(fileSystem: ScanFileSystem): Promise<string[]> {
+  if (!(await fileSystem.exists('go.mod'))) return [];
+
+  const candidates = await fileSystem.glob('{main.go,cmd/*/main.go}');
+  const mains: string[] = [];
+  for (const file of candidates.sort()) {
+    if (/^package\s+main\b/m.test((await fileSystem.readFile(file)) ?? '')) {
+      mains.push(file);
+    }
+  }
+  return mains;
+}
+
+/**
+ * First Go source starting a net/http server, or null
+ */
+async function findGoHttpServer(fileSystem: ScanFileSystem): Promise<string | null> {
+  if (!(await fileSystem.exists('go.mod'))) return null;
+
+  const sources = (await fileSystem.glob('**/*.go')).filter((f) => !f.endsWith('_test.go'));
+  for (const file of sources.sort().slice(0, MAX_GO_SOURCES)) {
+    const content = (await fileSystem.readFile(file)) ?? '';
+    if (/\bhttp\.(ListenAndServe(TLS)?\(|Server\s*\{)/.test(content)) {
+      return file;
+    }
+  }
+  return null;
+}
+
+async function readToml(
+  fileSystem: ScanFileSystem,
+  file: string
+): Promise<Record<string, unknown> | null> {
+  const content = await fileSystem.readFile(file);
+  if (content === null) return null;
+  try {
+    return parseToml(content);
+  } catch {
+    return null;
+  }
+}
+
+function asTable(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
 /**
  * Get human-readable description of project type
  */
@@ -352,16 +684,18 @@ export function getProjectTypeDescription(type: ProjectType): string {
  * Check if a project type matches the applicableTo filter
  *
  * An empty or undefined applicableTo means "applies to all project types".
- * No special sentinel values are treated as wildcards.
+ * No special sentinel values are treated as wildcards. With several project
+ * types, the check applies when any of them is listed.
  */
 export function isApplicableToProjectType(
   applicableTo: ProjectType[] | undefined,
-  projectType: ProjectType
+  projectType: ProjectType | ProjectType[]
 ): boolean {
   // If no applicableTo specified, check applies to all
   if (!applicableTo || applicableTo.length === 0) {
     return true;
   }
 
-  return applicableTo.includes(projectType);
+  const types = Array.isArray(projectType) ? projectType : [projectType];
+  return types.some((type) => applicableTo.includes(type));
 }
@@ -0,0 +1,211 @@
+/**
+ * Monorepo workspace detection
+ *
+ * Reads the workspace definitions of package managers and build tools (npm
+ * and Yarn workspaces, pnpm, Lerna, Rush, Nx, Turborepo, Cargo and Go) to
+ * list the packages of a monorepo, whatever their language.
+ */
+
+import * as path from 'node:path';
+import * as yaml from 'js-yaml';
+import { Minimatch } from 'minimatch';
+import type { PackageJson, ScanFileSystem } from '../types.js';
+import { parseJsonc } from '../utils/jsonc.js';
+import { parseToml } from '../utils/toml.js';
+
+export interface WorkspaceInfo {
+  isMonorepo: boolean;
+  /** Package directories relative to the root, sorted */
+  apps: string[];
+  /** Workspace configs found, e.g. "Found pnpm workspace config (pnpm-workspace.yaml)" */
+  indicators: string[];
+  /** No workspace config; packages were found under apps/ or packages/ */
+  guessed: boolean;
+}
+
+/**
+ * Detect if a repository is a monorepo and list its packages
+ *
+ * Every workspace config found contributes its packages. Repositories
+ * without one still count as monorepos when apps/ or packages/ holds at
+ * least two package.json packages.
+ */
+export async function detectWorkspaces(
+  fileSystem: ScanFileSystem,
+  packageJson?: PackageJson
+): Promise<WorkspaceInfo> {
+  const apps = new Set<string>();
+  const indicators: string[] = [];
+  const add = (dirs: string[]) => dirs.forEach((dir) => apps.add(dir));
+
+  // npm and Yarn workspaces (also used by Turborepo, Nx and Lerna's useWorkspaces)
+  if (packageJson?.workspaces) {
+    const patterns = Array.isArray(packageJson.workspaces)
+      ? packageJson.workspaces
+      : (packageJson.workspaces.packages ?? []);
+    indicators.push('package.json has workspaces');
+    add(await expandPackageGlobs(fileSystem, patterns, 'package.json'));
+  }
+
+  const pnpm = await readConfig(fileSystem, 'pnpm-workspace.yaml', parseYaml);
+  if (pnpm) {
+    indicators.push('Found pnpm workspace config (pnpm-workspace.yaml)');
+    add(await expandPackageGlobs(fileSystem, stringArray(pnpm.packages), 'package.json'));
+  }
+
+  const lerna = await readConfig(fileSystem, 'lerna.json', parseJsonc);
+  if (lerna) {
+    indicators.push('Found Lerna config (lerna.json)');
+    const patterns = Array.isArray(lerna.packages) ? stringArray(lerna.packages) : ['packages/*'];
+    add(await expandPackageGlobs(fileSystem, patterns, 'package.json'));
+  }
+
+  const rush = await readConfig(fileSystem, 'rush.json', parseJsonc);
+  if (rush) {
+    indicators.push('Found Rush config (rush.json)');
+    const projects = Array.isArray(rush.projects) ? rush.projects : [];
+    for (const project of projects) {
+      const folder = cleanPattern(String(asObject(project).projectFolder ?? ''));
+      if (folder && (await fileSystem.isDirectory(folder))) apps.add(folder);
+    }
+  }
+
+  if (await fileSystem.exists('nx.json')) {
+    indicators.push('Found Nx config (nx.json)');
+    const projects = await fileSystem.glob('**/project.json');
+    add(projects.map((file) => path.posix.dirname(file)).filter((dir) => dir !== '.'));
+  }
+
+  // Turborepo runs the package manager's workspaces listed above
+  if (await fileSystem.exists('turbo.json')) {
+    indicators.push('Found Turborepo config (turbo.json)');
+  }
+
+  const cargo = await readConfig(fileSystem, 'Cargo.toml', parseToml);
+  const cargoWorkspace = asObject(cargo?.workspace);
+  const members = await expandPackageGlobs(
+    fileSystem,
+    [
+      ...stringArray(cargoWorkspace.members),
+      ...stringArray(cargoWorkspace.exclude).map((p) => `!${p}`),
+    ],
+    'Cargo.toml'
+  );
+  if (members.length > 0) {
+    indicators.push('Found Cargo workspace (Cargo.toml)');
+    add(members);
+  }
+
+  const goWork = await fileSystem.readFile('go.work');
+  if (goWork !== null) {
+    const modules: string[] = [];
+    for (const dir of parseGoWorkUses(goWork)) {
+      if (await fileSystem.exists(`${dir}/go.mod`)) modules.push(dir);
+    }
+    if (modules.length > 0) {
+      indicators.push('Found Go workspace (go.work)');
+      add(modules);
+    }
+  }
+
+  // Without workspace config, two or more packages under apps/ or packages/
+  const guessed = indicators.length === 0;
+  if (guessed) {
+    for (const dir of ['apps', 'packages']) {
+      const packages = await fileSystem.glob(`${dir}/*/package.json`);
+      if (packages.length >= 2) {
+        indicators.push(`Found ${packages.length} packages under ${dir}/`);
+        add(packages.map((file) => path.posix.dirname(file)));
+        break;
+      }
+    }
+  }
+
+  return {
+    isMonorepo: indicators.length > 0,
+    apps: [...apps].sort(),
+    indicators,
+    guessed,
+  };
+}
+
+/**
+ * Directories matching workspace globs that contain a manifest
+ *
+ * Patterns starting with '!' exclude directories, as in pnpm-workspace.yaml.
+ * The repository root is never a workspace package.
+ */
+async function expandPackageGlobs(
+  fileSystem: ScanFileSystem,
+  patterns: string[],
+  manifest: string
+): Promise<string[]> {
+  const excluded = patterns
+    .filter((p) => p.startsWith('!'))
+    .map((p) => new Minimatch(cleanPattern(p.slice(1)), { dot: true }));
+
+  const dirs = new Set<string>();
+  for (const pattern of patterns.filter((p) => !p.startsWith('!'))) {
+    const dir = cleanPattern(pattern);
+    if (!dir) continue;
+    for (const file of await fileSystem.glob(`${dir}/${manifest}`)) {
+      dirs.add(path.posix.dirname(file));
+    }
+  }
+
+  return [...dirs].filter((dir) => !excluded.some((m) => m.match(dir)));
+}
+
+/**
+ * Module directories of go.work `use` directives
+ */
+function parseGoWorkUses(content: string): string[] {
+  const dirs: string[] = [];
+  const source = content.replace(/\/\/.*$/gm, '');
+  const block = /^\s*use\s*\(([^)]*)\)/gm;
+  const single = /^\s*use\s+([^\s(]+)\s*$/gm;
+
+  for (const match of source.matchAll(block)) {
+    dirs.push(...match[1].split(/\s+/).filter(Boolean));
+  }
+  for (const match of source.matchAll(single)) {
+    dirs.push(match[1]);
+  }
+
+  return dirs.map((dir) => cleanPattern(dir.replace(/^"|"$/g, ''))).filter(Boolean);
+}
+
+// 'packages/*/' and './packages/*' both mean 'packages/*'; '.' is the root
+function cleanPattern(pattern: string): string {
+  const cleaned = path.posix.normalize(pattern.trim()).replace(/^\.\//, '').replace(/\/+$/, '');
+  return cleaned === '.' ? '' : cleaned;
+}
+
+async function readConfig(
+  fileSystem: ScanFileSystem,
+  file: string,
+  parse: (content: string) => unknown
+): Promise<Record<string, unknown> | null> {
+  const content = await fileSystem.readFile(file);
+  if (content === null) return null;
+  try {
+    return asObject(parse(content));
+  } catch {
+    // An unreadable config still marks the tool as present
+    return {};
+  }
+}
+
+function parseYaml(content: string): unknown {
+  return yaml.load(content, { schema: yaml.JSON_SCHEMA });
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
@@ -0,0 +1,138 @@
+/**
+ * Readiness history
+ *
+ * Samples commits from `git log` and scans each one from the git object
+ * database, giving level and scores over time.
+ */
+
+import type {
+  HistoryCommit,
+  HistoryInterval,
+  HistoryOptions,
+  HistoryPoint,
+  Pillar,
+  ScanResult,
+} from '../types.js';
+import { loadRepoConfig } from '../config/index.js';
+import { scan } from '../scanner.js';
+import { gitExec, MAX_OUTPUT_BYTES } from '../utils/exec.js';
+
+const DEFAULT_PROFILE = 'factory_compat';
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse an `--every` value: `<n>`, `<n> commits`, `week` or `<n> weeks`
+ */
+export function parseInterval(value: string): HistoryInterval {
+  const match = /^(\d+)?\s*(commits?|weeks?)?$/.exec(value.trim().toLowerCase());
+  const count = match?.[1] !== undefined ? parseInt(match[1], 10) : 1;
+
+  if (!match || (!match[1] && !match[2]) || count < 1) {
+    throw new Error(
+      `Invalid interval '${value}'. Use '<n> commits', 'week' or '<n> weeks' (e.g. '10 commits')`
+    );
+  }
+
+  return { type: match[2]?.startsWith('week') ? 'weeks' : 'commits', count };
+}
+
+/**
+ * List first-parent commits of HEAD, oldest first
+ */
+export function listCommits(rootPath: string, since?: string): HistoryCommit[] {
+  const args = ['log', '--first-parent', '--reverse', '--format=%H%x09%cI'];
+  if (since) args.push(`--since=${since}`);
+  args.push('HEAD');
+
+  // 67 bytes per commit: long histories outgrow the default buffer
+  const log = gitExec(args, rootPath, { maxBuffer: MAX_OUTPUT_BYTES });
+  if (!log.success) {
+    throw new Error(`Failed to read git history of ${rootPath}`);
+  }
+
+  return log.stdout
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [sha, committed_at] = line.split('\t');
+      return { sha, committed_at };
+    });
+}
+
+/**
+ * Pick the commits to scan
+ *
+ * Every nth commit counting from the oldest, or the last commit of each
+ * window of n weeks starting at the oldest. The newest commit is always
+ * included so the series ends at HEAD.
+ */
+export function sampleCommits(commits: HistoryCommit[], every: HistoryInterval): HistoryCommit[] {
+  if (commits.length === 0) return [];
+
+  if (every.type === 'commits') {
+    const sampled = commits.filter((_, i) => i % every.count === 0);
+    const last = commits[commits.length - 1];
+    if (sampled[sampled.length - 1] !== last) sampled.push(last);
+    return sampled;
+  }
+
+  const start = Date.parse(commits[0].committed_at);
+  const windows = new Map<number, HistoryCommit>();
+  for (const commit of commits) {
+    const window = Math.floor((Date.parse(commit.committed_at) - start) / (WEEK_MS * every.count));
+    // Later commits replace earlier ones in the same window
+    windows.delete(window);
+    windows.set(window, commit);
+  }
+  return [...windows.values()];
+}
+
+/**
+ * Scan sampled commits of a repository
+ *
+ * @param onProgress - Called after each commit is scanned
+ */
+export async function scanHistory(
+  options: HistoryOptions,
+  onProgress?: (point: HistoryPoint, index: number, total: number) => void
+): Promise<HistoryPoint[]> {
+  const commits = sampleCommits(listCommits(options.path, options.since), options.every);
+  // Like `scan --ref`, every commit is judged by the working copy's config
+  const config = await loadRepoConfig(options.path);
+
+  const points: HistoryPoint[] = [];
+  for (const commit of commits) {
+    const result = await scan({
+      path: options.path,
+      profile: options.profile ?? config.profile ?? DEFAULT_PROFILE,
+      output: 'json',
+      level: options.level,
+      verbose: options.verbose,
+      config,
+      ref: commit.sha,
+      allowPlugins: options.allowPlugins,
+    });
+
+    const point = toHistoryPoint(commit, result);
+    points.push(point);
+    onProgress?.(point, points.length, commits.length);
+  }
+
+  return points;
+}
+
+function toHistoryPoint(commit: HistoryCommit, result: ScanResult): HistoryPoint {
+  const pillars: Partial<Record<Pillar, number>> = {};
+  for (const [pillar, summary] of Object.entries(result.pillars)) {
+    // Pillars without checks have no meaningful score
+    if (summary.checks_total > 0) pillars[pillar as Pillar] = summary.score;
+  }
+
+  return {
+    sha: commit.sha,
+    committed_at: commit.committed_at,
+    level: result.level,
+    overall_score: result.overall_score,
+    pillars,
+  };
+}
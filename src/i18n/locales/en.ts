@@ -43,9 +43,20 @@ const translations: Translations = {
     invalidLevel: 'Invalid level: {level}',
     validLevels: 'Valid levels: L1, L2, L3, L4, L5',
     invalidOutput: 'Invalid output format: {format}',
-    validOutputs: 'Valid formats: json, markdown, both',
+    validOutputs: 'Valid formats: json, markdown, both, sarif, junit, html',
     scanFailed: 'Scan failed:',
     jsonOutput: 'JSON output: {path}',
+    sarifOutput: 'SARIF output: {path}',
+    junitOutput: 'JUnit output: {path}',
+    htmlOutput: 'HTML report: {path}',
+    baselineRequired: '--fail-on and --update-baseline require --baseline',
+    baselineUpdated: 'Baseline updated: {path}',
+    baselinePassed: 'No regressions against baseline {path}',
+    baselineFailed: 'Regressions against baseline {path}:',
+    violationRegression: '{count} check(s) that passed in the baseline now fail: {checks}',
+    violationNewFailures: '{count} check(s) newly failing: {checks}',
+    violationLevelDrop: 'Level dropped from {before} to {after}',
+    violationScoreDrop: 'Score dropped by {delta} points (limit {threshold})',
   },
 
   output: {
@@ -62,10 +73,51 @@ const translations: Translations = {
     levelBreakdown: 'Level Breakdown',
     actionItems: 'Action Items',
     monorepoApps: 'Monorepo Apps',
+    monorepoRollup: 'Level and score rolled up by {policy} (root alone: {level}, {score}%)',
+    rootOnly: '(repository root)',
+    partialRollup: 'Level and score of the root alone: unchanged apps were not scanned',
+    erroredApps: 'Left out of the rollup (scan failed): {apps}',
+    inheritedChecks: '{count} inherited from parent directories',
+    changesSince: 'Changed Since {ref}',
+    changesSummary: '{files} file(s) changed, {checks} check(s) touched',
+    unchangedApps: 'Not scanned (no changes): {apps}',
     andMore: '... and {count} more (use --verbose to see all)',
     checks: '{passed}/{total} checks',
     required: '{passed}/{total} required',
     errorLabel: 'ERROR',
+    waivedChecks: 'Waived Checks',
+    waiverEntry: 'owner {owner}, expires {expires}: {reason}',
+    expiredWaivers: '{count} expired waiver(s) ignored: {checks}',
+  },
+
+  diff: {
+    title: 'Readiness Diff',
+    before: 'Before',
+    after: 'After',
+    change: 'Change',
+    level: 'Level:',
+    score: 'Score:',
+    pillar: 'Pillar',
+    pillarChanges: 'Pillar Changes',
+    noPillarChanges: 'No pillar changes',
+    newlyFailing: 'Newly Failing ({count})',
+    newlyPassing: 'Newly Passing ({count})',
+    regression: 'Regression detected',
+    noRegression: 'No regressions',
+    validFormats: 'Valid formats: terminal, markdown, json',
+  },
+
+  cache: {
+    cleared: 'Removed {count} cache file(s) from {path}',
+  },
+
+  history: {
+    title: 'Readiness History',
+    noCommits: 'No commits in range',
+    scanning: 'Scanned {current}/{total}: {sha} ({score}%)',
+    trend: 'Trend:',
+    score: 'Score:',
+    validFormats: 'Valid formats: terminal, csv, json',
   },
 
   checks: {
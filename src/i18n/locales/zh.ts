@@ -43,9 +43,20 @@ const translations: Translations = {
     invalidLevel: '无效的级别: {level}',
     validLevels: '有效级别: L1, L2, L3, L4, L5',
     invalidOutput: '无效的输出格式: {format}',
-    validOutputs: '有效格式: json, markdown, both',
+    validOutputs: '有效格式: json, markdown, both, sarif, junit, html',
     scanFailed: '扫描失败:',
     jsonOutput: 'JSON 输出: {path}',
+    sarifOutput: 'SARIF 输出: {path}',
+    junitOutput: 'JUnit 输出: {path}',
+    htmlOutput: 'HTML 报告: {path}',
+    baselineRequired: '--fail-on 和 --update-baseline 需要 --baseline',
+    baselineUpdated: '基线已更新: {path}',
+    baselinePassed: '相对基线 {path} 无退化',
+    baselineFailed: '相对基线 {path} 存在退化:',
+    violationRegression: '{count} 个在基线中通过的检查现在失败: {checks}',
+    violationNewFailures: '{count} 个新增失败检查: {checks}',
+    violationLevelDrop: '级别从 {before} 降至 {after}',
+    violationScoreDrop: '分数下降 {delta} 分 (上限 {threshold})',
   },
 
   output: {
@@ -62,10 +73,51 @@ const translations: Translations = {
     levelBreakdown: '级别分解',
     actionItems: '行动项',
     monorepoApps: 'Monorepo 应用',
+    monorepoRollup: '等级和分数按 {policy} 汇总（仅根目录：{level}，{score}%）',
+    rootOnly: '（仓库根目录）',
+    partialRollup: '等级和分数仅为根目录：未扫描无变更的应用',
+    erroredApps: '未计入汇总（扫描失败）：{apps}',
+    inheritedChecks: '{count} 项继承自上级目录',
+    changesSince: '自 {ref} 以来的变更',
+    changesSummary: '{files} 个文件变更，涉及 {checks} 项检查',
+    unchangedApps: '未扫描（无变更）：{apps}',
     andMore: '... 还有 {count} 项 (使用 --verbose 查看全部)',
     checks: '{passed}/{total} 项检查',
     required: '{passed}/{total} 项必需',
     errorLabel: '错误',
+    waivedChecks: '已豁免的检查',
+    waiverEntry: '负责人 {owner}, 到期 {expires}: {reason}',
+    expiredWaivers: '已忽略 {count} 个过期豁免: {checks}',
+  },
+
+  diff: {
+    title: '就绪度对比',
+    before: '之前',
+    after: '之后',
+    change: '变化',
+    level: '级别:',
+    score: '分数:',
+    pillar: '支柱',
+    pillarChanges: '支柱变化',
+    noPillarChanges: '支柱无变化',
+    newlyFailing: '新增失败 ({count})',
+    newlyPassing: '新增通过 ({count})',
+    regression: '检测到退化',
+    noRegression: '无退化',
+    validFormats: '有效格式: terminal, markdown, json',
+  },
+
+  cache: {
+    cleared: '已从 {path} 删除 {count} 个缓存文件',
+  },
+
+  history: {
+    title: '就绪度历史',
+    noCommits: '范围内没有提交',
+    scanning: '已扫描 {current}/{total}: {sha} ({score}%)',
+    trend: '趋势:',
+    score: '分数:',
+    validFormats: '有效格式: terminal, csv, json',
   },
 
   checks: {
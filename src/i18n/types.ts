@@ -30,6 +30,17 @@ export interface Translations {
     validOutputs: string;
     scanFailed: string;
     jsonOutput: string;
+    sarifOutput: string;
+    junitOutput: string;
+    htmlOutput: string;
+    baselineRequired: string;
+    baselineUpdated: string;
+    baselinePassed: string;
+    baselineFailed: string;
+    violationRegression: string;
+    violationNewFailures: string;
+    violationLevelDrop: string;
+    violationScoreDrop: string;
   };
 
   // Output messages
@@ -47,10 +58,53 @@ export interface Translations {
     levelBreakdown: string;
     actionItems: string;
     monorepoApps: string;
+    monorepoRollup: string;
+    rootOnly: string;
+    partialRollup: string;
+    erroredApps: string;
+    inheritedChecks: string;
+    changesSince: string;
+    changesSummary: string;
+    unchangedApps: string;
     andMore: string;
     checks: string;
     required: string;
     errorLabel: string;
+    waivedChecks: string;
+    waiverEntry: string;
+    expiredWaivers: string;
+  };
+
+  // Diff command messages
+  diff: {
+    title: string;
+    before: string;
+    after: string;
+    change: string;
+    level: string;
+    score: string;
+    pillar: string;
+    pillarChanges: string;
+    noPillarChanges: string;
+    newlyFailing: string;
+    newlyPassing: string;
+    regression: string;
+    noRegression: string;
+    validFormats: string;
+  };
+
+  // History command messages
+  cache: {
+    cleared: string;
+  };
+
+  history: {
+    title: string;
+    noCommits: string;
+    scanning: string;
+    trend: string;
+    score: string;
+    validFormats: string;
   };
 
   // Check-related messages
@@ -11,6 +11,9 @@ import * as fs from 'node:fs';
 import { fileURLToPath } from 'node:url';
 import { scanCommand } from './commands/scan.js';
 import { initCommand } from './commands/init.js';
+import { diffCommand } from './commands/diff.js';
+import { historyCommand } from './commands/history.js';
+import { cacheClearCommand } from './commands/cache.js';
 import { setLocale, isValidLocale, type Locale } from './i18n/index.js';
 
 // Read version from package.json
@@ -31,11 +34,30 @@ program
   .command('scan')
   .description('Scan a repository for agent readiness')
   .argument('[path]', 'Path to repository', '.')
-  .option('-p, --profile <name>', 'Profile to use', 'factory_compat')
-  .option('-o, --output <format>', 'Output format: json, markdown, both', 'both')
+  .option('-p, --profile <name>', 'Profile to use (default: factory_compat)')
+  .option(
+    '-o, --output <format>',
+    'Output format: json, markdown, both, sarif, junit, html (default: both)'
+  )
   .option('-l, --level <level>', 'Target level to check (L1-L5)')
   .option('-v, --verbose', 'Verbose output', false)
-  .option('--output-file <path>', 'Output file path for JSON results')
+  .option('--output-file <path>', 'Output file path for JSON, SARIF, JUnit or HTML results')
+  .option('--baseline <file>', 'Baseline readiness.json; exit code reflects --fail-on')
+  .option(
+    '--fail-on <conditions>',
+    'Baseline gate: regression, new-failures, level-drop, score-drop:<n> (default: regression)'
+  )
+  .option('--update-baseline', 'Rewrite the baseline with this scan', false)
+  .option(
+    '--ref <ref>',
+    'Scan a commit, branch or tag from git history instead of the working copy'
+  )
+  .option(
+    '--changed-since <ref>',
+    'Highlight checks touched by changes since <ref>; in monorepos scan only changed apps'
+  )
+  .option('--no-cache', 'Do not read or write the scan cache in .agent-ready/cache')
+  .option('--allow-plugins', 'Load check plugins declared by the profile (runs their code)', false)
   .option('--lang <locale>', 'Output language: en, zh', 'en')
   .action(async (scanPath: string, options) => {
     // Set locale if provided
@@ -50,6 +72,13 @@ program
       level: options.level,
       verbose: options.verbose,
       outputFile: options.outputFile,
+      baseline: options.baseline && path.resolve(process.cwd(), options.baseline),
+      failOn: options.failOn,
+      updateBaseline: options.updateBaseline,
+      ref: options.ref,
+      changedSince: options.changedSince,
+      cache: options.cache,
+      allowPlugins: options.allowPlugins,
     });
   });
 
@@ -80,5 +109,75 @@ program
     });
   });
 
+// Diff command
+program
+  .command('diff')
+  .description('Compare two readiness.json reports')
+  .argument('<before>', 'Earlier report')
+  .argument('<after>', 'Later report')
+  .option('-o, --output <format>', 'Output format: terminal, markdown, json', 'terminal')
+  .option('--output-file <path>', 'Write markdown or JSON output to a file')
+  .option('--lang <locale>', 'Output language: en, zh', 'en')
+  .action(async (before: string, after: string, options) => {
+    // Set locale if provided
+    if (options.lang && isValidLocale(options.lang)) {
+      setLocale(options.lang as Locale);
+    }
+    await diffCommand({
+      before: path.resolve(process.cwd(), before),
+      after: path.resolve(process.cwd(), after),
+      output: options.output,
+      outputFile: options.outputFile,
+    });
+  });
+
+// History command
+program
+  .command('history')
+  .description('Scan sampled commits and report readiness over time')
+  .argument('[path]', 'Path to repository', '.')
+  .option('--since <date>', 'Only scan commits after this date (e.g. 2025-01-01, "6 months ago")')
+  .option('--every <interval>', 'Sampling interval: <n> commits, week, <n> weeks', 'week')
+  .option('-p, --profile <name>', 'Profile to use (default: factory_compat)')
+  .option('-l, --level <level>', 'Target level to check (L1-L5)')
+  .option('-o, --output <format>', 'Output format: terminal, csv, json', 'terminal')
+  .option('--output-file <path>', 'Write CSV or JSON output to a file')
+  .option('-v, --verbose', 'Verbose output', false)
+  .option('--allow-plugins', 'Load check plugins declared by the profile (runs their code)', false)
+  .option('--lang <locale>', 'Output language: en, zh', 'en')
+  .action(async (historyPath: string, options) => {
+    // Set locale if provided
+    if (options.lang && isValidLocale(options.lang)) {
+      setLocale(options.lang as Locale);
+    }
+    await historyCommand({
+      path: path.resolve(process.cwd(), historyPath),
+      profile: options.profile,
+      level: options.level,
+      since: options.since,
+      every: options.every,
+      output: options.output,
+      outputFile: options.outputFile,
+      verbose: options.verbose,
+      allowPlugins: options.allowPlugins,
+    });
+  });
+
+// Cache command
+const cacheProgram = program.command('cache').description('Manage the scan cache');
+
+cacheProgram
+  .command('clear')
+  .description('Delete cached check results')
+  .argument('[path]', 'Path to repository', '.')
+  .option('--lang <locale>', 'Output language: en, zh', 'en')
+  .action(async (cachePath: string, options) => {
+    // Set locale if provided
+    if (options.lang && isValidLocale(options.lang)) {
+      setLocale(options.lang as Locale);
+    }
+    await cacheClearCommand({ path: path.resolve(process.cwd(), cachePath) });
+  });
+
 // Parse arguments and run
 program.parse();
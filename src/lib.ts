@@ -13,37 +13,152 @@ export type {
   FileExistsCheck,
   PathGlobCheck,
   AnyOfCheck,
+  AllOfCheck,
+  NoneOfCheck,
+  NestedCheckResult,
+  StructuredMatchCheck,
+  StructuredAssertion,
+  StructuredFormat,
+  MarkdownSectionsCheck,
+  MarkdownSectionRequirement,
+  DocsLinksCheck,
   GitHubWorkflowEventCheck,
   GitHubActionPresentCheck,
   BuildCommandDetectCheck,
   LogFrameworkDetectCheck,
   DependencyDetectCheck,
+  PluginCheckConfig,
+  BuiltinCheckConfig,
   CheckConfig,
   CheckResult,
+  CheckLocation,
   Profile,
   PillarSummary,
   LevelSummary,
   ActionPriority,
   ActionItem,
   MonorepoApp,
+  MonorepoRollup,
+  ChangeSummary,
+  RollupPolicy,
   ScanResult,
   ScanContext,
+  ScanFileSystem,
+  ScanLayer,
+  DirectoryEntries,
+  FileIndexStats,
+  GitRefInfo,
   PackageJson,
+  Dependency,
+  DependencyEcosystem,
+  ProjectType,
+  ProjectTypeInfo,
+  ProjectTypeMatch,
+  LanguageShare,
   ScanOptions,
+  OutputFormat,
   InitOptions,
   CheckExecutor,
+  CheckPlugin,
+  RepoConfig,
+  MonorepoConfig,
+  AppConfig,
+  CheckOverride,
+  Waiver,
+  WaivedCheckResult,
+  SkippedCheck,
+  SkipReason,
+  ReportSnapshot,
+  ReportDiff,
+  PillarDiff,
+  DiffFormat,
+  FailOnCondition,
+  FailOnViolation,
+  HistoryInterval,
+  HistoryCommit,
+  HistoryPoint,
+  HistoryOptions,
+  HistoryFormat,
 } from './types.js';
 
 // Type constants
-export { LEVELS, LEVEL_NAMES, PILLARS, PILLAR_NAMES, PASSING_THRESHOLD } from './types.js';
+export {
+  LEVELS,
+  LEVEL_NAMES,
+  PILLARS,
+  PILLAR_NAMES,
+  PASSING_THRESHOLD,
+  OUTPUT_FORMATS,
+  PROJECT_TYPES,
+  ROLLUP_POLICIES,
+  DIFF_FORMATS,
+  STRUCTURED_FORMATS,
+} from './types.js';
 
 // Check executors
-export { executeCheck, executeChecks, getSupportedCheckTypes } from './checks/index.js';
+export {
+  executeCheck,
+  executeChecks,
+  getSupportedCheckTypes,
+  registerCheckExecutor,
+  unregisterCheckExecutor,
+  getRegisteredCheckTypes,
+  isBuiltinCheck,
+  loadCheckPlugin,
+} from './checks/index.js';
 
 // Profile loading
 export { loadProfile, loadDefaultProfile, listProfiles } from './profiles/index.js';
+export type { LoadProfileOptions } from './profiles/index.js';
+
+// Repository config (.agent-ready.yml)
+export {
+  loadRepoConfig,
+  parseRepoConfig,
+  applyCheckOverrides,
+  applyWaivers,
+  isWaiverExpired,
+} from './config/index.js';
+
+// Report diff
+export { loadReport, parseReport, diffReports, parseFailOn, evaluateFailOn } from './diff/index.js';
+
+// Readiness history
+export { parseInterval, listCommits, sampleCommits, scanHistory } from './history/index.js';
+
+// Scan cache
+export type { ScanCache } from './cache/index.js';
+export {
+  CACHE_DIR,
+  openScanCache,
+  executeChecksWithCache,
+  saveScanCache,
+  clearScanCache,
+  hashProfile,
+} from './cache/index.js';
+
+// Virtual file systems
+export type { GitTree, FileIndex, FileIndexOptions } from './vfs/index.js';
+export {
+  createLocalFileSystem,
+  createMemoryFileSystem,
+  createIndexedFileSystem,
+  createGitFileSystem,
+  createArchiveFileSystem,
+  loadArchiveFileSystem,
+  loadGitTree,
+  scopeFileSystem,
+  createAppLayers,
+  buildFileIndex,
+  DEFAULT_EXCLUDES,
+  normalizeScanPath,
+  readScanFile,
+  findScanFiles,
+} from './vfs/index.js';
 
 // Engine
+export type { ScanContextOptions } from './engine/context.js';
+export type { WorkspaceInfo } from './engine/workspaces.js';
 export {
   buildScanContext,
   calculateLevelSummaries,
@@ -51,6 +166,14 @@ export {
   calculateProgressToNext,
   calculatePillarSummaries,
   calculateOverallScore,
+  calculateScoreContributions,
+  rollupLevels,
+  loadDependencies,
+  findDependencies,
+  DEPENDENCY_MANIFESTS,
+  detectWorkspaces,
+  getCheckTargets,
+  markTouched,
 } from './engine/index.js';
 
 // Scanner
@@ -59,6 +182,17 @@ export { scan } from './scanner.js';
 // Output formatters
 export { formatJson, outputJson } from './output/json.js';
 export { outputMarkdown } from './output/markdown.js';
+export type { SarifLog, SarifRule, SarifResult, SarifLevel } from './output/sarif.js';
+export { formatSarif, outputSarif } from './output/sarif.js';
+export { formatJunit, outputJunit } from './output/junit.js';
+export { formatHtml, outputHtml } from './output/html.js';
+export { formatDiffJson, formatDiffMarkdown, outputDiffTerminal } from './output/diff.js';
+export {
+  formatHistoryCsv,
+  formatHistoryJson,
+  outputHistoryTerminal,
+  sparkline,
+} from './output/history.js';
 
 // Templates
 export type { Template } from './templates/index.js';
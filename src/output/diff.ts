@@ -0,0 +1,167 @@
+/**
+ * Diff output formatters
+ *
+ * Renders a report comparison for the terminal, as Markdown (for PR
+ * comments) or as JSON
+ */
+
+import chalk from 'chalk';
+import type { Level, ReportDiff, ReportSnapshot } from '../types.js';
+import { t, getPillarName } from '../i18n/index.js';
+
+/**
+ * Format a diff as JSON (snapshots reduced to their headline fields)
+ */
+export function formatDiffJson(diff: ReportDiff): string {
+  const summary = (report: ReportSnapshot) => ({
+    repo: report.repo,
+    commit: report.commit,
+    timestamp: report.timestamp,
+    level: report.level,
+    overall_score: report.overall_score,
+  });
+
+  return JSON.stringify(
+    {
+      before: summary(diff.before),
+      after: summary(diff.after),
+      level_change: diff.level_change,
+      score_delta: diff.score_delta,
+      pillars: diff.pillars,
+      newly_failing: diff.newly_failing,
+      newly_passing: diff.newly_passing,
+      regression: diff.regression,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Format a diff as Markdown
+ */
+export function formatDiffMarkdown(diff: ReportDiff): string {
+  const lines = [
+    `## ${t('diff.title')}`,
+    '',
+    `| | ${t('diff.before')} | ${t('diff.after')} | ${t('diff.change')} |`,
+    '|---|---|---|---|',
+    `| ${t('diff.level')} | ${levelLabel(diff.before.level)} | ${levelLabel(diff.after.level)} | ${levelChangeMark(diff)} |`,
+    `| ${t('diff.score')} | ${diff.before.overall_score}% | ${diff.after.overall_score}% | ${signed(diff.score_delta)} |`,
+    '',
+  ];
+
+  const changed = changedPillars(diff);
+  lines.push(`### ${t('diff.pillarChanges')}`, '');
+  if (changed.length === 0) {
+    lines.push(t('diff.noPillarChanges'), '');
+  } else {
+    lines.push(
+      `| ${t('diff.pillar')} | ${t('diff.before')} | ${t('diff.after')} | ${t('diff.change')} |`,
+      '|---|---|---|---|'
+    );
+    for (const p of changed) {
+      lines.push(
+        `| ${getPillarName(p.pillar)} | ${p.before_level ?? '-'} ${p.before_score}% | ${p.after_level ?? '-'} ${p.after_score}% | ${signed(p.score_delta)} |`
+      );
+    }
+    lines.push('');
+  }
+
+  if (diff.newly_failing.length > 0) {
+    lines.push(`### ${t('diff.newlyFailing', { count: diff.newly_failing.length })}`, '');
+    lines.push(...diff.newly_failing.map((id) => `- \`${id}\``), '');
+  }
+
+  if (diff.newly_passing.length > 0) {
+    lines.push(`### ${t('diff.newlyPassing', { count: diff.newly_passing.length })}`, '');
+    lines.push(...diff.newly_passing.map((id) => `- \`${id}\``), '');
+  }
+
+  lines.push(diff.regression ? `**${t('diff.regression')}**` : t('diff.noRegression'));
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Print a diff to the terminal
+ */
+export function outputDiffTerminal(diff: ReportDiff): void {
+  console.log('');
+  console.log(chalk.bold(t('diff.title')));
+  console.log(chalk.dim('─'.repeat(50)));
+
+  const commits = [diff.before.commit, diff.after.commit];
+  if (commits.every(Boolean)) {
+    console.log(chalk.dim(`${commits[0]} → ${commits[1]}`));
+  }
+
+  const levelColor =
+    diff.level_change === 'up'
+      ? chalk.green
+      : diff.level_change === 'down'
+        ? chalk.red
+        : chalk.white;
+  console.log(
+    `${t('diff.level')}  ${levelColor(`${levelLabel(diff.before.level)} → ${levelLabel(diff.after.level)}`)}`
+  );
+  console.log(
+    `${t('diff.score')}  ${diff.before.overall_score}% → ${diff.after.overall_score}% ${deltaColor(diff.score_delta)(`(${signed(diff.score_delta)})`)}`
+  );
+  console.log('');
+
+  const changed = changedPillars(diff);
+  console.log(chalk.bold(t('diff.pillarChanges')));
+  console.log(chalk.dim('─'.repeat(50)));
+  if (changed.length === 0) {
+    console.log(chalk.dim(`  ${t('diff.noPillarChanges')}`));
+  }
+  for (const p of changed) {
+    const levels = `${(p.before_level ?? '-').padEnd(2)} → ${(p.after_level ?? '-').padEnd(2)}`;
+    const scores = `${p.before_score}% → ${p.after_score}%`;
+    console.log(
+      `  ${getPillarName(p.pillar).padEnd(16)} ${levels}  ${scores} ${deltaColor(p.score_delta)(`(${signed(p.score_delta)})`)}`
+    );
+  }
+  console.log('');
+
+  if (diff.newly_failing.length > 0) {
+    console.log(chalk.bold(t('diff.newlyFailing', { count: diff.newly_failing.length })));
+    for (const id of diff.newly_failing) {
+      console.log(`  ${chalk.red('✗')} ${id}`);
+    }
+    console.log('');
+  }
+
+  if (diff.newly_passing.length > 0) {
+    console.log(chalk.bold(t('diff.newlyPassing', { count: diff.newly_passing.length })));
+    for (const id of diff.newly_passing) {
+      console.log(`  ${chalk.green('✓')} ${id}`);
+    }
+    console.log('');
+  }
+
+  console.log(
+    diff.regression ? chalk.red.bold(t('diff.regression')) : chalk.green(t('diff.noRegression'))
+  );
+  console.log('');
+}
+
+function changedPillars(diff: ReportDiff) {
+  return diff.pillars.filter((p) => p.score_delta !== 0 || p.before_level !== p.after_level);
+}
+
+function levelLabel(level: Level | null): string {
+  return level ?? t('levels.none');
+}
+
+function levelChangeMark(diff: ReportDiff): string {
+  return diff.level_change === 'up' ? '▲' : diff.level_change === 'down' ? '▼' : '=';
+}
+
+function signed(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+function deltaColor(value: number): (text: string) => string {
+  return value > 0 ? chalk.green : value < 0 ? chalk.red : chalk.dim;
+}
@@ -0,0 +1,82 @@
+/**
+ * History output formatters
+ *
+ * Renders a readiness time series as CSV, JSON or a terminal table with
+ * a sparkline of the overall score
+ */
+
+import chalk from 'chalk';
+import type { HistoryPoint } from '../types.js';
+import { PILLARS } from '../types.js';
+import { t } from '../i18n/index.js';
+
+const SPARK_CHARS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+/**
+ * Format a history as CSV: one row per commit, one column per pillar
+ * (empty where the pillar had no checks)
+ */
+export function formatHistoryCsv(points: HistoryPoint[]): string {
+  const header = ['commit', 'committed_at', 'level', 'overall_score', ...PILLARS];
+  const rows = points.map((point) => [
+    point.sha,
+    point.committed_at,
+    point.level ?? '',
+    String(point.overall_score),
+    ...PILLARS.map((pillar) => String(point.pillars[pillar] ?? '')),
+  ]);
+
+  return [header, ...rows].map((row) => row.join(',')).join('\n') + '\n';
+}
+
+/**
+ * Format a history as JSON
+ */
+export function formatHistoryJson(points: HistoryPoint[]): string {
+  return JSON.stringify(points, null, 2);
+}
+
+/**
+ * Print a history to the terminal
+ */
+export function outputHistoryTerminal(points: HistoryPoint[]): void {
+  console.log('');
+  console.log(chalk.bold(t('history.title')));
+  console.log(chalk.dim('─'.repeat(50)));
+
+  if (points.length === 0) {
+    console.log(chalk.dim(`  ${t('history.noCommits')}`));
+    console.log('');
+    return;
+  }
+
+  for (const point of points) {
+    const date = point.committed_at.slice(0, 10);
+    const level = (point.level ?? '-').padEnd(2);
+    console.log(
+      `  ${chalk.dim(point.sha.slice(0, 7))}  ${date}  ${level}  ${String(point.overall_score).padStart(3)}%`
+    );
+  }
+  console.log('');
+
+  const first = points[0].overall_score;
+  const last = points[points.length - 1].overall_score;
+  const color = last > first ? chalk.green : last < first ? chalk.red : chalk.white;
+  console.log(`${t('history.trend')}  ${color(sparkline(points.map((p) => p.overall_score)))}`);
+  console.log(`${t('history.score')}  ${first}% → ${color(`${last}%`)}`);
+  console.log('');
+}
+
+/**
+ * Render values (0-100) as a unicode sparkline
+ */
+export function sparkline(values: number[]): string {
+  return values
+    .map((value) => {
+      const clamped = Math.min(Math.max(value, 0), 100);
+      return SPARK_CHARS[
+        Math.min(Math.floor((clamped / 100) * SPARK_CHARS.length), SPARK_CHARS.length - 1)
+      ];
+    })
+    .join('');
+}
@@ -0,0 +1,409 @@
+/**
+ * HTML report output formatter
+ *
+ * Writes scan results as a single self-contained page (readiness.html) with
+ * inline CSS and JS, so it opens offline, e.g. as a CI artifact
+ */
+
+import type { CheckResult, Level, MonorepoApp, ScanResult } from '../types.js';
+import { LEVELS, LEVEL_NAMES, PILLARS, PILLAR_NAMES } from '../types.js';
+import { writeFile } from '../utils/fs.js';
+
+type CheckStatus = 'failed' | 'passed' | 'waived' | 'skipped';
+
+// A row of the checks table
+interface CheckRow {
+  id: string;
+  name: string;
+  pillar: CheckResult['pillar'];
+  level: Level;
+  status: CheckStatus;
+  required: boolean;
+  message: string;
+  suggestions: string[];
+  touched: boolean;
+}
+
+const STATUS_ORDER: CheckStatus[] = ['failed', 'passed', 'waived', 'skipped'];
+
+const STYLE = `
+:root {
+  --bg: #f8fafc; --card: #ffffff; --text: #0f172a; --muted: #64748b; --border: #e2e8f0;
+  --passed: #16a34a; --failed: #dc2626; --waived: #ca8a04; --skipped: #94a3b8;
+  --L1: #dc2626; --L2: #ca8a04; --L3: #0891b2; --L4: #2563eb; --L5: #16a34a; --none: #94a3b8;
+}
+* { box-sizing: border-box; }
+body { margin: 0; font: 14px/1.5 -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: var(--bg); color: var(--text); }
+main { max-width: 1100px; margin: 0 auto; padding: 24px; }
+h1 { font-size: 22px; margin: 0 0 4px; }
+h2 { font-size: 16px; margin: 0 0 12px; }
+section { background: var(--card); border: 1px solid var(--border); border-radius: 8px; padding: 20px; margin-top: 16px; }
+.meta { color: var(--muted); }
+.meta span { margin-right: 16px; }
+.summary { display: flex; gap: 24px; align-items: center; flex-wrap: wrap; }
+.badge { width: 120px; height: 120px; border-radius: 50%; border: 6px solid var(--level); display: flex; flex-direction: column; align-items: center; justify-content: center; }
+.badge strong { font-size: 32px; color: var(--level); line-height: 1; }
+.badge small { color: var(--muted); }
+.score { font-size: 28px; font-weight: 600; }
+.bar { background: var(--border); border-radius: 4px; height: 10px; overflow: hidden; min-width: 120px; }
+.bar div { height: 100%; background: var(--level, var(--passed)); }
+.pillars { display: grid; grid-template-columns: 180px 1fr 60px 50px 70px; gap: 8px 12px; align-items: center; }
+table { width: 100%; border-collapse: collapse; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid var(--border); vertical-align: top; }
+th { color: var(--muted); font-weight: 600; font-size: 12px; text-transform: uppercase; }
+td ul { margin: 4px 0 0; padding-left: 18px; color: var(--muted); }
+.status { font-weight: 600; text-transform: capitalize; }
+.status-passed, .yes { color: var(--passed); }
+.status-failed, .no { color: var(--failed); }
+.status-waived { color: var(--waived); }
+.status-skipped { color: var(--skipped); }
+.level { font-weight: 600; color: var(--level); }
+.tag { display: inline-block; border: 1px solid var(--border); border-radius: 10px; padding: 0 8px; font-size: 12px; color: var(--muted); margin-right: 4px; }
+.filters { display: flex; gap: 8px; flex-wrap: wrap; margin-bottom: 12px; }
+.filters select, .filters input { font: inherit; padding: 4px 8px; border: 1px solid var(--border); border-radius: 4px; }
+.filters input { flex: 1; min-width: 160px; }
+code { font-size: 12px; }
+`;
+
+const SCRIPT = `
+(function () {
+  var rows = Array.prototype.slice.call(document.querySelectorAll('#checks tbody tr'));
+  var status = document.getElementById('status-filter');
+  var pillar = document.getElementById('pillar-filter');
+  var search = document.getElementById('search');
+  var count = document.getElementById('check-count');
+  function apply() {
+    var query = search.value.toLowerCase();
+    var shown = 0;
+    rows.forEach(function (row) {
+      var matchesStatus = !status.value || row.dataset.status === status.value ||
+        (status.value === 'touched' && row.dataset.touched === 'true');
+      var visible = matchesStatus && (!pillar.value || row.dataset.pillar === pillar.value) &&
+        row.textContent.toLowerCase().indexOf(query) !== -1;
+      row.hidden = !visible;
+      if (visible) shown++;
+    });
+    count.textContent = shown + ' of ' + rows.length + ' checks';
+  }
+  [status, pillar, search].forEach(function (el) { el.addEventListener('input', apply); });
+  apply();
+})();
+`;
+
+/**
+ * Format scan results as a self-contained HTML page
+ *
+ * Shows the level badge, pillar bars, level breakdown, project type, a
+ * filterable table of every check (including waived and skipped ones) and
+ * the monorepo apps.
+ */
+export function formatHtml(result: ScanResult): string {
+  const title = `Agent Readiness Report: ${result.repo}`;
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="UTF-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STYLE}</style>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    renderHeader(result, title),
+    renderSummary(result),
+    renderPillars(result),
+    renderLevels(result),
+    renderProjectType(result),
+    renderChecks(result),
+    renderApps(result),
+    '</main>',
+    `<script>${SCRIPT}</script>`,
+    '</body>',
+    '</html>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Write scan results to an HTML file
+ */
+export async function outputHtml(result: ScanResult, outputPath: string): Promise<void> {
+  await writeFile(outputPath, formatHtml(result));
+}
+
+function renderHeader(result: ScanResult, title: string): string {
+  const commit = result.ref ? `${result.commit} (${result.ref})` : result.commit;
+  return [
+    '<header>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    '<div class="meta">',
+    `<span>Commit: <code>${escapeHtml(commit)}</code></span>`,
+    `<span>Profile: ${escapeHtml(`${result.profile} v${result.profile_version}`)}</span>`,
+    `<span>Scanned: ${escapeHtml(result.timestamp)}</span>`,
+    '</div>',
+    '</header>',
+  ].join('\n');
+}
+
+function renderSummary(result: ScanResult): string {
+  const level = result.level;
+  const next = level ? LEVELS[LEVELS.indexOf(level) + 1] : 'L1';
+  const progress = Math.round(result.progress_to_next * 100);
+  const rollup =
+    result.rollup && result.rollup.policy !== 'root'
+      ? `<p class="meta">Rolled up by ${escapeHtml(result.rollup.policy)} across the monorepo apps (root alone: ${result.rollup.root_level ?? '-'}, ${result.rollup.root_score}%)</p>` +
+        (result.rollup.errored_apps
+          ? `<p class="meta">Left out of the rollup (scan failed): ${escapeHtml(result.rollup.errored_apps.join(', '))}</p>`
+          : '')
+      : result.rollup?.partial
+        ? '<p class="meta">Root alone: unchanged apps were not scanned, so the apps are not rolled up</p>'
+        : '';
+
+  return [
+    '<section class="summary">',
+    `<div class="badge" style="${levelStyle(level)}"><strong>${level ?? '-'}</strong><small>${level ? LEVEL_NAMES[level] : 'Not achieved'}</small></div>`,
+    '<div>',
+    `<div class="score">${result.overall_score}%</div>`,
+    '<div class="meta">Overall score</div>',
+    next
+      ? `<div class="meta">Progress to ${next}: ${progress}%</div><div class="bar" style="${levelStyle(next)}"><div style="width: ${progress}%"></div></div>`
+      : '',
+    rollup,
+    '</div>',
+    '</section>',
+  ].join('\n');
+}
+
+function renderPillars(result: ScanResult): string {
+  const rows = PILLARS.map((pillar) => result.pillars[pillar])
+    .filter((summary) => summary && summary.checks_total > 0)
+    .map(
+      (summary) =>
+        `<div>${escapeHtml(PILLAR_NAMES[summary.pillar])}</div>` +
+        `<div class="bar" style="${levelStyle(summary.level_achieved)}"><div style="width: ${summary.score}%"></div></div>` +
+        `<div>${summary.score}%</div>` +
+        `<div class="level" style="${levelStyle(summary.level_achieved)}">${summary.level_achieved ?? '-'}</div>` +
+        `<div class="meta">${summary.checks_passed}/${summary.checks_total}</div>`
+    );
+
+  return [
+    '<section>',
+    `<h2>Pillars${rootOnly(result)}</h2>`,
+    '<div class="pillars">',
+    ...rows,
+    '</div>',
+    '</section>',
+  ].join('\n');
+}
+
+function renderLevels(result: ScanResult): string {
+  const rows = LEVELS.map((level) => result.levels[level])
+    .filter((summary) => summary && summary.checks_total > 0)
+    .map(
+      (summary) =>
+        `<tr><td class="level" style="${levelStyle(summary.level)}">${summary.level} ${LEVEL_NAMES[summary.level]}</td>` +
+        `<td class="${summary.achieved ? 'yes' : 'no'}">${summary.achieved ? 'Achieved' : 'Not achieved'}</td>` +
+        `<td>${summary.score}%</td>` +
+        `<td>${summary.checks_passed}/${summary.checks_total}</td>` +
+        `<td>${summary.required_passed}/${summary.required_total}</td></tr>`
+    );
+
+  return [
+    '<section>',
+    `<h2>Levels${rootOnly(result)}</h2>`,
+    '<table>',
+    '<thead><tr><th>Level</th><th>Status</th><th>Score</th><th>Checks</th><th>Required</th></tr></thead>',
+    `<tbody>${rows.join('\n')}</tbody>`,
+    '</table>',
+    '</section>',
+  ].join('\n');
+}
+
+function renderProjectType(result: ScanResult): string {
+  const info = result.project_type;
+  const types = info.types.map(
+    (match) =>
+      `<li><strong>${escapeHtml(match.type)}</strong> <span class="tag">${match.confidence} confidence</span>` +
+      (match.indicators.length > 0 ? `<ul>${listItems(match.indicators)}</ul>` : '') +
+      '</li>'
+  );
+  const languages = info.languages.map((l) => `${l.language} ${l.percent}%`).join(', ');
+
+  return [
+    '<section>',
+    `<h2>Project Type${info.pinned ? ' <span class="tag">pinned</span>' : ''}</h2>`,
+    `<ul>${types.join('\n')}</ul>`,
+    languages ? `<p>Languages: ${escapeHtml(languages)}</p>` : '',
+    info.frameworks.length > 0
+      ? `<p>Frameworks: ${escapeHtml(info.frameworks.join(', '))}</p>`
+      : '',
+    result.checks_skipped_by_type > 0
+      ? `<p class="meta">${result.checks_skipped_by_type} checks not applicable to this project type were skipped</p>`
+      : '',
+    '</section>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+function renderChecks(result: ScanResult): string {
+  const rows = toCheckRows(result);
+  const pillars = PILLARS.filter((pillar) => rows.some((row) => row.pillar === pillar));
+  const statuses = [...STATUS_ORDER, ...(result.changes ? ['touched'] : [])];
+
+  const body = rows.map(
+    (row) =>
+      `<tr data-status="${row.status}" data-pillar="${row.pillar}" data-touched="${row.touched}">` +
+      `<td class="status status-${row.status}">${row.status}</td>` +
+      `<td><code>${escapeHtml(row.id)}</code><br>${escapeHtml(row.name)}${row.touched ? ' <span class="tag">touched</span>' : ''}</td>` +
+      `<td>${escapeHtml(PILLAR_NAMES[row.pillar])}</td>` +
+      `<td class="level" style="${levelStyle(row.level)}">${row.level}</td>` +
+      `<td>${row.required ? 'Yes' : ''}</td>` +
+      `<td>${escapeHtml(row.message)}${row.suggestions.length > 0 ? `<ul>${listItems(row.suggestions)}</ul>` : ''}</td>` +
+      '</tr>'
+  );
+
+  return [
+    '<section>',
+    '<h2>Checks <span class="meta" id="check-count"></span></h2>',
+    '<div class="filters">',
+    `<select id="status-filter" aria-label="Status"><option value="">All statuses</option>${statuses.map((s) => `<option value="${s}">${s[0].toUpperCase()}${s.slice(1)}</option>`).join('')}</select>`,
+    `<select id="pillar-filter" aria-label="Pillar"><option value="">All pillars</option>${pillars.map((p) => `<option value="${p}">${escapeHtml(PILLAR_NAMES[p])}</option>`).join('')}</select>`,
+    '<input type="search" id="search" placeholder="Search checks" aria-label="Search checks">',
+    '</div>',
+    '<table id="checks">',
+    '<thead><tr><th>Status</th><th>Check</th><th>Pillar</th><th>Level</th><th>Required</th><th>Details</th></tr></thead>',
+    `<tbody>${body.join('\n')}</tbody>`,
+    '</table>',
+    '</section>',
+  ].join('\n');
+}
+
+function renderApps(result: ScanResult): string {
+  if (!result.apps || result.apps.length === 0) return '';
+
+  const rows = result.apps.map(
+    (app) =>
+      `<tr><td>${escapeHtml(app.name)}</td><td><code>${escapeHtml(app.path)}</code></td>` +
+      (app.error
+        ? `<td colspan="4" class="no">${escapeHtml(app.error)}</td>`
+        : `<td class="level" style="${levelStyle(app.level)}">${app.level ?? '-'}</td>` +
+          `<td>${app.score}%</td>` +
+          `<td>${app.checks_passed}/${app.checks_total}</td>` +
+          `<td>${escapeHtml(app.project_type?.types.map((t) => t.type).join(', ') ?? '')}</td>`) +
+      `<td class="meta">${escapeHtml(appNotes(app))}</td></tr>`
+  );
+  const unchanged = result.changes?.unchanged_apps?.length
+    ? `<p class="meta">Not scanned (no changes): ${escapeHtml(result.changes.unchanged_apps.join(', '))}</p>`
+    : '';
+
+  return [
+    '<section>',
+    '<h2>Monorepo Apps</h2>',
+    '<table>',
+    '<thead><tr><th>App</th><th>Path</th><th>Level</th><th>Score</th><th>Checks</th><th>Project Type</th><th>Notes</th></tr></thead>',
+    `<tbody>${rows.join('\n')}</tbody>`,
+    '</table>',
+    unchanged,
+    '</section>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Every check of the scan, failed first, then passed, waived and skipped
+ */
+function toCheckRows(result: ScanResult): CheckRow[] {
+  const rows: CheckRow[] = result.check_results.map((check) => ({
+    id: check.check_id,
+    name: check.check_name,
+    pillar: check.pillar,
+    level: check.level,
+    status: check.passed ? 'passed' : 'failed',
+    required: check.required,
+    message: check.message,
+    suggestions: check.passed ? [] : (check.suggestions ?? []),
+    touched: !!check.touched,
+  }));
+
+  for (const check of result.waived_checks ?? []) {
+    const { reason, owner, expires } = check.waiver;
+    rows.push({
+      id: check.check_id,
+      name: check.check_name,
+      pillar: check.pillar,
+      level: check.level,
+      status: 'waived',
+      required: check.required,
+      message: `Waived until ${expires} (${owner}): ${reason}`,
+      suggestions: [],
+      touched: !!check.touched,
+    });
+  }
+
+  for (const check of result.skipped_checks ?? []) {
+    rows.push({
+      id: check.check_id,
+      name: check.check_name,
+      pillar: check.pillar,
+      level: check.level,
+      status: 'skipped',
+      required: false,
+      message:
+        check.reason === 'level' ? 'Above target level' : 'Not applicable to this project type',
+      suggestions: [],
+      touched: false,
+    });
+  }
+
+  // Required failures first, then by level
+  return rows.sort(
+    (a, b) =>
+      STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+      Number(b.required) - Number(a.required) ||
+      LEVELS.indexOf(a.level) - LEVELS.indexOf(b.level)
+  );
+}
+
+function appNotes(app: MonorepoApp): string {
+  const notes: string[] = [];
+  if (app.profile) notes.push(`profile ${app.profile}`);
+  const inherited = Object.keys(app.inherited_checks ?? {}).length;
+  if (inherited > 0) notes.push(`${inherited} inherited`);
+  if (app.touched_checks?.length) notes.push(`${app.touched_checks.length} touched`);
+  if (app.waived_checks?.length) {
+    notes.push(`waived: ${app.waived_checks.map((check) => check.check_id).join(', ')}`);
+  }
+  if (app.expired_waivers?.length) {
+    notes.push(`expired waivers: ${app.expired_waivers.map((w) => w.check).join(', ')}`);
+  }
+  return notes.join(', ');
+}
+
+// Pillars and levels describe the root alone when the headline is rolled up
+function rootOnly(result: ScanResult): string {
+  return result.rollup && result.rollup.policy !== 'root'
+    ? ' <small class="meta">(repository root)</small>'
+    : '';
+}
+
+function levelStyle(level: Level | null | undefined): string {
+  return `--level: var(--${level ?? 'none'})`;
+}
+
+function listItems(items: string[]): string {
+  return items.map((item) => `<li>${escapeHtml(item)}</li>`).join('');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -4,7 +4,7 @@
  * Writes scan results to readiness.json
  */
 
-import type { ScanResult } from '../types.js';
+import type { CheckResult, ScanResult, WaivedCheckResult } from '../types.js';
 import { writeFile } from '../utils/fs.js';
 
 /**
@@ -15,23 +15,14 @@ export async function outputJson(result: ScanResult, outputPath: string): Promis
   const output = {
     repo: result.repo,
     commit: result.commit,
+    ref: result.ref,
     timestamp: result.timestamp,
     profile: result.profile,
     profile_version: result.profile_version,
     level: result.level,
     progress_to_next: Math.round(result.progress_to_next * 100) / 100,
     overall_score: result.overall_score,
-    pillars: Object.fromEntries(
-      Object.entries(result.pillars).map(([key, summary]) => [
-        key,
-        {
-          level_achieved: summary.level_achieved,
-          score: summary.score,
-          checks_passed: summary.checks_passed,
-          checks_total: summary.checks_total,
-        },
-      ])
-    ),
+    pillars: toJsonPillars(result.pillars),
     levels: Object.fromEntries(
       Object.entries(result.levels).map(([key, summary]) => [
         key,
@@ -43,14 +34,8 @@ export async function outputJson(result: ScanResult, outputPath: string): Promis
         },
       ])
     ),
-    failed_checks: result.failed_checks.map((check) => ({
-      check_id: check.check_id,
-      pillar: check.pillar,
-      level: check.level,
-      message: check.message,
-      required: check.required,
-      suggestions: check.suggestions,
-    })),
+    failed_checks: result.failed_checks.map(toJsonFailedCheck),
+    passed_checks: result.check_results.filter((r) => r.passed).map((r) => r.check_id),
     action_items: result.action_items.map((item) => ({
       priority: item.priority,
       check_id: item.check_id,
@@ -59,15 +44,69 @@ export async function outputJson(result: ScanResult, outputPath: string): Promis
       action: item.action,
     })),
     is_monorepo: result.is_monorepo,
-    apps: result.apps,
+    apps: result.apps?.map((app) => ({
+      ...app,
+      pillars: app.pillars && toJsonPillars(app.pillars),
+      failed_checks: app.failed_checks?.map(toJsonFailedCheck),
+      waived_checks: app.waived_checks?.map(toJsonWaivedCheck),
+    })),
+    rollup: result.rollup,
+    changes: result.changes,
     project_type: result.project_type,
     checks_skipped_by_type: result.checks_skipped_by_type,
+    waived_checks: result.waived_checks?.map(toJsonWaivedCheck),
+    expired_waivers: result.expired_waivers,
+    skipped_checks: result.skipped_checks?.map((check) => ({
+      check_id: check.check_id,
+      pillar: check.pillar,
+      level: check.level,
+      reason: check.reason,
+    })),
   };
 
   const json = JSON.stringify(output, null, 2);
   await writeFile(outputPath, json);
 }
 
+function toJsonPillars(pillars: ScanResult['pillars']) {
+  return Object.fromEntries(
+    Object.entries(pillars).map(([key, summary]) => [
+      key,
+      {
+        level_achieved: summary.level_achieved,
+        score: summary.score,
+        checks_passed: summary.checks_passed,
+        checks_total: summary.checks_total,
+      },
+    ])
+  );
+}
+
+function toJsonFailedCheck(check: CheckResult) {
+  return {
+    check_id: check.check_id,
+    pillar: check.pillar,
+    level: check.level,
+    message: check.message,
+    required: check.required,
+    weight: check.weight,
+    score_contribution: check.score_contribution,
+    suggestions: check.suggestions,
+    locations: check.locations,
+    touched: check.touched,
+  };
+}
+
+function toJsonWaivedCheck(check: WaivedCheckResult) {
+  return {
+    check_id: check.check_id,
+    pillar: check.pillar,
+    level: check.level,
+    passed: check.passed,
+    waiver: check.waiver,
+  };
+}
+
 /**
  * Format scan result as JSON string (for stdout)
  */
@@ -0,0 +1,117 @@
+/**
+ * JUnit XML output formatter
+ *
+ * Writes scan results as a JUnit report (readiness.xml) so CI systems show
+ * each check as a test case: one <testsuite> per pillar
+ */
+
+import type { Pillar, ScanResult } from '../types.js';
+import { PILLARS, PILLAR_NAMES } from '../types.js';
+import { writeFile } from '../utils/fs.js';
+
+// A check rendered as a <testcase>
+interface TestCase {
+  id: string;
+  failure?: { message: string; body: string; level: string };
+  skipped?: string;
+}
+
+/**
+ * Format scan results as a JUnit XML document
+ *
+ * Failed checks carry their message and suggestions; checks skipped by
+ * level or project type filtering, and waived checks, are <skipped>.
+ */
+export function formatJunit(result: ScanResult): string {
+  const cases = new Map<Pillar, TestCase[]>(PILLARS.map((pillar) => [pillar, []]));
+  const add = (pillar: Pillar, testCase: TestCase) => cases.get(pillar)?.push(testCase);
+
+  for (const check of result.check_results) {
+    add(check.pillar, {
+      id: check.check_id,
+      failure: check.passed
+        ? undefined
+        : {
+            message: check.message,
+            level: check.level,
+            body: [check.message, ...(check.suggestions ?? []).map((s) => `- ${s}`)].join('\n'),
+          },
+    });
+  }
+
+  for (const check of result.waived_checks ?? []) {
+    const { reason, owner, expires } = check.waiver;
+    add(check.pillar, {
+      id: check.check_id,
+      skipped: `Waived until ${expires} (${owner}): ${reason}`,
+    });
+  }
+
+  const types = result.project_type.types.map((t) => `'${t.type}'`);
+  for (const check of result.skipped_checks ?? []) {
+    add(check.pillar, {
+      id: check.check_id,
+      skipped:
+        check.reason === 'level'
+          ? `Above target level (${check.level})`
+          : `Not applicable to project type${types.length > 1 ? 's' : ''} ${types.join(', ')}`,
+    });
+  }
+
+  const suites = [...cases.entries()].filter(([, testCases]) => testCases.length > 0);
+  const count = (testCases: TestCase[], key: 'failure' | 'skipped') =>
+    testCases.filter((c) => c[key] !== undefined).length;
+  const all = suites.flatMap(([, testCases]) => testCases);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="agent-ready" tests="${all.length}" failures="${count(all, 'failure')}" skipped="${count(all, 'skipped')}">`,
+  ];
+
+  for (const [pillar, testCases] of suites) {
+    lines.push(
+      `  <testsuite name="${escapeXml(PILLAR_NAMES[pillar])}" id="${pillar}" tests="${testCases.length}" failures="${count(testCases, 'failure')}" skipped="${count(testCases, 'skipped')}" errors="0" timestamp="${escapeXml(result.timestamp)}">`
+    );
+
+    for (const testCase of testCases) {
+      const attrs = `name="${escapeXml(testCase.id)}" classname="agent-ready.${pillar}"`;
+      if (testCase.failure) {
+        const { message, level, body } = testCase.failure;
+        lines.push(
+          `    <testcase ${attrs}>`,
+          `      <failure message="${escapeXml(message)}" type="${level}">${escapeXml(body)}</failure>`,
+          `    </testcase>`
+        );
+      } else if (testCase.skipped !== undefined) {
+        lines.push(
+          `    <testcase ${attrs}>`,
+          `      <skipped message="${escapeXml(testCase.skipped)}"/>`,
+          `    </testcase>`
+        );
+      } else {
+        lines.push(`    <testcase ${attrs}/>`);
+      }
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Write scan results to a JUnit XML file
+ */
+export async function outputJunit(result: ScanResult, outputPath: string): Promise<void> {
+  await writeFile(outputPath, formatJunit(result));
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -5,7 +5,14 @@
  */
 
 import chalk from 'chalk';
-import type { ScanResult, Level, ActionPriority } from '../types.js';
+import type {
+  ScanResult,
+  Level,
+  ActionPriority,
+  ProjectTypeMatch,
+  WaivedCheckResult,
+  Waiver,
+} from '../types.js';
 import { LEVELS } from '../types.js';
 import { t, getPillarName, getLevelName, getPriorityName } from '../i18n/index.js';
 
@@ -45,6 +52,11 @@ export function outputMarkdown(result: ScanResult, verbose: boolean): void {
     printLevelBreakdown(result);
   }
 
+  // Checks touched by the changes (--changed-since)
+  if (result.changes) {
+    printChanges(result);
+  }
+
   // Action items
   if (result.action_items.length > 0) {
     printActionItems(result, verbose);
@@ -55,6 +67,11 @@ export function outputMarkdown(result: ScanResult, verbose: boolean): void {
     printMonorepoApps(result);
   }
 
+  // Waivers from .agent-ready.yml
+  if (result.waived_checks?.length || result.expired_waivers?.length) {
+    printWaivers(result);
+  }
+
   console.log('');
 }
 
@@ -62,7 +79,8 @@ function printHeader(result: ScanResult): void {
   console.log(chalk.bold(t('output.title')));
   console.log(chalk.dim('─'.repeat(50)));
   console.log(`${chalk.dim(t('output.repository'))} ${result.repo}`);
-  console.log(`${chalk.dim(t('output.commit'))}     ${result.commit}`);
+  const ref = result.ref ? chalk.dim(` (${result.ref})`) : '';
+  console.log(`${chalk.dim(t('output.commit'))}     ${result.commit}${ref}`);
   console.log(
     `${chalk.dim(t('output.profileLabel'))}    ${result.profile} v${result.profile_version}`
   );
@@ -72,21 +90,29 @@ function printHeader(result: ScanResult): void {
 
   // Show project type info
   const projectType = result.project_type;
-  const typeColor =
-    projectType.confidence === 'high'
-      ? chalk.green
-      : projectType.confidence === 'medium'
-        ? chalk.yellow
-        : chalk.gray;
+  const typeColor = (confidence: ProjectTypeMatch['confidence']) =>
+    confidence === 'high' ? chalk.green : confidence === 'medium' ? chalk.yellow : chalk.gray;
+  const types = projectType.types
+    .map((t) => `${typeColor(t.confidence)(t.type)} ${chalk.dim(`(${t.confidence} confidence)`)}`)
+    .join(', ');
   console.log(
-    `${chalk.dim('Project Type:')} ${typeColor(projectType.type)} ${chalk.dim(`(${projectType.confidence} confidence)`)}`
+    `${chalk.dim('Project Type:')} ${types}${projectType.pinned ? chalk.dim(' [pinned]') : ''}`
   );
+  if (projectType.languages.length > 0) {
+    const languages = projectType.languages
+      .slice(0, 4)
+      .map((l) => `${l.language} ${l.percent}%`)
+      .join(', ');
+    const frameworks =
+      projectType.frameworks.length > 0 ? ` · ${projectType.frameworks.join(', ')}` : '';
+    console.log(`${chalk.dim('Languages:')} ${languages}${chalk.dim(frameworks)}`);
+  }
 
   // Show skipped checks if any
   if (result.checks_skipped_by_type > 0) {
     console.log(
       chalk.dim(
-        `Skipped ${result.checks_skipped_by_type} checks not applicable to ${projectType.type} projects`
+        `Skipped ${result.checks_skipped_by_type} checks not applicable to ${projectType.types.map((t) => t.type).join('/')} projects`
       )
     );
   }
@@ -121,7 +147,7 @@ function printLevelBadge(result: ScanResult): void {
 }
 
 function printPillarSummary(result: ScanResult): void {
-  console.log(chalk.bold(t('output.pillarSummary')));
+  console.log(chalk.bold(t('output.pillarSummary')) + rootOnlyLabel(result));
   console.log(chalk.dim('─'.repeat(50)));
 
   const pillars = Object.values(result.pillars).filter((p) => p.checks_total > 0);
@@ -147,7 +173,7 @@ function printPillarSummary(result: ScanResult): void {
 }
 
 function printLevelBreakdown(result: ScanResult): void {
-  console.log(chalk.bold(t('output.levelBreakdown')));
+  console.log(chalk.bold(t('output.levelBreakdown')) + rootOnlyLabel(result));
   console.log(chalk.dim('─'.repeat(50)));
 
   const levels = LEVELS;
@@ -169,6 +195,41 @@ function printLevelBreakdown(result: ScanResult): void {
   console.log('');
 }
 
+function printChanges(result: ScanResult): void {
+  const changes = result.changes!;
+  console.log(chalk.bold(t('output.changesSince', { ref: changes.since })));
+  console.log(chalk.dim('─'.repeat(50)));
+  console.log(
+    chalk.dim(
+      `  ${t('output.changesSummary', { files: changes.files.length, checks: changes.touched_checks.length })}`
+    )
+  );
+
+  for (const check of result.check_results.filter((r) => r.touched)) {
+    const status = check.passed ? chalk.green('✓') : chalk.red('✗');
+    const levelColor = LEVEL_COLORS[check.level];
+    console.log(
+      `  ${status} ${levelColor(check.level)} ${check.check_id} ${chalk.dim(check.message)}`
+    );
+  }
+
+  for (const app of result.apps ?? []) {
+    const failed = new Set(app.failed_checks?.map((r) => r.check_id));
+    for (const checkId of app.touched_checks ?? []) {
+      const status = failed.has(checkId) ? chalk.red('✗') : chalk.green('✓');
+      console.log(`  ${status} ${app.name}: ${checkId}`);
+    }
+  }
+
+  if (changes.unchanged_apps?.length) {
+    console.log(
+      chalk.dim(`  ${t('output.unchangedApps', { apps: changes.unchanged_apps.join(', ') })}`)
+    );
+  }
+
+  console.log('');
+}
+
 function printActionItems(result: ScanResult, verbose: boolean): void {
   console.log(chalk.bold(t('output.actionItems')));
   console.log(chalk.dim('─'.repeat(50)));
@@ -206,16 +267,71 @@ function printMonorepoApps(result: ScanResult): void {
       const level = app.level || '-';
       const colorFn = app.level ? LEVEL_COLORS[app.level] : chalk.gray;
 
+      const types = app.project_type?.types.map((t) => t.type).join(', ');
+      const inherited = Object.keys(app.inherited_checks ?? {}).length;
       console.log(
         `  ${app.name.padEnd(20)} ${colorFn(level.padEnd(4))} ${app.score}% ` +
-          chalk.dim(`(${app.checks_passed}/${app.checks_total})`)
+          chalk.dim(`(${app.checks_passed}/${app.checks_total})`) +
+          (types ? chalk.dim(` ${types}`) : '') +
+          (inherited ? chalk.dim(` · ${t('output.inheritedChecks', { count: inherited })}`) : '')
       );
+      printWaiverLines(app.waived_checks ?? [], app.expired_waivers ?? [], '    ');
     }
   }
 
+  if (result.rollup && result.rollup.policy !== 'root') {
+    const { policy, root_level, root_score } = result.rollup;
+    console.log(
+      chalk.dim(
+        `  ${t('output.monorepoRollup', { policy, level: root_level ?? '-', score: root_score })}`
+      )
+    );
+    if (result.rollup.errored_apps) {
+      console.log(
+        chalk.yellow(
+          `  ${t('output.erroredApps', { apps: result.rollup.errored_apps.join(', ') })}`
+        )
+      );
+    }
+  } else if (result.rollup?.partial) {
+    console.log(chalk.dim(`  ${t('output.partialRollup')}`));
+  }
+
+  console.log('');
+}
+
+function printWaivers(result: ScanResult): void {
+  console.log(chalk.bold(t('output.waivedChecks')));
+  console.log(chalk.dim('─'.repeat(50)));
+  printWaiverLines(result.waived_checks ?? [], result.expired_waivers ?? [], '  ');
   console.log('');
 }
 
+// Waived checks and ignored expired waivers, of the root or of a monorepo app
+function printWaiverLines(waived: WaivedCheckResult[], expired: Waiver[], indent: string): void {
+  for (const check of waived) {
+    const status = check.passed ? chalk.green('✓') : chalk.yellow('~');
+    const { owner, expires, reason } = check.waiver;
+    console.log(
+      `${indent}${status} ${check.check_id} ${chalk.dim(t('output.waiverEntry', { owner, expires, reason }))}`
+    );
+  }
+
+  if (expired.length > 0) {
+    const checks = expired.map((w) => w.check).join(', ');
+    console.log(
+      chalk.red(`${indent}${t('output.expiredWaivers', { count: expired.length, checks })}`)
+    );
+  }
+}
+
+// Pillars and levels describe the root alone when the headline is rolled up
+function rootOnlyLabel(result: ScanResult): string {
+  return result.rollup && result.rollup.policy !== 'root'
+    ? chalk.dim(` ${t('output.rootOnly')}`)
+    : '';
+}
+
 function getNextLevel(current: Level): Level | null {
   const levels = LEVELS;
   const index = levels.indexOf(current);
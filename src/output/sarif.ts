@@ -0,0 +1,275 @@
+/**
+ * SARIF output formatter
+ *
+ * Writes failed checks as a SARIF 2.1.0 log (readiness.sarif) for upload
+ * to code-scanning dashboards
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { ActionPriority, CheckConfig, CheckResult, ScanResult } from '../types.js';
+import { writeFile } from '../utils/fs.js';
+import { isBuiltinCheck } from '../checks/registry.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SARIF_VERSION = '2.1.0';
+
+// Tool version and link come from package.json, so forks and renames report their own
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const packageJson = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf-8')
+) as { version: string; homepage?: string; repository?: string | { url?: string } };
+const INFORMATION_URI = getInformationUri(packageJson);
+
+// Base URI id for artifact paths relative to the scanned repository root
+const SRC_ROOT = '%SRCROOT%';
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region?: { startLine: number };
+  };
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  properties: Record<string, unknown>;
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations?: SarifLocation[];
+  properties: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: typeof SARIF_VERSION;
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri?: string;
+        rules: SarifRule[];
+      };
+    };
+    originalUriBaseIds: Record<string, { description: { text: string } }>;
+    results: SarifResult[];
+    properties: Record<string, unknown>;
+  }[];
+}
+
+// Action priority -> SARIF result level
+const PRIORITY_LEVELS: Record<ActionPriority, SarifLevel> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+};
+
+/**
+ * Build a SARIF log from scan results
+ *
+ * @param checks - Check definitions that were run, used for rule metadata
+ */
+export function formatSarif(result: ScanResult, checks: CheckConfig[]): SarifLog {
+  const checksById = new Map(checks.map((check) => [check.id, check]));
+  const rules = checks.map(toRule);
+  const ruleIndex = new Map(rules.map((rule, i) => [rule.id, i]));
+  const actions = new Map(result.action_items.map((item) => [item.check_id, item]));
+
+  const results: SarifResult[] = [];
+  for (const failed of result.failed_checks) {
+    // Checks without a definition (e.g. from a stale profile) still get a rule
+    if (!ruleIndex.has(failed.check_id)) {
+      ruleIndex.set(failed.check_id, rules.length);
+      rules.push(toRuleFromResult(failed));
+    }
+
+    const action = actions.get(failed.check_id);
+    const fix = failed.suggestions?.[0];
+    const base = {
+      ruleId: failed.check_id,
+      ruleIndex: ruleIndex.get(failed.check_id)!,
+      level: action ? PRIORITY_LEVELS[action.priority] : failed.required ? 'error' : 'warning',
+      properties: {
+        pillar: failed.pillar,
+        level: failed.level,
+        required: failed.required,
+        priority: action?.priority,
+        fix,
+      },
+    } as const;
+
+    // Checks that found problems on specific lines get one result per line
+    if (failed.locations && failed.locations.length > 0) {
+      for (const location of failed.locations) {
+        results.push({
+          ...base,
+          message: { text: location.message ?? failed.message },
+          locations: [toLocation(location.path, location.line)],
+        });
+      }
+      continue;
+    }
+
+    // Findings with no file to point at stay repository-level: SARIF allows results without locations
+    const paths = getLocationPaths(failed, checksById.get(failed.check_id));
+    results.push({
+      ...base,
+      message: { text: fix ? `${failed.message}. Fix: ${fix}` : failed.message },
+      ...(paths.length > 0 && { locations: paths.map((uri) => toLocation(uri)) }),
+    });
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'agent-ready',
+            version: packageJson.version,
+            ...(INFORMATION_URI && { informationUri: INFORMATION_URI }),
+            rules,
+          },
+        },
+        originalUriBaseIds: {
+          [SRC_ROOT]: { description: { text: 'Root of the scanned repository' } },
+        },
+        results,
+        properties: {
+          repo: result.repo,
+          commit: result.commit,
+          profile: result.profile,
+          profile_version: result.profile_version,
+          level: result.level,
+          overall_score: result.overall_score,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Project link from package.json: homepage, else the repository URL
+ * ('git+https://host/org/repo.git' -> 'https://host/org/repo')
+ */
+export function getInformationUri(manifest: {
+  homepage?: string;
+  repository?: string | { url?: string };
+}): string | undefined {
+  if (manifest.homepage) return manifest.homepage;
+  const url =
+    typeof manifest.repository === 'string' ? manifest.repository : manifest.repository?.url;
+  if (!url || !/^(git\+)?https?:\/\//.test(url)) return undefined;
+  return url.replace(/^git\+/, '').replace(/\.git$/, '');
+}
+
+/**
+ * Write scan results to a SARIF file
+ */
+export async function outputSarif(
+  result: ScanResult,
+  checks: CheckConfig[],
+  outputPath: string
+): Promise<void> {
+  await writeFile(outputPath, JSON.stringify(formatSarif(result, checks), null, 2));
+}
+
+/**
+ * Build rule metadata from a profile check definition
+ */
+function toRule(check: CheckConfig): SarifRule {
+  return {
+    id: check.id,
+    name: check.name,
+    shortDescription: { text: check.name },
+    fullDescription: { text: check.description || check.name },
+    properties: {
+      pillar: check.pillar,
+      level: check.level,
+      required: check.required,
+      weight: check.weight ?? 1,
+      tags: ['agent-readiness', check.pillar, ...(check.tags ?? [])],
+    },
+  };
+}
+
+function toRuleFromResult(result: CheckResult): SarifRule {
+  return {
+    id: result.check_id,
+    name: result.check_name,
+    shortDescription: { text: result.check_name },
+    fullDescription: { text: result.check_name },
+    properties: {
+      pillar: result.pillar,
+      level: result.level,
+      required: result.required,
+      tags: ['agent-readiness', result.pillar],
+    },
+  };
+}
+
+function toLocation(uri: string, line?: number): SarifLocation {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri, uriBaseId: SRC_ROOT },
+      ...(line !== undefined && { region: { startLine: line } }),
+    },
+  };
+}
+
+/**
+ * Pick the files a finding points at
+ *
+ * Files the check matched come first; otherwise the file the check expects.
+ * Directories and glob patterns are never returned, since code scanning only
+ * annotates files.
+ */
+function getLocationPaths(result: CheckResult, check: CheckConfig | undefined): string[] {
+  if (result.matched_files && result.matched_files.length > 0) {
+    return result.matched_files;
+  }
+
+  const expected = check ? getExpectedPath(check) : undefined;
+  return expected ? [expected] : [];
+}
+
+function getExpectedPath(check: CheckConfig): string | undefined {
+  if (!isBuiltinCheck(check)) return undefined;
+
+  switch (check.type) {
+    case 'file_exists':
+    case 'git_freshness':
+    case 'structured_match':
+    case 'markdown_sections':
+      return check.path;
+    case 'any_of':
+    case 'all_of':
+      for (const nested of check.checks) {
+        const expected = getExpectedPath(nested);
+        if (expected) return expected;
+      }
+      return undefined;
+    case 'path_glob':
+    case 'docs_links':
+      // A pattern without wildcards names a single file
+      return /[*?[{]/.test(check.pattern) ? undefined : check.pattern;
+    case 'build_command_detect':
+      return check.files?.[0];
+    default:
+      return undefined;
+  }
+}
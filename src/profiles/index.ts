@@ -1,14 +1,17 @@
 /**
  * Profile loader
  *
- * Loads check profiles from YAML files
+ * Loads check profiles from YAML files, resolves profile inheritance
+ * (`extends` with `remove`, `override` and `add` sections) and loads the
+ * check plugins a profile declares
  */
 
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import type { Profile } from '../types.js';
-import { loadProfile as loadProfileYaml } from '../utils/yaml.js';
-import { fileExists } from '../utils/fs.js';
+import type { CheckSource, Profile } from '../types.js';
+import { parseRawProfile, validateChecks, type RawCheck } from '../utils/yaml.js';
+import { fileExists, readFile } from '../utils/fs.js';
+import { loadCheckPlugins, resolvePluginSpecifier } from '../checks/plugins.js';
 
 // Get the directory of this module
 const __filename = fileURLToPath(import.meta.url);
@@ -20,13 +23,70 @@ const PROFILES_DIR = path.resolve(__dirname, '../../profiles');
 // Built-in profile names
 const BUILTIN_PROFILES = ['factory_compat'];
 
+// Profile with inheritance applied but checks not yet validated
+interface ResolvedProfile {
+  name: string;
+  version: string;
+  description: string;
+  checks: RawCheck[];
+  extends: string[];
+  sources: Record<string, CheckSource>;
+  plugins: string[];
+}
+
+export interface LoadProfileOptions {
+  /**
+   * Import the check plugins the profile declares. Plugins run code from
+   * the profile's directory, which may be the scanned repository itself.
+   */
+  allowPlugins?: boolean;
+}
+
 /**
  * Load a profile by name or path
+ *
+ * Relative paths are resolved against the current working directory. A
+ * profile that declares plugins is rejected unless `allowPlugins` is set.
  */
-export async function loadProfile(nameOrPath: string): Promise<Profile> {
+export async function loadProfile(
+  nameOrPath: string,
+  options: LoadProfileOptions = {}
+): Promise<Profile> {
+  const profilePath = await findProfile(nameOrPath, process.cwd());
+  const resolved = await resolveProfile(profilePath, []);
+  const inherited = resolved.extends.length > 0;
+
+  if (resolved.plugins.length > 0 && !options.allowPlugins) {
+    throw new Error(
+      `Profile '${resolved.name}' declares check plugins (${resolved.plugins.join(', ')}); ` +
+        'plugins run code from the profile, pass --allow-plugins (allowPlugins: true) to load them'
+    );
+  }
+
+  // Plugins must register their check types before checks are validated
+  await loadCheckPlugins(resolved.plugins);
+
+  return {
+    name: resolved.name,
+    version: resolved.version,
+    description: resolved.description,
+    checks: validateChecks(resolved.checks),
+    extends: inherited ? resolved.extends : undefined,
+    check_sources: inherited ? resolved.sources : undefined,
+    plugins: resolved.plugins.length > 0 ? resolved.plugins : undefined,
+  };
+}
+
+/**
+ * Find the file for a profile name or path
+ *
+ * Paths (containing a separator or a .yaml/.yml extension) are resolved
+ * against baseDir; names are looked up in the built-in profiles directory.
+ */
+async function findProfile(nameOrPath: string, baseDir: string): Promise<string> {
   // Check if it's a path to a file
-  if (nameOrPath.includes('/') || nameOrPath.includes('\\')) {
-    return loadProfileYaml(nameOrPath);
+  if (nameOrPath.includes('/') || nameOrPath.includes('\\') || /\.ya?ml$/.test(nameOrPath)) {
+    return path.resolve(baseDir, nameOrPath);
   }
 
   // Check if it's a built-in profile
@@ -37,23 +97,114 @@ export async function loadProfile(nameOrPath: string): Promise<Profile> {
       throw new Error(`Built-in profile not found: ${nameOrPath}`);
     }
 
-    return loadProfileYaml(profilePath);
+    return profilePath;
   }
 
   // Try to find it as a YAML file in profiles directory
   const yamlPath = path.join(PROFILES_DIR, `${nameOrPath}.yaml`);
   if (await fileExists(yamlPath)) {
-    return loadProfileYaml(yamlPath);
+    return yamlPath;
   }
 
   const ymlPath = path.join(PROFILES_DIR, `${nameOrPath}.yml`);
   if (await fileExists(ymlPath)) {
-    return loadProfileYaml(ymlPath);
+    return ymlPath;
   }
 
   throw new Error(`Profile not found: ${nameOrPath}`);
 }
 
+/**
+ * Load a profile file and recursively apply its base profiles
+ *
+ * @param profilePath - Absolute path of the profile file
+ * @param chain - Files already being resolved, used to detect cycles
+ */
+async function resolveProfile(profilePath: string, chain: string[]): Promise<ResolvedProfile> {
+  if (chain.includes(profilePath)) {
+    const cycle = [...chain, profilePath].map((p) => path.basename(p)).join(' -> ');
+    throw new Error(`Profile inheritance cycle detected: ${cycle}`);
+  }
+
+  const content = await readFile(profilePath);
+  if (!content) {
+    throw new Error(`Profile not found: ${profilePath}`);
+  }
+
+  const raw = parseRawProfile(content);
+  const plugins = (raw.plugins ?? []).map((p) =>
+    resolvePluginSpecifier(p, path.dirname(profilePath))
+  );
+
+  // Flat profile: the end of the inheritance chain
+  if (raw.extends === undefined) {
+    if (!Array.isArray(raw.checks)) {
+      throw new Error('Invalid profile: checks must be an array');
+    }
+
+    return {
+      name: raw.name,
+      version: raw.version || '1.0.0',
+      description: raw.description || '',
+      checks: raw.checks,
+      extends: [],
+      sources: Object.fromEntries(raw.checks.map((c) => [c.id, { profile: raw.name }])),
+      plugins,
+    };
+  }
+
+  const basePath = await findProfile(raw.extends, path.dirname(profilePath));
+  const base = await resolveProfile(basePath, [...chain, profilePath]);
+
+  let checks = [...base.checks];
+  const sources = { ...base.sources };
+  const hasCheck = (id: string) => checks.some((c) => c.id === id);
+
+  for (const id of raw.remove ?? []) {
+    if (!hasCheck(id)) {
+      throw new Error(`Profile '${raw.name}' removes unknown check '${id}' from '${base.name}'`);
+    }
+    checks = checks.filter((c) => c.id !== id);
+    delete sources[id];
+  }
+
+  for (const [id, patch] of Object.entries(raw.override ?? {})) {
+    if (!hasCheck(id)) {
+      throw new Error(`Profile '${raw.name}' overrides unknown check '${id}' from '${base.name}'`);
+    }
+    if (patch.id !== undefined && patch.id !== id) {
+      throw new Error(`Profile '${raw.name}' cannot change the id of check '${id}'`);
+    }
+    checks = checks.map((c) => (c.id === id ? { ...c, ...patch } : c));
+    sources[id] = {
+      ...sources[id],
+      overridden_by: [...(sources[id].overridden_by ?? []), raw.name],
+    };
+  }
+
+  for (const check of raw.add ?? []) {
+    if (check.id && hasCheck(check.id)) {
+      throw new Error(
+        `Profile '${raw.name}' adds check '${check.id}' that already exists in '${base.name}'; use 'override' instead`
+      );
+    }
+    checks.push(check);
+    if (check.id) {
+      sources[check.id] = { profile: raw.name };
+    }
+  }
+
+  return {
+    name: raw.name,
+    version: raw.version || '1.0.0',
+    description: raw.description || '',
+    checks,
+    extends: [base.name, ...base.extends],
+    sources,
+    plugins: [...base.plugins, ...plugins.filter((p) => !base.plugins.includes(p))],
+  };
+}
+
 /**
  * Load the default profile
  */
@@ -12,54 +12,164 @@ import type {
   ActionPriority,
   CheckResult,
   CheckConfig,
+  Level,
   MonorepoApp,
+  MonorepoRollup,
   ScanContext,
+  Profile,
+  RepoConfig,
+  SkippedCheck,
+  SkipReason,
 } from './types.js';
 import { loadProfile } from './profiles/index.js';
-import { buildScanContext } from './engine/context.js';
+import { loadRepoConfig, applyCheckOverrides, applyWaivers } from './config/index.js';
+import { buildScanContext, type ScanContextOptions } from './engine/context.js';
+import { createAppLayers, createGitFileSystem, loadGitTree, scopeFileSystem } from './vfs/index.js';
 import {
   calculateLevelSummaries,
   determineAchievedLevel,
   calculateProgressToNext,
   calculatePillarSummaries,
   calculateOverallScore,
+  calculateScoreContributions,
+  rollupLevels,
 } from './engine/level-gate.js';
 import { executeChecks } from './checks/index.js';
+import {
+  executeChecksWithCache,
+  hashProfile,
+  openScanCache,
+  saveScanCache,
+  type ScanCache,
+} from './cache/index.js';
+import { getChangedFiles, hasUncommittedChanges } from './utils/git.js';
+import { filesUnder, markTouched } from './engine/changes.js';
 import { isApplicableToProjectType, getProjectTypeDescription } from './engine/project-type.js';
 
 /**
  * Run a full scan on a repository
  */
 export async function scan(options: ScanOptions): Promise<ScanResult> {
-  // Load profile
-  const profile = await loadProfile(options.profile);
+  return (await scanWithChecks(options)).result;
+}
+
+/**
+ * Run a full scan and also return the root profile's check definitions
+ * (with config overrides applied), for outputs that describe every rule
+ */
+export async function scanWithChecks(
+  options: ScanOptions
+): Promise<{ result: ScanResult; checks: CheckConfig[] }> {
+  if (options.ref && options.fs) {
+    throw new Error(
+      "Cannot scan a git ref with a custom file system ('ref' and 'fs' are exclusive)"
+    );
+  }
+
+  // Load repository config and profile (from the working copy, even for --ref)
+  const config = options.config ?? (await loadRepoConfig(options.path, options.fs));
+  const profile = await loadProfile(options.profile, { allowPlugins: options.allowPlugins });
+  const checks = applyCheckOverrides(profile.checks, config);
+
+  if (!options.ref) {
+    return { result: await scanRepository(options, config, profile, { fs: options.fs }), checks };
+  }
+
+  // Read repository files from the git object database
+  const tree = loadGitTree(options.path, options.ref);
+  if (options.verbose) {
+    console.log(`Scanning ref ${options.ref} (${tree.sha})`);
+  }
+
+  const result = await scanRepository(options, config, profile, {
+    fs: createGitFileSystem(tree),
+    git_ref: { ref: tree.ref, sha: tree.sha, committed_at: tree.committed_at },
+  });
+  return { result: { ...result, ref: options.ref }, checks };
+}
 
+/**
+ * Scan the repository at options.path with a loaded config and profile
+ */
+async function scanRepository(
+  options: ScanOptions,
+  config: RepoConfig,
+  profile: Profile,
+  contextOptions: ScanContextOptions
+): Promise<ScanResult> {
   // Build scan context
-  const context = await buildScanContext(options.path);
+  const context = await buildScanContext(options.path, {
+    ...contextOptions,
+    exclude: config.exclude,
+    project_types: config.project_types,
+  });
+
+  if (options.verbose) {
+    const { files, directories, duration_ms } = context.file_index;
+    console.log(`Indexed ${files} files (${directories} directories) in ${duration_ms}ms`);
+  }
+
+  // Apply config overrides (disable, re-level, required/weight)
+  let checksToRun = applyCheckOverrides(profile.checks, config);
+
+  if (options.verbose && config.path) {
+    console.log(`Using config: ${config.path}`);
+  }
+
+  const skippedChecks: SkippedCheck[] = [];
 
   // Filter checks by level if specified
-  let checksToRun = profile.checks;
   if (options.level) {
-    const levelValue = parseInt(options.level.substring(1), 10);
-    checksToRun = profile.checks.filter((check) => {
-      const checkLevel = parseInt(check.level.substring(1), 10);
-      return checkLevel <= levelValue;
-    });
+    const filtered = filterChecksByLevel(checksToRun, options.level);
+    skippedChecks.push(...toSkippedChecks(checksToRun, filtered, 'level'));
+    checksToRun = filtered;
   }
 
   // Filter checks by project type
-  const projectType = context.project_type.type;
-  const checksBeforeFilter = checksToRun.length;
+  const projectTypes = context.project_type.types.map((t) => t.type);
+  const checksBeforeFilter = checksToRun;
   checksToRun = filterChecksByProjectType(checksToRun, context);
-  const checksSkipped = checksBeforeFilter - checksToRun.length;
+  skippedChecks.push(...toSkippedChecks(checksBeforeFilter, checksToRun, 'project_type'));
+  const checksSkipped = checksBeforeFilter.length - checksToRun.length;
 
   if (options.verbose && checksSkipped > 0) {
-    console.log(`Project type: ${getProjectTypeDescription(projectType)} (${projectType})`);
+    for (const type of projectTypes) {
+      console.log(`Project type: ${getProjectTypeDescription(type)} (${type})`);
+    }
     console.log(`Skipped ${checksSkipped} checks not applicable to this project type`);
   }
 
-  // Execute all checks
-  const results = await executeChecks(checksToRun, context);
+  // Results of unchanged checks come from the cache; a ref is always clean
+  let cache: ScanCache | undefined;
+  if (options.cache && !options.fs && context.commit_sha !== 'unknown') {
+    const clean = context.git_ref !== undefined || !hasUncommittedChanges(options.path);
+    cache = await openScanCache(
+      options.path,
+      context.commit_sha,
+      hashProfile(profile, config.exclude),
+      clean
+    );
+  }
+
+  // Execute all checks, setting aside results covered by an active waiver
+  const checkResults = withSourceProfiles(await runChecks(checksToRun, context, cache), profile);
+  const waivers = applyWaivers(checkResults, config.waivers);
+  let results = calculateScoreContributions(waivers.scored);
+
+  // Flag what a pull request touched
+  const changed = options.changedSince
+    ? getChangedFiles(options.path, options.changedSince, options.ref)
+    : undefined;
+  if (changed) {
+    results = markTouched(results, checksToRun, changed.files);
+    if (options.verbose) {
+      console.log(`${changed.files.length} files changed since ${options.changedSince}`);
+    }
+  }
+
+  if (options.verbose && waivers.expired.length > 0) {
+    console.log(`Ignoring ${waivers.expired.length} expired waiver(s)`);
+  }
 
   // Calculate summaries
   const levelSummaries = calculateLevelSummaries(results);
@@ -74,10 +184,67 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
   // Generate action items
   const actionItems = generateActionItems(failedChecks, checksToRun);
 
-  // Scan monorepo apps if applicable
+  // Scan monorepo apps if applicable, each with its own profile and project type
   let apps: MonorepoApp[] | undefined;
+  let rollup: MonorepoRollup | undefined;
+  let level = achievedLevel;
+  let score = overallScore;
+  let progress = progressToNext;
+  let unchangedApps: string[] | undefined;
   if (context.is_monorepo && context.monorepo_apps.length > 0) {
-    apps = await scanMonorepoApps(context.monorepo_apps, options, checksToRun);
+    // With --changed-since, only apps containing changed files
+    let appPaths = context.monorepo_apps;
+    if (changed) {
+      appPaths = appPaths.filter((app) => filesUnder(changed.files, app).length > 0);
+      unchangedApps = context.monorepo_apps.filter((app) => !appPaths.includes(app));
+    }
+    apps = await scanMonorepoApps(
+      context,
+      appPaths,
+      options,
+      config,
+      profile,
+      cache,
+      changed?.files
+    );
+
+    // Rolling up only the changed apps would misstate the repository (and let a
+    // pull request pass or fail the level gate on a subset), so fall back to the root
+    const configured = config.monorepo?.rollup ?? 'root';
+    const partial = configured !== 'root' && !!unchangedApps?.length;
+    const policy = partial ? 'root' : configured;
+    // An app that failed to scan has no level: leave it out rather than zero the headline
+    const errored = apps.filter((app) => app.error).map((app) => app.path);
+    const headline = rollupLevels(
+      policy,
+      { level: achievedLevel, score: overallScore, progress_to_next: progressToNext, weight: 1 },
+      apps
+        .filter((app) => !app.error)
+        .map((app) => ({
+          level: app.level,
+          score: app.score,
+          progress_to_next: app.progress_to_next ?? 0,
+          weight: config.monorepo?.apps[app.path]?.weight ?? 1,
+        }))
+    );
+    rollup = {
+      policy,
+      root_level: achievedLevel,
+      root_score: overallScore,
+      root_progress_to_next: progressToNext,
+      ...(partial && { partial }),
+      ...(policy !== 'root' && errored.length > 0 && { errored_apps: errored }),
+    };
+    level = headline.level;
+    score = headline.score;
+    progress = headline.progress_to_next;
+  }
+
+  if (cache) {
+    await saveScanCache(cache);
+    if (options.verbose) {
+      console.log(`Reused ${cache.hits} cached check results, ran ${cache.misses}`);
+    }
   }
 
   return {
@@ -86,9 +253,9 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
     timestamp: new Date().toISOString(),
     profile: profile.name,
     profile_version: profile.version,
-    level: achievedLevel,
-    progress_to_next: progressToNext,
-    overall_score: overallScore,
+    level,
+    progress_to_next: progress,
+    overall_score: score,
     pillars: pillarSummaries,
     levels: levelSummaries,
     check_results: results,
@@ -96,11 +263,70 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
     action_items: actionItems,
     is_monorepo: context.is_monorepo,
     apps,
+    rollup,
     project_type: context.project_type,
     checks_skipped_by_type: checksSkipped,
+    waived_checks: waivers.waived,
+    expired_waivers: waivers.expired,
+    skipped_checks: skippedChecks,
+    ...(changed && {
+      changes: {
+        since: options.changedSince!,
+        base: changed.base,
+        files: changed.files,
+        touched_checks: results.filter((r) => r.touched).map((r) => r.check_id),
+        ...(unchangedApps && { unchanged_apps: unchangedApps }),
+      },
+    }),
   };
 }
 
+/**
+ * Execute checks, through the cache when one is open
+ */
+function runChecks(
+  checks: CheckConfig[],
+  context: ScanContext,
+  cache: ScanCache | undefined,
+  scope?: string
+): Promise<CheckResult[]> {
+  return cache
+    ? executeChecksWithCache(checks, context, cache, scope)
+    : executeChecks(checks, context);
+}
+
+/**
+ * Describe the checks a filter removed
+ */
+function toSkippedChecks(
+  before: CheckConfig[],
+  after: CheckConfig[],
+  reason: SkipReason
+): SkippedCheck[] {
+  const kept = new Set(after);
+  return before
+    .filter((check) => !kept.has(check))
+    .map((check) => ({
+      check_id: check.id,
+      check_name: check.name,
+      pillar: check.pillar,
+      level: check.level,
+      reason,
+    }));
+}
+
+/**
+ * Record which profile each check came from when the profile uses `extends`
+ */
+function withSourceProfiles(results: CheckResult[], profile: Profile): CheckResult[] {
+  const sources = profile.check_sources;
+  if (!sources) return results;
+
+  return results.map((r) =>
+    sources[r.check_id] ? { ...r, source_profile: sources[r.check_id].profile } : r
+  );
+}
+
 /**
  * Generate prioritized action items from failed checks
  */
@@ -197,39 +423,93 @@ function getTemplateForCheck(check: CheckConfig): string | undefined {
 
 /**
  * Scan monorepo apps and aggregate results
+ *
+ * Each app gets its own context, so project type filtering follows the app
+ * rather than the root. An app's `profile`, `project_types`, `disable` and
+ * `overrides` in the monorepo config apply on top of the repository's.
+ * With changedFiles (relative to the repository root), results the changes
+ * touched are flagged.
  */
 async function scanMonorepoApps(
+  repoContext: ScanContext,
   appPaths: string[],
   options: ScanOptions,
-  checks: CheckConfig[]
+  config: RepoConfig,
+  profile: Profile,
+  cache?: ScanCache,
+  changedFiles?: string[]
 ): Promise<MonorepoApp[]> {
   const apps: MonorepoApp[] = [];
 
   for (const appPath of appPaths) {
     const fullPath = path.join(options.path, appPath);
+    const name = appPath.split('/').pop() || appPath;
+    const appConfig = config.monorepo?.apps[appPath];
 
     try {
-      const context = await buildScanContext(fullPath);
-
-      // Run checks scoped to app
-      const results = await executeChecks(checks, context);
+      const appProfile = appConfig?.profile
+        ? await loadProfile(appConfig.profile, { allowPlugins: options.allowPlugins })
+        : profile;
+
+      // Apps are read through the repository's file system (working copy, ref or archive)
+      const context = await buildScanContext(fullPath, {
+        fs: scopeFileSystem(repoContext.fs, appPath),
+        git_ref: repoContext.git_ref,
+        project_types: appConfig?.project_types,
+      });
+      // File checks fall back to root files such as .github/workflows or CODEOWNERS
+      context.layers = createAppLayers(
+        repoContext.fs,
+        appPath,
+        context.fs,
+        repoContext.monorepo_apps
+      );
+
+      let checks = applyCheckOverrides(appProfile.checks, config);
+      if (appConfig) checks = applyCheckOverrides(checks, appConfig);
+      if (options.level) checks = filterChecksByLevel(checks, options.level);
+      const applicable = filterChecksByProjectType(checks, context);
+
+      // Run checks scoped to app; waivers apply as they do at the root
+      const waivers = applyWaivers(
+        withSourceProfiles(await runChecks(applicable, context, cache, appPath), appProfile),
+        config.waivers
+      );
+      let results = calculateScoreContributions(waivers.scored);
+      if (changedFiles) results = markTouched(results, applicable, changedFiles, appPath);
+      const expired = waivers.expired.filter((waiver) =>
+        applicable.some((check) => check.id === waiver.check)
+      );
       const levelSummaries = calculateLevelSummaries(results);
-      const achievedLevel = determineAchievedLevel(levelSummaries);
-      const score = calculateOverallScore(results);
-      const passed = results.filter((r) => r.passed).length;
+      const level = determineAchievedLevel(levelSummaries);
+      const inherited = results.filter((r) => r.passed && r.layer && r.layer !== appPath);
 
       apps.push({
-        name: appPath.split('/').pop() || appPath,
+        name,
         path: appPath,
-        level: achievedLevel,
-        score,
-        checks_passed: passed,
+        ...(appProfile !== profile && { profile: appProfile.name }),
+        level,
+        score: calculateOverallScore(results),
+        checks_passed: results.filter((r) => r.passed).length,
         checks_total: results.length,
+        progress_to_next: calculateProgressToNext(level, levelSummaries),
+        project_type: context.project_type,
+        pillars: calculatePillarSummaries(results),
+        failed_checks: results.filter((r) => !r.passed),
+        checks_skipped_by_type: checks.length - applicable.length,
+        ...(changedFiles && {
+          touched_checks: results.filter((r) => r.touched).map((r) => r.check_id),
+        }),
+        ...(inherited.length > 0 && {
+          inherited_checks: Object.fromEntries(inherited.map((r) => [r.check_id, r.layer!])),
+        }),
+        ...(waivers.waived.length > 0 && { waived_checks: waivers.waived }),
+        ...(expired.length > 0 && { expired_waivers: expired }),
       });
     } catch (error) {
       // Record failed apps with error details
       apps.push({
-        name: appPath.split('/').pop() || appPath,
+        name,
         path: appPath,
         level: null,
         score: 0,
@@ -243,6 +523,14 @@ async function scanMonorepoApps(
   return apps;
 }
 
+/**
+ * Keep checks at or below a target level
+ */
+function filterChecksByLevel(checks: CheckConfig[], level: Level): CheckConfig[] {
+  const levelValue = parseInt(level.substring(1), 10);
+  return checks.filter((check) => parseInt(check.level.substring(1), 10) <= levelValue);
+}
+
 /**
  * Filter checks based on project type applicability
  *
@@ -252,7 +540,7 @@ async function scanMonorepoApps(
  * - Web services need deployment checks
  */
 function filterChecksByProjectType(checks: CheckConfig[], context: ScanContext): CheckConfig[] {
-  const projectType = context.project_type.type;
+  const projectTypes = context.project_type.types.map((t) => t.type);
 
   return checks.filter((check) => {
     // If no applicableTo specified, check applies to all
@@ -260,6 +548,6 @@ function filterChecksByProjectType(checks: CheckConfig[], context: ScanContext):
       return true;
     }
 
-    return isApplicableToProjectType(check.applicableTo, projectType);
+    return isApplicableToProjectType(check.applicableTo, projectTypes);
   });
 }
@@ -8,6 +8,15 @@ export type Level = 'L1' | 'L2' | 'L3' | 'L4' | 'L5';
 // Project types for intelligent check filtering
 export type ProjectType = 'cli' | 'web-service' | 'library' | 'webapp' | 'monorepo' | 'unknown';
 
+export const PROJECT_TYPES: ProjectType[] = [
+  'cli',
+  'web-service',
+  'library',
+  'webapp',
+  'monorepo',
+  'unknown',
+];
+
 export const LEVELS: Level[] = ['L1', 'L2', 'L3', 'L4', 'L5'];
 
 // Factory.ai official level names
@@ -65,13 +74,18 @@ export type CheckType =
   | 'file_exists'
   | 'path_glob'
   | 'any_of'
+  | 'all_of'
+  | 'none_of'
   | 'github_workflow_event'
   | 'github_action_present'
   | 'build_command_detect'
   | 'log_framework_detect'
   | 'dependency_detect'
   | 'git_freshness'
-  | 'command_exists';
+  | 'command_exists'
+  | 'structured_match'
+  | 'markdown_sections'
+  | 'docs_links';
 
 // Base check configuration
 export interface BaseCheckConfig {
@@ -116,6 +130,18 @@ export interface AnyOfCheck extends BaseCheckConfig {
   min_pass?: number; // Default 1
 }
 
+// all_of composite check - passes if every nested check passes
+export interface AllOfCheck extends BaseCheckConfig {
+  type: 'all_of';
+  checks: CheckConfig[];
+}
+
+// none_of composite check - passes if no nested check passes
+export interface NoneOfCheck extends BaseCheckConfig {
+  type: 'none_of';
+  checks: CheckConfig[];
+}
+
 // github_workflow_event check
 export interface GitHubWorkflowEventCheck extends BaseCheckConfig {
   type: 'github_workflow_event';
@@ -164,18 +190,32 @@ export interface CommandExistsCheck extends BaseCheckConfig {
   require_all?: boolean; // If true, all commands must exist; if false, any one is sufficient
 }
 
-// Union type for all checks
-export type CheckConfig =
+// Check of a type registered by a plugin; its own fields are the plugin's to validate
+export type PluginCheckConfig = BaseCheckConfig & {
+  type: string;
+  [key: string]: unknown;
+};
+
+// Union type for the built-in checks
+export type BuiltinCheckConfig =
   | FileExistsCheck
   | PathGlobCheck
   | AnyOfCheck
+  | AllOfCheck
+  | NoneOfCheck
   | GitHubWorkflowEventCheck
   | GitHubActionPresentCheck
   | BuildCommandDetectCheck
   | LogFrameworkDetectCheck
   | DependencyDetectCheck
   | GitFreshnessCheck
-  | CommandExistsCheck;
+  | CommandExistsCheck
+  | StructuredMatchCheck
+  | MarkdownSectionsCheck
+  | DocsLinksCheck;
+
+// Union type for all checks
+export type CheckConfig = BuiltinCheckConfig | PluginCheckConfig;
 
 // Check result
 export interface CheckResult {
@@ -189,6 +229,81 @@ export interface CheckResult {
   details?: Record<string, unknown>;
   matched_files?: string[];
   suggestions?: string[];
+  /** Lines the check found problems on, e.g. broken links */
+  locations?: CheckLocation[];
+  /** Scoring weight copied from the check config (default 1.0) */
+  weight?: number;
+  /** Share of overall_score this check accounts for, in points (0-100) */
+  score_contribution?: number;
+  /** Profile that defined the check (only for profiles using `extends`) */
+  source_profile?: string;
+  /**
+   * Directory whose files satisfied the check in a monorepo app scan, relative
+   * to the repository root ('.' for the root); matched_files are relative to it
+   */
+  layer?: string;
+  /** Set with --changed-since when a changed file is among the check's matched or target paths */
+  touched?: boolean;
+}
+
+// Position in a file a check result points at
+export interface CheckLocation {
+  path: string;
+  line?: number; // 1-based
+  message?: string;
+}
+
+// Formats parsed by structured_match
+export type StructuredFormat = 'json' | 'jsonc' | 'yaml' | 'toml';
+export const STRUCTURED_FORMATS: StructuredFormat[] = ['json', 'jsonc', 'yaml', 'toml'];
+
+// Assertion on the values at a path expression; every operator given must hold
+export interface StructuredAssertion {
+  path: string; // e.g. 'compilerOptions.strict', 'tool.pytest', 'permissions.deny[*]'
+  exists?: boolean;
+  equals?: unknown;
+  matches?: string; // Regex tested against string, number and boolean values
+  contains?: unknown; // Array element, substring or object key
+  min_length?: number; // Items, characters or keys
+}
+
+// structured_match check
+export interface StructuredMatchCheck extends BaseCheckConfig {
+  type: 'structured_match';
+  path: string;
+  format?: StructuredFormat; // Inferred from the extension by default
+  assertions: StructuredAssertion[];
+}
+
+// Section a markdown_sections check requires
+export interface MarkdownSectionRequirement {
+  heading: string | string[]; // Heading text or aliases, matched as whole words ignoring case
+  min_words?: number; // Words under the heading, including subsections, excluding code
+  code_block?: boolean; // Require a fenced code block under the heading
+}
+
+// markdown_sections check
+export interface MarkdownSectionsCheck extends BaseCheckConfig {
+  type: 'markdown_sections';
+  path: string;
+  sections?: MarkdownSectionRequirement[];
+  max_depth?: number; // Deepest heading level allowed (1-6)
+}
+
+// docs_links check - relative links and anchors in Markdown files resolve
+export interface DocsLinksCheck extends BaseCheckConfig {
+  type: 'docs_links';
+  pattern: string; // Markdown files to check, e.g. '{README.md,docs/**/*.md}'
+}
+
+// Nested check outcome, listed under `details.results` of composite checks
+export interface NestedCheckResult {
+  check_id: string;
+  passed: boolean;
+  message: string;
+  matched_files?: string[];
+  details?: Record<string, unknown>;
+  layer?: string;
 }
 
 // Profile definition
@@ -197,6 +312,18 @@ export interface Profile {
   version: string;
   description: string;
   checks: CheckConfig[];
+  /** Resolved base profiles, nearest first (only for profiles using `extends`) */
+  extends?: string[];
+  /** Where each effective check came from (only for profiles using `extends`) */
+  check_sources?: Record<string, CheckSource>;
+  /** Resolved plugin module specifiers registering custom check types */
+  plugins?: string[];
+}
+
+// Origin of a check in an inherited profile
+export interface CheckSource {
+  profile: string; // Profile that defined the check
+  overridden_by?: string[]; // Profiles that patched it via `override`, base first
 }
 
 // Pillar summary in results
@@ -207,6 +334,10 @@ export interface PillarSummary {
   score: number; // 0-100
   checks_passed: number;
   checks_total: number;
+  /** Sum of weights of passed checks (absent in pre-weighting reports) */
+  weight_passed?: number;
+  /** Sum of weights of all checks (absent in pre-weighting reports) */
+  weight_total?: number;
   failed_checks: string[];
 }
 
@@ -217,6 +348,10 @@ export interface LevelSummary {
   score: number; // 0-100
   checks_passed: number;
   checks_total: number;
+  /** Sum of weights of passed checks (absent in pre-weighting reports) */
+  weight_passed?: number;
+  /** Sum of weights of all checks (absent in pre-weighting reports) */
+  weight_total?: number;
   required_passed: number;
   required_total: number;
 }
@@ -238,13 +373,49 @@ export interface ActionItem {
 export interface MonorepoApp {
   name: string;
   path: string;
+  /** Profile used for this app when it differs from the repository's */
+  profile?: string;
   level: Level | null;
   score: number;
   checks_passed: number;
   checks_total: number;
+  // Absent when the app failed to scan
+  progress_to_next?: number;
+  project_type?: ProjectTypeInfo;
+  pillars?: Record<Pillar, PillarSummary>;
+  failed_checks?: CheckResult[];
+  checks_skipped_by_type?: number;
+  /** Checks satisfied by files above the app, by check ID, with the directory that held them */
+  inherited_checks?: Record<string, string>;
+  /** Checks of the app touched by the changes (--changed-since) */
+  touched_checks?: string[];
+  /** App checks excluded from scoring by an active waiver */
+  waived_checks?: WaivedCheckResult[];
+  /** Expired waivers for checks the app ran (ignored, so those checks are scored) */
+  expired_waivers?: Waiver[];
   error?: string; // Error message if scan failed
 }
 
+// How a monorepo's headline level and score combine the root and its apps
+export type RollupPolicy = 'root' | 'min' | 'average';
+
+export const ROLLUP_POLICIES: RollupPolicy[] = ['root', 'min', 'average'];
+
+export interface MonorepoRollup {
+  policy: RollupPolicy;
+  /** Level, score and progress of the repository root alone */
+  root_level: Level | null;
+  root_score: number;
+  root_progress_to_next: number;
+  /**
+   * Unchanged apps were not scanned (--changed-since), so the configured
+   * 'min' or 'average' policy fell back to 'root'
+   */
+  partial?: boolean;
+  /** Paths of apps that failed to scan, left out of the 'min' or 'average' rollup */
+  errored_apps?: string[];
+}
+
 // Main scan result
 export interface ScanResult {
   repo: string;
@@ -255,6 +426,8 @@ export interface ScanResult {
   level: Level | null;
   progress_to_next: number; // 0.0 - 1.0
   overall_score: number; // 0-100
+  // Pillars and levels describe the repository root; in a monorepo rolled up
+  // by 'min' or 'average' they differ from the headline level and score
   pillars: Record<Pillar, PillarSummary>;
   levels: Record<Level, LevelSummary>;
   check_results: CheckResult[];
@@ -262,19 +435,83 @@ export interface ScanResult {
   action_items: ActionItem[];
   is_monorepo: boolean;
   apps?: MonorepoApp[];
+  /** Set for monorepos with apps; `level` and `overall_score` are the rolled-up values */
+  rollup?: MonorepoRollup;
   /** Detected project type for intelligent check filtering */
   project_type: ProjectTypeInfo;
   /** Number of checks skipped due to project type filtering */
   checks_skipped_by_type: number;
+  /** Checks excluded from scoring by an active waiver in .agent-ready.yml */
+  waived_checks?: WaivedCheckResult[];
+  /** Waivers past their expiry date (their checks are scored normally) */
+  expired_waivers?: Waiver[];
+  /** Profile checks not run because of level or project type filtering */
+  skipped_checks?: SkippedCheck[];
+  /** Git ref scanned (commit is the SHA it resolved to); absent for working copy scans */
+  ref?: string;
+  /** What the changes since a ref touched; set with --changed-since */
+  changes?: ChangeSummary;
 }
 
-// Project type detection result
-export interface ProjectTypeInfo {
+// Changed files of a pull request and the checks they touch
+export interface ChangeSummary {
+  /** Ref the changes are compared with, as given */
+  since: string;
+  /** Merge base of that ref and the scanned commit */
+  base: string;
+  /** Changed files relative to the scan root */
+  files: string[];
+  /** Repository checks touched by the changes */
+  touched_checks: string[];
+  /** Monorepo apps not scanned because none of their files changed */
+  unchanged_apps?: string[];
+}
+
+// Package ecosystems of the dependency manifests read into ScanContext
+export type DependencyEcosystem =
+  | 'npm'
+  | 'pypi'
+  | 'go'
+  | 'cargo'
+  | 'rubygems'
+  | 'maven'
+  | 'composer';
+
+// Dependency declared in a manifest
+export interface Dependency {
+  name: string; // Maven and Gradle dependencies use 'groupId:artifactId'
+  ecosystem: DependencyEcosystem;
+  version?: string; // Version or specifier as written
+  dev: boolean; // Development or test-only dependency
+  source: string; // Manifest path
+}
+
+// One project type and the evidence for it
+export interface ProjectTypeMatch {
   type: ProjectType;
   confidence: 'high' | 'medium' | 'low';
   indicators: string[];
 }
 
+// Project type detection result; the top-level fields describe the primary type
+export interface ProjectTypeInfo extends ProjectTypeMatch {
+  /** Every type that applies, primary first */
+  types: ProjectTypeMatch[];
+  /** Types were set by `project_types` in .agent-ready.yml instead of detected */
+  pinned?: boolean;
+  /** Source files per language, most files first */
+  languages: LanguageShare[];
+  /** Server, frontend and CLI frameworks found in dependencies */
+  frameworks: string[];
+}
+
+export interface LanguageShare {
+  language: string;
+  files: number;
+  /** Share of all counted source files, rounded to a whole percent */
+  percent: number;
+}
+
 // Scan context (passed to checks)
 export interface ScanContext {
   root_path: string;
@@ -283,10 +520,69 @@ export interface ScanContext {
   file_cache: Map<string, string>; // path -> content
   glob_cache: Map<string, string[]>; // pattern -> matches
   package_json?: PackageJson;
+  /** Dependencies declared in package.json and other ecosystems' manifests */
+  dependencies: Dependency[];
   is_monorepo: boolean;
   monorepo_apps: string[];
   /** Detected project type for intelligent check filtering */
   project_type: ProjectTypeInfo;
+  /** Repository files; checks read through this rather than the disk */
+  fs: ScanFileSystem;
+  /** Size and build time of the file index behind `fs` */
+  file_index: FileIndexStats;
+  /** Set when scanning a git ref instead of the working copy */
+  git_ref?: GitRefInfo;
+  /**
+   * Directories a monorepo app scan reads files from: the app first, then each
+   * directory above it up to the repository root
+   */
+  layers?: ScanLayer[];
+}
+
+// Directory of a layered app scan, with its own read caches
+export interface ScanLayer {
+  /** Directory relative to the repository root ('.' for the root) */
+  path: string;
+  fs: ScanFileSystem;
+  file_cache: Map<string, string>;
+  glob_cache: Map<string, string[]>;
+}
+
+// Read-only view of the files a scan reads: the working copy, a git tree,
+// an archive or an in-memory map. Paths are relative to the scan root and
+// '/'-separated; paths escaping the root are treated as missing.
+export interface ScanFileSystem {
+  /** Whether a file or directory exists */
+  exists(relativePath: string): Promise<boolean>;
+  isDirectory(relativePath: string): Promise<boolean>;
+  /** File content, null if missing or unreadable */
+  readFile(relativePath: string): Promise<string | null>;
+  /** Files matching a glob pattern (node_modules, dist and .git excluded) */
+  glob(pattern: string): Promise<string[]>;
+  /** Names of the files and subdirectories of a directory ('' for the root) */
+  readDirectory(relativePath: string): Promise<DirectoryEntries>;
+}
+
+export interface DirectoryEntries {
+  files: string[];
+  directories: string[];
+}
+
+// Repository file index built with the scan context
+export interface FileIndexStats {
+  files: number;
+  directories: number;
+  /** Files and directories skipped by .gitignore or exclusions */
+  ignored: number;
+  duration_ms: number;
+}
+
+// Git ref a scan reads files from
+export interface GitRefInfo {
+  ref: string;
+  sha: string;
+  /** Commit date (ISO 8601); the "now" for freshness checks */
+  committed_at: string;
 }
 
 // Simplified package.json type
@@ -296,6 +592,8 @@ export interface PackageJson {
   scripts?: Record<string, string>;
   dependencies?: Record<string, string>;
   devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
   workspaces?: string[] | { packages: string[] };
   // For project type detection
   bin?: string | Record<string, string>;
@@ -308,16 +606,203 @@ export interface PackageJson {
   files?: string[];
 }
 
+// Output formats supported by the scan command
+// ('both' is json + markdown; 'sarif' and 'junit' write readiness.sarif / readiness.xml)
+export type OutputFormat = 'json' | 'markdown' | 'both' | 'sarif' | 'junit' | 'html';
+
+export const OUTPUT_FORMATS: OutputFormat[] = [
+  'json',
+  'markdown',
+  'both',
+  'sarif',
+  'junit',
+  'html',
+];
+
 // CLI options
 export interface ScanOptions {
   path: string;
   profile: string;
-  output: 'json' | 'markdown' | 'both';
+  output: OutputFormat;
   level?: Level;
   verbose: boolean;
   outputFile?: string;
+  /** Repository config; discovered at `path` when omitted */
+  config?: RepoConfig;
+  /** Commit, branch or tag to scan from the git object database */
+  ref?: string;
+  /** Files to scan instead of the directory at `path` (e.g. an archive) */
+  fs?: ScanFileSystem;
+  /** Reuse and store check results in .agent-ready/cache (ignored with `fs`) */
+  cache?: boolean;
+  /** Git ref to compare with: flag touched checks and scan only changed monorepo apps */
+  changedSince?: string;
+  /** Import check plugins declared by the profile (they run code from the profile's directory) */
+  allowPlugins?: boolean;
+}
+
+// Per-check override from .agent-ready.yml
+export interface CheckOverride {
+  level?: Level;
+  required?: boolean;
+  weight?: number;
+}
+
+// Waiver from .agent-ready.yml - excludes a check from scoring until it expires
+export interface Waiver {
+  check: string; // Check ID
+  reason: string;
+  owner: string;
+  expires: string; // YYYY-MM-DD, waiver is valid through this day (UTC)
+}
+
+// Check result excluded from scoring by a waiver
+export interface WaivedCheckResult extends CheckResult {
+  waiver: Waiver;
 }
 
+// Why a profile check was not run
+export type SkipReason = 'level' | 'project_type';
+
+// Profile check left out of a scan by filtering
+export interface SkippedCheck {
+  check_id: string;
+  check_name: string;
+  pillar: Pillar;
+  level: Level;
+  reason: SkipReason;
+}
+
+// Repository-local configuration (.agent-ready.yml at the scan root)
+export interface RepoConfig {
+  /** Path of the config file, undefined when none was found */
+  path?: string;
+  profile?: string;
+  output?: OutputFormat;
+  disable: string[];
+  /** Paths left out of the scan, in .gitignore syntax */
+  exclude: string[];
+  overrides: Record<string, CheckOverride>;
+  waivers: Waiver[];
+  /** Project types to use instead of detecting them */
+  project_types?: ProjectType[];
+  /** Monorepo app settings and level rollup */
+  monorepo?: MonorepoConfig;
+}
+
+export interface MonorepoConfig {
+  rollup: RollupPolicy;
+  /** Settings by app path, e.g. 'packages/api' */
+  apps: Record<string, AppConfig>;
+}
+
+// Settings for one monorepo app, applied on top of the repository's
+export interface AppConfig {
+  /** Profile name or path used instead of the repository's profile */
+  profile?: string;
+  project_types?: ProjectType[];
+  disable: string[];
+  overrides: Record<string, CheckOverride>;
+  /** Weight of the app in the 'average' rollup (the root weighs 1) */
+  weight: number;
+}
+
+// Scan report reduced to what `diff` compares, read from either the
+// readiness.json written by outputJson or a full ScanResult
+export interface ReportSnapshot {
+  repo?: string;
+  commit?: string;
+  timestamp?: string;
+  profile?: string;
+  level: Level | null;
+  overall_score: number;
+  pillars: Partial<Record<Pillar, { level_achieved: Level | null; score: number }>>;
+  failed_checks: string[];
+  /** Passing check IDs (unknown for reports that only list failures) */
+  passed_checks?: string[];
+}
+
+// Per-pillar change between two reports
+export interface PillarDiff {
+  pillar: Pillar;
+  before_level: Level | null;
+  after_level: Level | null;
+  before_score: number;
+  after_score: number;
+  score_delta: number;
+}
+
+// Comparison of two scan reports
+export interface ReportDiff {
+  before: ReportSnapshot;
+  after: ReportSnapshot;
+  level_change: 'up' | 'down' | 'unchanged';
+  score_delta: number;
+  pillars: PillarDiff[];
+  /** Checks failing in `after` that did not fail in `before` */
+  newly_failing: string[];
+  /** Checks failing in `before` that pass in `after` */
+  newly_passing: string[];
+  /** Level dropped, score fell or a check newly fails */
+  regression: boolean;
+}
+
+// Condition that fails a scan gated on a baseline report
+export type FailOnCondition =
+  | { type: 'regression' } // Checks that passed in the baseline now fail
+  | { type: 'new-failures' } // Any check failing now that did not fail in the baseline
+  | { type: 'level-drop' }
+  | { type: 'score-drop'; threshold: number }; // Score fell by more than threshold points
+
+// A fail-on condition that was met
+export interface FailOnViolation {
+  condition: FailOnCondition;
+  /** Offending check IDs (regression / new-failures) */
+  checks?: string[];
+}
+
+// Output formats supported by the diff command
+export type DiffFormat = 'terminal' | 'markdown' | 'json';
+
+export const DIFF_FORMATS: DiffFormat[] = ['terminal', 'markdown', 'json'];
+
+// Sampling interval for the history command
+export type HistoryInterval =
+  | { type: 'commits'; count: number } // Every nth commit
+  | { type: 'weeks'; count: number }; // Last commit of each n-week window
+
+// A commit sampled by the history command
+export interface HistoryCommit {
+  sha: string;
+  /** Commit date (ISO 8601) */
+  committed_at: string;
+}
+
+// Scan summary of one commit in a history time series
+export interface HistoryPoint extends HistoryCommit {
+  level: Level | null;
+  overall_score: number;
+  pillars: Partial<Record<Pillar, number>>;
+}
+
+export interface HistoryOptions {
+  path: string;
+  /** Profile to scan with; defaults to the repository config's, then factory_compat */
+  profile?: string;
+  level?: Level;
+  verbose: boolean;
+  /** Only consider commits after this date (any format `git log --since` accepts) */
+  since?: string;
+  every: HistoryInterval;
+  /** Import check plugins declared by the profile */
+  allowPlugins?: boolean;
+}
+
+// Output formats supported by the history command
+export type HistoryFormat = 'terminal' | 'csv' | 'json';
+
+export const HISTORY_FORMATS: HistoryFormat[] = ['terminal', 'csv', 'json'];
+
 export interface InitOptions {
   path: string;
   level?: Level;
@@ -327,12 +812,25 @@ export interface InitOptions {
   interactive: boolean;
 }
 
-// Check executor interface
+// Check executor interface (also the contract for plugin check types)
 export interface CheckExecutor {
-  type: CheckType;
+  /** Check type handled, e.g. 'file_exists' or a plugin type like 'acme_license_header' */
+  type: string;
+  /**
+   * Validate a check's raw profile fields; throw an Error to reject it.
+   * Called at profile load time for plugin check types.
+   */
+  validate?(check: Record<string, unknown>): void;
   execute(check: CheckConfig, context: ScanContext): Promise<CheckResult>;
 }
 
+// Plugin module contract: the module's default export
+export interface CheckPlugin {
+  name: string;
+  executors: CheckExecutor[];
+}
+
 // Level gating constants
 // Factory.ai spec: 80% of checks must pass per level to achieve that level
+// (measured on check weights, so unweighted profiles behave exactly as before)
 export const PASSING_THRESHOLD = 0.8;
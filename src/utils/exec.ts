@@ -5,6 +5,9 @@
 import { execFileSync, type ExecFileSyncOptions } from 'node:child_process';
 import { logger } from './logger.js';
 
+// File listings and logs of large repositories exceed the 1 MiB default buffer
+export const MAX_OUTPUT_BYTES = 256 * 1024 * 1024;
+
 export interface ExecResult {
   stdout: string;
   success: boolean;
@@ -34,6 +37,10 @@ export function execSafe(
 /**
  * Execute git command safely
  */
-export function gitExec(args: string[], repoPath: string): ExecResult {
-  return execSafe('git', args, { cwd: repoPath });
+export function gitExec(
+  args: string[],
+  repoPath: string,
+  options?: ExecFileSyncOptions
+): ExecResult {
+  return execSafe('git', args, { ...options, cwd: repoPath });
 }
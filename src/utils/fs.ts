@@ -7,6 +7,9 @@ import * as path from 'node:path';
 import { glob } from 'glob';
 import { logger } from './logger.js';
 
+// Directories never searched by findFiles
+export const IGNORED_DIRS = ['**/node_modules/**', '**/dist/**', '**/.git/**'];
+
 /**
  * Check if a file exists
  */
@@ -59,7 +62,7 @@ export async function findFiles(pattern: string, rootPath: string): Promise<stri
       cwd: rootPath,
       nodir: true,
       dot: true,
-      ignore: ['**/node_modules/**', '**/dist/**', '**/.git/**'],
+      ignore: IGNORED_DIRS,
     });
     return matches.map((m) => path.join(rootPath, m));
   } catch (err) {
@@ -112,6 +115,26 @@ export async function listDirectories(dirPath: string): Promise<string[]> {
   }
 }
 
+/**
+ * List the files and subdirectories in a path
+ *
+ * Symbolic links are listed as files.
+ */
+export async function readDirectory(
+  dirPath: string
+): Promise<{ files: string[]; directories: string[] }> {
+  try {
+    const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    return {
+      files: entries.filter((e) => !e.isDirectory()).map((e) => e.name),
+      directories: entries.filter((e) => e.isDirectory()).map((e) => e.name),
+    };
+  } catch (err) {
+    logger.debug({ path: dirPath, err }, 'Failed to read directory');
+    return { files: [], directories: [] };
+  }
+}
+
 /**
  * Write file, creating directories if needed
  */
@@ -4,7 +4,7 @@
 
 import * as path from 'node:path';
 import { fileExists, readFile } from './fs.js';
-import { gitExec } from './exec.js';
+import { gitExec, MAX_OUTPUT_BYTES } from './exec.js';
 
 /**
  * Check if path is inside a git repository
@@ -74,6 +74,53 @@ export function hasUncommittedChanges(repoPath: string): boolean {
   return result.success && result.stdout.length > 0;
 }
 
+/**
+ * Files changed since the merge base of a ref and HEAD (or `head`)
+ *
+ * Without `head` the working copy is compared, untracked files included.
+ * Paths are relative to repoPath; files outside it are left out.
+ */
+export function getChangedFiles(
+  repoPath: string,
+  since: string,
+  head?: string
+): { base: string; files: string[] } {
+  const resolved = gitExec(['rev-parse', '--verify', '--quiet', `${since}^{commit}`], repoPath);
+  if (!resolved.success || !resolved.stdout) {
+    throw new Error(`Unknown git ref '${since}' in ${repoPath}`);
+  }
+
+  const base = gitExec(['merge-base', resolved.stdout, head ?? 'HEAD'], repoPath);
+  if (!base.success || !base.stdout) {
+    throw new Error(`No common history between '${since}' and ${head ?? 'HEAD'}`);
+  }
+
+  const diff = gitExec(
+    ['diff', '--name-only', '--relative', '-z', base.stdout, ...(head ? [head] : [])],
+    repoPath,
+    { maxBuffer: MAX_OUTPUT_BYTES }
+  );
+  if (!diff.success) {
+    throw new Error(`Failed to list files changed since '${since}'`);
+  }
+
+  const files = new Set(diff.stdout.split('\0').filter(Boolean));
+  if (!head) {
+    const untracked = gitExec(['ls-files', '--others', '--exclude-standard', '-z'], repoPath, {
+      maxBuffer: MAX_OUTPUT_BYTES,
+    });
+    if (!untracked.success) {
+      throw new Error(`Failed to list untracked files in ${repoPath}`);
+    }
+    untracked.stdout
+      .split('\0')
+      .filter(Boolean)
+      .forEach((file) => files.add(file));
+  }
+
+  return { base: base.stdout, files: [...files].sort() };
+}
+
 /**
  * Parse .gitignore patterns
  */
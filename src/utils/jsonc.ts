@@ -0,0 +1,89 @@
+/**
+ * JSON with comments
+ *
+ * Parses JSONC as used by tsconfig.json, .vscode/settings.json and
+ * devcontainer.json: JSON plus line and block comments and trailing commas.
+ */
+
+/**
+ * Parse JSON that may contain comments and trailing commas
+ *
+ * @throws SyntaxError from JSON.parse when the remaining JSON is invalid
+ */
+export function parseJsonc(content: string): unknown {
+  return JSON.parse(stripTrailingCommas(stripComments(content.replace(/^\uFEFF/, ''))));
+}
+
+/**
+ * Replace comments outside strings with whitespace (keeping line numbers)
+ */
+function stripComments(content: string): string {
+  let out = '';
+  let i = 0;
+
+  while (i < content.length) {
+    const ch = content[i];
+
+    if (ch === '"') {
+      const end = stringEnd(content, i);
+      out += content.slice(i, end);
+      i = end;
+    } else if (ch === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') i++;
+    } else if (ch === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const comment = content.slice(i, end === -1 ? content.length : end + 2);
+      out += comment.replace(/[^\n]/g, ' ');
+      i += comment.length;
+    } else {
+      out += ch;
+      i++;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Drop commas directly before a closing bracket or brace
+ */
+function stripTrailingCommas(content: string): string {
+  let out = '';
+  let i = 0;
+
+  while (i < content.length) {
+    const ch = content[i];
+
+    if (ch === '"') {
+      const end = stringEnd(content, i);
+      out += content.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (ch === ',') {
+      let next = i + 1;
+      while (/\s/.test(content[next] ?? '')) next++;
+      if (content[next] === ']' || content[next] === '}') {
+        i++;
+        continue;
+      }
+    }
+
+    out += ch;
+    i++;
+  }
+
+  return out;
+}
+
+/**
+ * Index just past the string starting at `start`
+ */
+function stringEnd(content: string, start: number): number {
+  let i = start + 1;
+  while (i < content.length && content[i] !== '"') {
+    i += content[i] === '\\' ? 2 : 1;
+  }
+  return i + 1;
+}
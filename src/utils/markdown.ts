@@ -0,0 +1,250 @@
+/**
+ * Markdown structure
+ *
+ * Splits a Markdown document into headings and the sections under them, and
+ * extracts its links and anchors. Only block structure is parsed: ATX
+ * (`## Title`) and setext (underlined) headings, fenced code blocks and YAML
+ * front matter; links are found line by line outside code.
+ */
+
+export interface MarkdownHeading {
+  /** 1 for `#`, up to 6 for `######` */
+  level: number;
+  /** Heading text with closing `#`s and surrounding whitespace removed */
+  text: string;
+  /** 1-based line number */
+  line: number;
+}
+
+export interface MarkdownSection {
+  heading: MarkdownHeading;
+  /** Lines under the heading up to the next heading of the same or a higher level */
+  body: string[];
+  /** Whether the body contains a fenced code block */
+  has_code_block: boolean;
+  /** Words in the body outside code blocks and headings */
+  word_count: number;
+}
+
+interface MarkdownLine {
+  text: string;
+  line: number;
+  /** Inside a fenced code block, or the fence itself */
+  code: boolean;
+  /** Opening fence of a code block */
+  fence: boolean;
+  heading?: MarkdownHeading;
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const WORD = /[\p{L}\p{N}]/u;
+
+/**
+ * Classify every line of a document
+ */
+function scanLines(content: string): MarkdownLine[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const result: MarkdownLine[] = [];
+  let fence: string | null = null;
+  let start = 0;
+
+  // YAML front matter is not part of the document body
+  if (lines[0] === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end !== -1) start = end + 1;
+  }
+
+  for (let i = start; i < lines.length; i++) {
+    const text = lines[i];
+    const line = i + 1;
+
+    if (fence !== null) {
+      const closing = FENCE.exec(text);
+      if (closing && closing[1][0] === fence[0] && closing[1].length >= fence.length) {
+        if (text.trim() === closing[1]) fence = null;
+      }
+      result.push({ text, line, code: true, fence: false });
+      continue;
+    }
+
+    const opening = FENCE.exec(text);
+    // Backtick fences cannot have backticks in their info string
+    if (opening && !(opening[1][0] === '`' && text.slice(opening[0].length).includes('`'))) {
+      fence = opening[1];
+      result.push({ text, line, code: true, fence: true });
+      continue;
+    }
+
+    const atx = ATX_HEADING.exec(text);
+    if (atx) {
+      const heading = { level: atx[1].length, text: (atx[2] ?? '').trim(), line };
+      result.push({ text, line, code: false, fence: false, heading });
+      continue;
+    }
+
+    // Setext heading: a paragraph line underlined with = (level 1) or - (level 2)
+    const underline = SETEXT_UNDERLINE.exec(text);
+    const previous = result[result.length - 1];
+    if (
+      underline &&
+      previous &&
+      !previous.code &&
+      !previous.heading &&
+      previous.text.trim() !== '' &&
+      !/^ {0,3}([-*+>]|\d+[.)])\s/.test(previous.text)
+    ) {
+      previous.heading = {
+        level: underline[1][0] === '=' ? 1 : 2,
+        text: previous.text.trim(),
+        line: previous.line,
+      };
+      result.push({ text, line, code: false, fence: false });
+      continue;
+    }
+
+    result.push({ text, line, code: false, fence: false });
+  }
+
+  return result;
+}
+
+/**
+ * Headings of a document in order, ignoring lines inside code blocks
+ */
+export function parseMarkdownHeadings(content: string): MarkdownHeading[] {
+  return scanLines(content).flatMap((l) => (l.heading ? [l.heading] : []));
+}
+
+/**
+ * Sections of a document, one per heading
+ *
+ * A section extends to the next heading of the same or a higher level, so it
+ * includes its subsections.
+ */
+export function parseMarkdownSections(content: string): MarkdownSection[] {
+  const lines = scanLines(content);
+  const sections: MarkdownSection[] = [];
+
+  lines.forEach((entry, i) => {
+    if (!entry.heading) return;
+    const level = entry.heading.level;
+
+    let end = i + 1;
+    while (end < lines.length && !(lines[end].heading && lines[end].heading!.level <= level)) {
+      end++;
+    }
+
+    const body = lines.slice(i + 1, end);
+    // The underline of a setext heading belongs to the heading
+    const underlined = body[0] && !body[0].code && SETEXT_UNDERLINE.test(body[0].text);
+    const own = underlined ? body.slice(1) : body;
+
+    sections.push({
+      heading: entry.heading,
+      body: own.map((l) => l.text),
+      has_code_block: own.some((l) => l.fence),
+      word_count: own
+        .filter((l) => !l.code && !l.heading)
+        .reduce((total, l) => total + countWords(l.text), 0),
+    });
+  });
+
+  return sections;
+}
+
+/**
+ * Plain text of a heading: inline code, emphasis, links and images reduced
+ * to their text, lowercased, punctuation and emoji collapsed to spaces
+ */
+export function normalizeHeading(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((token) => WORD.test(token)).length;
+}
+
+export interface MarkdownLink {
+  /** Link destination as written, without angle brackets or title */
+  target: string;
+  /** 1-based line number */
+  line: number;
+}
+
+// Destination of an inline link or image: `](target)` or `](<target> "title")`
+const INLINE_LINK =
+  /\]\(\s*(<[^>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/g;
+const REFERENCE_DEFINITION = /^ {0,3}\[[^\]]+\]:\s*(<[^>]*>|\S+)/;
+const AUTOLINK = /<((?:https?|ftp):\/\/[^>\s]+)>/g;
+const HTML_LINK = /<(?:a|img)\b[^>]*?\s(?:href|src)\s*=\s*["']([^"']*)["']/gi;
+const HTML_ANCHOR = /<[a-z][^>]*?\s(?:id|name)\s*=\s*["']([^"']+)["']/gi;
+const CODE_SPAN = /(`+)[^`][\s\S]*?\1/g;
+
+/**
+ * Links of a document: inline links and images, reference definitions,
+ * autolinks and HTML `href`/`src` attributes, outside code
+ */
+export function parseMarkdownLinks(content: string): MarkdownLink[] {
+  const links: MarkdownLink[] = [];
+
+  for (const entry of scanLines(content)) {
+    if (entry.code) continue;
+    const text = entry.text.replace(CODE_SPAN, '');
+    const add = (target: string) => {
+      const unwrapped = target.replace(/^<(.*)>$/, '$1').trim();
+      if (unwrapped) links.push({ target: unwrapped, line: entry.line });
+    };
+
+    const definition = REFERENCE_DEFINITION.exec(text);
+    if (definition) add(definition[1]);
+    for (const pattern of [INLINE_LINK, AUTOLINK, HTML_LINK]) {
+      for (const match of text.matchAll(pattern)) add(match[1]);
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Anchors a link can point at: GitHub-style heading slugs (with `-1`, `-2`
+ * suffixes for repeated headings) and HTML `id`/`name` attributes
+ */
+export function parseMarkdownAnchors(content: string): Set<string> {
+  const anchors = new Set<string>();
+  const counts = new Map<string, number>();
+
+  for (const entry of scanLines(content)) {
+    if (entry.heading) {
+      const slug = headingSlug(entry.heading.text);
+      const count = counts.get(slug) ?? 0;
+      counts.set(slug, count + 1);
+      anchors.add(count === 0 ? slug : `${slug}-${count}`);
+    }
+    if (!entry.code) {
+      for (const match of entry.text.matchAll(HTML_ANCHOR)) anchors.add(match[1].toLowerCase());
+    }
+  }
+
+  return anchors;
+}
+
+/**
+ * GitHub heading anchor: rendered text lowercased, punctuation and emoji
+ * removed, spaces turned into hyphens
+ */
+export function headingSlug(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/[`*~]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '')
+    .replace(/ /g, '-');
+}
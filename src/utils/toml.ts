@@ -0,0 +1,328 @@
+/**
+ * TOML parser
+ *
+ * Parses TOML 1.0 documents (pyproject.toml, Cargo.toml, ...) into plain
+ * objects. Dates and times are returned as strings in their source form.
+ */
+
+type TomlTable = Record<string, unknown>;
+
+const BARE_KEY = /[A-Za-z0-9_-]/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}([Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:\d{2})?)?$/;
+const LOCAL_TIME = /^\d{2}:\d{2}:\d{2}(\.\d+)?$/;
+const LINE_CONTINUATION = /\\[ \t]*\r?\n/y;
+
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  t: '\t',
+  n: '\n',
+  f: '\f',
+  r: '\r',
+  e: '\x1b',
+  '"': '"',
+  '\\': '\\',
+};
+
+/**
+ * Parse a TOML document
+ *
+ * @throws Error with the line number when the document is invalid
+ */
+export function parseToml(content: string): TomlTable {
+  const src = content.replace(/^\uFEFF/, '');
+  const root: TomlTable = {};
+  let pos = 0;
+  let current = root;
+
+  const fail = (message: string): never => {
+    const line = src.slice(0, pos).split('\n').length;
+    throw new Error(`Invalid TOML at line ${line}: ${message}`);
+  };
+
+  const peek = (offset = 0) => src[pos + offset];
+  const startsWith = (token: string) => src.startsWith(token, pos);
+
+  const skipSpaces = () => {
+    while (peek() === ' ' || peek() === '\t') pos++;
+  };
+
+  const skipComment = () => {
+    if (peek() === '#') {
+      while (pos < src.length && peek() !== '\n') pos++;
+    }
+  };
+
+  // Whitespace, newlines and comments (between statements and inside arrays)
+  const skipBlank = () => {
+    for (;;) {
+      skipSpaces();
+      skipComment();
+      if (peek() === '\n' || peek() === '\r') {
+        pos++;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const expectLineEnd = () => {
+    skipSpaces();
+    skipComment();
+    if (pos < src.length && !startsWith('\n') && !startsWith('\r\n')) {
+      fail(`unexpected '${peek()}'`);
+    }
+  };
+
+  const parseBasicString = (): string => {
+    pos++; // opening quote
+    let out = '';
+    while (peek() !== '"') {
+      if (pos >= src.length || peek() === '\n') fail('unterminated string');
+      if (peek() === '\\') {
+        out += parseEscape();
+      } else {
+        out += src[pos++];
+      }
+    }
+    pos++;
+    return out;
+  };
+
+  const parseEscape = (): string => {
+    const ch = src[pos + 1];
+    if (ch === 'u' || ch === 'U') {
+      const length = ch === 'u' ? 4 : 8;
+      const hex = src.slice(pos + 2, pos + 2 + length);
+      if (!/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length) fail('invalid unicode escape');
+      pos += 2 + length;
+      return String.fromCodePoint(parseInt(hex, 16));
+    }
+    if (!(ch in ESCAPES)) fail(`invalid escape '\\${ch}'`);
+    pos += 2;
+    return ESCAPES[ch];
+  };
+
+  const parseMultilineString = (quote: '"' | "'"): string => {
+    const delimiter = quote.repeat(3);
+    pos += 3;
+    // A newline right after the opening delimiter is trimmed
+    if (startsWith('\r\n')) pos += 2;
+    else if (startsWith('\n')) pos++;
+
+    let out = '';
+    for (;;) {
+      if (pos >= src.length) fail('unterminated multi-line string');
+      if (startsWith(delimiter)) {
+        // Up to two quotes may directly precede the closing delimiter
+        let extra = 0;
+        while (extra < 2 && src[pos + 3 + extra] === quote) extra++;
+        out += quote.repeat(extra);
+        pos += 3 + extra;
+        return out;
+      }
+      if (quote === '"' && peek() === '\\') {
+        // Line-ending backslash trims the newline and following whitespace
+        LINE_CONTINUATION.lastIndex = pos;
+        if (LINE_CONTINUATION.test(src)) {
+          pos = LINE_CONTINUATION.lastIndex;
+          while (/[ \t\r\n]/.test(peek() ?? '')) pos++;
+        } else {
+          out += parseEscape();
+        }
+        continue;
+      }
+      out += src[pos++];
+    }
+  };
+
+  const parseLiteralString = (): string => {
+    const end = src.indexOf("'", pos + 1);
+    const newline = src.indexOf('\n', pos + 1);
+    if (end === -1 || (newline !== -1 && newline < end)) fail('unterminated string');
+    const out = src.slice(pos + 1, end);
+    pos = end + 1;
+    return out;
+  };
+
+  const parseSimpleKey = (): string => {
+    if (peek() === '"') return parseBasicString();
+    if (peek() === "'") return parseLiteralString();
+    const start = pos;
+    while (pos < src.length && BARE_KEY.test(peek())) pos++;
+    if (start === pos) fail(`expected a key, found '${peek() ?? 'end of file'}'`);
+    return src.slice(start, pos);
+  };
+
+  // Dotted key: a.b."c.d"
+  const parseKey = (): string[] => {
+    const keys = [parseSimpleKey()];
+    for (;;) {
+      skipSpaces();
+      if (peek() !== '.') return keys;
+      pos++;
+      skipSpaces();
+      keys.push(parseSimpleKey());
+    }
+  };
+
+  // Descend into (creating) the sub-table for each key
+  const descend = (table: TomlTable, keys: string[]): TomlTable => {
+    let target = table;
+    for (const key of keys) {
+      let next = getKey(target, key);
+      if (next === undefined) {
+        next = {};
+        setKey(target, key, next);
+      }
+      // Array of tables: continue in its last element
+      if (Array.isArray(next)) next = next[next.length - 1];
+      if (typeof next !== 'object' || next === null || Array.isArray(next)) {
+        fail(`key '${key}' is not a table`);
+      }
+      target = next as TomlTable;
+    }
+    return target;
+  };
+
+  const parseKeyValue = (table: TomlTable) => {
+    const keys = parseKey();
+    skipSpaces();
+    if (peek() !== '=') fail(`expected '=' after key '${keys.join('.')}'`);
+    pos++;
+    skipSpaces();
+    const value = parseValue();
+    const target = descend(table, keys.slice(0, -1));
+    const last = keys[keys.length - 1];
+    if (getKey(target, last) !== undefined) fail(`duplicate key '${keys.join('.')}'`);
+    setKey(target, last, value);
+  };
+
+  const parseArray = (): unknown[] => {
+    pos++; // [
+    const items: unknown[] = [];
+    for (;;) {
+      skipBlank();
+      if (peek() === ']') break;
+      items.push(parseValue());
+      skipBlank();
+      if (peek() === ',') {
+        pos++;
+      } else if (peek() !== ']') {
+        fail(`expected ',' or ']' in array`);
+      }
+    }
+    pos++;
+    return items;
+  };
+
+  const parseInlineTable = (): TomlTable => {
+    pos++; // {
+    const table: TomlTable = {};
+    skipSpaces();
+    if (peek() === '}') {
+      pos++;
+      return table;
+    }
+    for (;;) {
+      skipSpaces();
+      parseKeyValue(table);
+      skipSpaces();
+      if (peek() === '}') {
+        pos++;
+        return table;
+      }
+      if (peek() !== ',') fail(`expected ',' or '}' in inline table`);
+      pos++;
+    }
+  };
+
+  const parseScalar = (): unknown => {
+    let end = pos;
+    while (end < src.length && /[0-9A-Za-z_+\-.:]/.test(src[end])) end++;
+    // Date and time may be separated by a space
+    if (/^\d{4}-\d{2}-\d{2}$/.test(src.slice(pos, end)) && /^ \d{2}:/.test(src.slice(end))) {
+      end++;
+      while (end < src.length && /[0-9A-Za-z+\-.:]/.test(src[end])) end++;
+    }
+    const token = src.slice(pos, end);
+    if (!token) fail(`expected a value, found '${peek() ?? 'end of file'}'`);
+    pos = end;
+
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (/^[+-]?inf$/.test(token)) return token.startsWith('-') ? -Infinity : Infinity;
+    if (/^[+-]?nan$/.test(token)) return NaN;
+    if (DATE_TIME.test(token) || LOCAL_TIME.test(token)) return token;
+
+    const digits = token.replace(/(\d)_(?=\d)/g, '$1');
+    const radix = /^0([xob])([0-9A-Fa-f]+)$/.exec(digits);
+    if (radix) return parseInt(radix[2], { x: 16, o: 8, b: 2 }[radix[1] as 'x' | 'o' | 'b']);
+    if (/^[+-]?(0|[1-9]\d*)$/.test(digits)) return parseInt(digits, 10);
+    if (/^[+-]?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(digits)) return parseFloat(digits);
+
+    return fail(`invalid value '${token}'`);
+  };
+
+  const parseValue = (): unknown => {
+    if (startsWith('"""')) return parseMultilineString('"');
+    if (startsWith("'''")) return parseMultilineString("'");
+    switch (peek()) {
+      case '"':
+        return parseBasicString();
+      case "'":
+        return parseLiteralString();
+      case '[':
+        return parseArray();
+      case '{':
+        return parseInlineTable();
+      default:
+        return parseScalar();
+    }
+  };
+
+  for (;;) {
+    skipBlank();
+    if (pos >= src.length) break;
+
+    if (peek() === '[') {
+      const arrayTable = startsWith('[[');
+      pos += arrayTable ? 2 : 1;
+      skipSpaces();
+      const keys = parseKey();
+      skipSpaces();
+      if (!startsWith(arrayTable ? ']]' : ']')) fail('unterminated table header');
+      pos += arrayTable ? 2 : 1;
+
+      if (arrayTable) {
+        const parent = descend(root, keys.slice(0, -1));
+        const last = keys[keys.length - 1];
+        const existing = getKey(parent, last) ?? [];
+        if (!Array.isArray(existing)) fail(`key '${keys.join('.')}' is not an array of tables`);
+        current = {};
+        (existing as unknown[]).push(current);
+        setKey(parent, last, existing);
+      } else {
+        current = descend(root, keys);
+      }
+    } else {
+      parseKeyValue(current);
+    }
+    expectLineEnd();
+  }
+
+  return root;
+}
+
+// Own properties only, so keys such as '__proto__' stay plain data
+function getKey(table: TomlTable, key: string): unknown {
+  return Object.hasOwn(table, key) ? table[key] : undefined;
+}
+
+function setKey(table: TomlTable, key: string, value: unknown): void {
+  Object.defineProperty(table, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
@@ -4,22 +4,36 @@
 
 import * as yaml from 'js-yaml';
 import { readFile } from './fs.js';
-import type { Profile, CheckConfig, Pillar, Level, ProjectType } from '../types.js';
-import { PILLARS, LEVELS } from '../types.js';
+import type {
+  Profile,
+  CheckConfig,
+  PluginCheckConfig,
+  Pillar,
+  Level,
+  ProjectType,
+  MarkdownSectionRequirement,
+  StructuredAssertion,
+  StructuredFormat,
+} from '../types.js';
+import { PILLARS, LEVELS, STRUCTURED_FORMATS } from '../types.js';
+import { getCheckExecutor } from '../checks/registry.js';
+import { safeRegex } from './regex.js';
+import { inferStructuredFormat, parsePathExpression } from '../checks/structured-match.js';
 
 /**
  * Parse YAML content to Profile
  * Uses JSON_SCHEMA for security - prevents arbitrary code execution
+ *
+ * Only accepts flat profiles; profiles using `extends` must be loaded through
+ * the profile loader so their base profile can be resolved.
  */
 export function parseProfile(content: string): Profile {
-  const parsed = yaml.load(content, { schema: yaml.JSON_SCHEMA }) as RawProfile;
-
-  if (!parsed || typeof parsed !== 'object') {
-    throw new Error('Invalid profile: empty or not an object');
-  }
+  const parsed = parseRawProfile(content);
 
-  if (!parsed.name) {
-    throw new Error('Invalid profile: missing name');
+  if (parsed.extends !== undefined) {
+    throw new Error(
+      `Invalid profile: '${parsed.name}' uses 'extends'; load it by name or path so the base profile can be resolved`
+    );
   }
 
   if (!Array.isArray(parsed.checks)) {
@@ -30,10 +44,98 @@ export function parseProfile(content: string): Profile {
     name: parsed.name,
     version: parsed.version || '1.0.0',
     description: parsed.description || '',
-    checks: parsed.checks.map(validateCheck),
+    checks: validateChecks(parsed.checks),
   };
 }
 
+/**
+ * Parse YAML content to an unvalidated profile document
+ *
+ * Validates the document shape (name, extends, remove, override, add) but
+ * leaves checks raw so inherited checks can be patched before validation.
+ */
+export function parseRawProfile(content: string): RawProfile & { name: string } {
+  const parsed = yaml.load(content, { schema: yaml.JSON_SCHEMA }) as RawProfile;
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Invalid profile: empty or not an object');
+  }
+
+  if (!parsed.name) {
+    throw new Error('Invalid profile: missing name');
+  }
+
+  if (parsed.extends !== undefined && typeof parsed.extends !== 'string') {
+    throw new Error(`Invalid profile '${parsed.name}': 'extends' must be a profile name or path`);
+  }
+
+  const hasDelta =
+    parsed.remove !== undefined || parsed.override !== undefined || parsed.add !== undefined;
+
+  if (parsed.extends === undefined && hasDelta) {
+    throw new Error(
+      `Invalid profile '${parsed.name}': 'remove', 'override' and 'add' require 'extends'`
+    );
+  }
+
+  if (parsed.extends !== undefined && parsed.checks !== undefined) {
+    throw new Error(
+      `Invalid profile '${parsed.name}': use 'add' instead of 'checks' when using 'extends'`
+    );
+  }
+
+  if (
+    parsed.remove !== undefined &&
+    (!Array.isArray(parsed.remove) || !parsed.remove.every((id) => typeof id === 'string'))
+  ) {
+    throw new Error(`Invalid profile '${parsed.name}': 'remove' must be an array of check IDs`);
+  }
+
+  if (
+    parsed.override !== undefined &&
+    (typeof parsed.override !== 'object' ||
+      parsed.override === null ||
+      Array.isArray(parsed.override) ||
+      !Object.values(parsed.override).every(
+        (patch) => typeof patch === 'object' && patch !== null && !Array.isArray(patch)
+      ))
+  ) {
+    throw new Error(
+      `Invalid profile '${parsed.name}': 'override' must map check IDs to field patches`
+    );
+  }
+
+  if (
+    parsed.plugins !== undefined &&
+    (!Array.isArray(parsed.plugins) || !parsed.plugins.every((p) => typeof p === 'string'))
+  ) {
+    throw new Error(`Invalid profile '${parsed.name}': 'plugins' must be an array of modules`);
+  }
+
+  if (parsed.add !== undefined && !Array.isArray(parsed.add)) {
+    throw new Error(`Invalid profile '${parsed.name}': 'add' must be an array of checks`);
+  }
+
+  return parsed as RawProfile & { name: string };
+}
+
+/**
+ * Validate raw checks, rejecting duplicate check IDs
+ */
+export function validateChecks(checks: RawCheck[]): CheckConfig[] {
+  const validated = checks.map(validateCheck);
+
+  const seen = new Set<string>();
+  for (const check of validated) {
+    if (seen.has(check.id)) {
+      throw new Error(`Duplicate check id '${check.id}'`);
+    }
+    seen.add(check.id);
+  }
+
+  return validated;
+}
+
 /**
  * Load profile from file
  */
@@ -48,14 +150,24 @@ export async function loadProfile(filePath: string): Promise<Profile> {
 }
 
 // Raw profile type for parsing
-interface RawProfile {
+export interface RawProfile {
   name?: string;
   version?: string;
   description?: string;
   checks?: RawCheck[];
+  /** Base profile name or path (relative to this profile's file) */
+  extends?: string;
+  /** Inherited check IDs to drop */
+  remove?: string[];
+  /** Field patches for inherited checks, by check ID */
+  override?: Record<string, Partial<RawCheck>>;
+  /** Checks appended to the inherited set */
+  add?: RawCheck[];
+  /** Plugin modules registering custom check types (paths relative to this file) */
+  plugins?: string[];
 }
 
-interface RawCheck {
+export interface RawCheck {
   id?: string;
   name?: string;
   description?: string;
@@ -108,6 +220,14 @@ function validateCheck(raw: RawCheck, index: number): CheckConfig {
     throw new Error(`Check '${raw.id}' 'applicableTo' must be an array of strings`);
   }
 
+  // Validate weight if provided
+  if (
+    raw.weight !== undefined &&
+    (typeof raw.weight !== 'number' || !Number.isFinite(raw.weight) || raw.weight < 0)
+  ) {
+    throw new Error(`Check '${raw.id}' 'weight' must be a non-negative number`);
+  }
+
   const base = {
     id: raw.id,
     name: raw.name || raw.id,
@@ -146,16 +266,31 @@ function validateCheck(raw: RawCheck, index: number): CheckConfig {
         content_regex: raw.content_regex as string | undefined,
       };
 
-    case 'any_of':
-      if (!Array.isArray(raw.checks)) {
-        throw new Error(`Check '${raw.id}' of type 'any_of' missing required 'checks' array`);
+    case 'any_of': {
+      const checks = validateNestedChecks(raw);
+      if (
+        raw.min_pass !== undefined &&
+        (!Number.isInteger(raw.min_pass) ||
+          (raw.min_pass as number) < 1 ||
+          (raw.min_pass as number) > checks.length)
+      ) {
+        throw new Error(
+          `Check '${raw.id}' 'min_pass' must be an integer between 1 and ${checks.length}`
+        );
       }
       return {
         ...base,
         type: 'any_of',
-        checks: raw.checks.map((c, i) => validateCheck(c as RawCheck, i)),
+        checks,
         min_pass: raw.min_pass as number | undefined,
       };
+    }
+
+    case 'all_of':
+      return { ...base, type: 'all_of', checks: validateNestedChecks(raw) };
+
+    case 'none_of':
+      return { ...base, type: 'none_of', checks: validateNestedChecks(raw) };
 
     case 'github_workflow_event':
       if (typeof raw.event !== 'string') {
@@ -266,11 +401,212 @@ function validateCheck(raw: RawCheck, index: number): CheckConfig {
         require_all: raw.require_all as boolean | undefined,
       };
 
-    default:
-      throw new Error(`Check '${raw.id}' has unknown type '${raw.type}'`);
+    case 'structured_match': {
+      if (typeof raw.path !== 'string') {
+        throw new Error(
+          `Check '${raw.id}' of type 'structured_match' missing required 'path' field`
+        );
+      }
+      if (
+        raw.format !== undefined &&
+        !STRUCTURED_FORMATS.includes(raw.format as StructuredFormat)
+      ) {
+        throw new Error(
+          `Check '${raw.id}' has invalid format '${raw.format}'. Valid formats: ${STRUCTURED_FORMATS.join(', ')}`
+        );
+      }
+      if (!inferStructuredFormat(raw.path, raw.format as StructuredFormat | undefined)) {
+        throw new Error(`Check '${raw.id}' cannot infer the format of '${raw.path}'; set 'format'`);
+      }
+      if (!Array.isArray(raw.assertions) || raw.assertions.length === 0) {
+        throw new Error(
+          `Check '${raw.id}' of type 'structured_match' missing required 'assertions' array`
+        );
+      }
+      return {
+        ...base,
+        type: 'structured_match',
+        path: raw.path,
+        format: raw.format as StructuredFormat | undefined,
+        assertions: raw.assertions.map((a, i) => validateAssertion(raw.id!, a, i)),
+      };
+    }
+
+    case 'markdown_sections': {
+      if (typeof raw.path !== 'string') {
+        throw new Error(
+          `Check '${raw.id}' of type 'markdown_sections' missing required 'path' field`
+        );
+      }
+      if (raw.sections !== undefined && !Array.isArray(raw.sections)) {
+        throw new Error(`Check '${raw.id}' 'sections' must be an array`);
+      }
+      if (
+        raw.max_depth !== undefined &&
+        (!Number.isInteger(raw.max_depth) ||
+          (raw.max_depth as number) < 1 ||
+          (raw.max_depth as number) > 6)
+      ) {
+        throw new Error(`Check '${raw.id}' 'max_depth' must be an integer between 1 and 6`);
+      }
+      if (
+        !(Array.isArray(raw.sections) && raw.sections.length > 0) &&
+        raw.max_depth === undefined
+      ) {
+        throw new Error(
+          `Check '${raw.id}' of type 'markdown_sections' needs a 'sections' array or 'max_depth'`
+        );
+      }
+      return {
+        ...base,
+        type: 'markdown_sections',
+        path: raw.path,
+        sections: (raw.sections as unknown[] | undefined)?.map((s, i) =>
+          validateSectionRequirement(raw.id!, s, i)
+        ),
+        max_depth: raw.max_depth as number | undefined,
+      };
+    }
+
+    case 'docs_links':
+      if (typeof raw.pattern !== 'string' || raw.pattern === '') {
+        throw new Error(`Check '${raw.id}' of type 'docs_links' missing required 'pattern' field`);
+      }
+      return {
+        ...base,
+        type: 'docs_links',
+        pattern: raw.pattern,
+      };
+
+    default: {
+      // Custom check types registered by plugins
+      const executor = getCheckExecutor(raw.type);
+      if (!executor) {
+        throw new Error(`Check '${raw.id}' has unknown type '${raw.type}'`);
+      }
+      try {
+        executor.validate?.(raw);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Check '${raw.id}' of type '${raw.type}' is invalid: ${message}`);
+      }
+      const check: PluginCheckConfig = { ...raw, ...base, type: raw.type };
+      return check;
+    }
   }
 }
 
+// Operators a structured_match assertion can use
+const ASSERTION_OPERATORS = ['exists', 'equals', 'matches', 'contains', 'min_length'];
+
+/**
+ * Validate a structured_match assertion
+ */
+function validateAssertion(checkId: string, raw: unknown, index: number): StructuredAssertion {
+  const where = `Check '${checkId}' assertion ${index}`;
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  const assertion = raw as Record<string, unknown>;
+  if (typeof assertion.path !== 'string') {
+    throw new Error(`${where} missing required 'path' string`);
+  }
+  try {
+    parsePathExpression(assertion.path);
+  } catch (error) {
+    throw new Error(`${where}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!ASSERTION_OPERATORS.some((op) => assertion[op] !== undefined)) {
+    throw new Error(`${where} needs one of: ${ASSERTION_OPERATORS.join(', ')}`);
+  }
+  if (assertion.exists !== undefined && typeof assertion.exists !== 'boolean') {
+    throw new Error(`${where} 'exists' must be a boolean`);
+  }
+  if (assertion.matches !== undefined) {
+    if (typeof assertion.matches !== 'string' || safeRegex(assertion.matches) === null) {
+      throw new Error(`${where} 'matches' must be a valid regular expression`);
+    }
+  }
+  if (
+    assertion.min_length !== undefined &&
+    (!Number.isInteger(assertion.min_length) || (assertion.min_length as number) < 0)
+  ) {
+    throw new Error(`${where} 'min_length' must be a non-negative integer`);
+  }
+
+  return {
+    path: assertion.path,
+    exists: assertion.exists as boolean | undefined,
+    equals: assertion.equals,
+    matches: assertion.matches as string | undefined,
+    contains: assertion.contains,
+    min_length: assertion.min_length as number | undefined,
+  };
+}
+
+/**
+ * Validate a markdown_sections section requirement
+ */
+function validateSectionRequirement(
+  checkId: string,
+  raw: unknown,
+  index: number
+): MarkdownSectionRequirement {
+  const where = `Check '${checkId}' section ${index}`;
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  const section = raw as Record<string, unknown>;
+  const heading = section.heading;
+  const validHeading =
+    (typeof heading === 'string' && heading.trim() !== '') ||
+    (Array.isArray(heading) &&
+      heading.length > 0 &&
+      heading.every((h) => typeof h === 'string' && h.trim() !== ''));
+  if (!validHeading) {
+    throw new Error(`${where} 'heading' must be a string or a non-empty array of strings`);
+  }
+  if (
+    section.min_words !== undefined &&
+    (!Number.isInteger(section.min_words) || (section.min_words as number) < 0)
+  ) {
+    throw new Error(`${where} 'min_words' must be a non-negative integer`);
+  }
+  if (section.code_block !== undefined && typeof section.code_block !== 'boolean') {
+    throw new Error(`${where} 'code_block' must be a boolean`);
+  }
+
+  return {
+    heading: heading as string | string[],
+    min_words: section.min_words as number | undefined,
+    code_block: section.code_block as boolean | undefined,
+  };
+}
+
+/**
+ * Validate the nested checks of a composite check (any_of, all_of, none_of)
+ */
+function validateNestedChecks(raw: RawCheck): CheckConfig[] {
+  if (!Array.isArray(raw.checks) || raw.checks.length === 0) {
+    throw new Error(`Check '${raw.id}' of type '${raw.type}' missing required 'checks' array`);
+  }
+
+  return raw.checks.map((nested, i) => {
+    if (typeof nested !== 'object' || nested === null || Array.isArray(nested)) {
+      throw new Error(`Check '${raw.id}' nested check at index ${i} must be an object`);
+    }
+    try {
+      return validateCheck(nested as RawCheck, i);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Check '${raw.id}' has an invalid nested check: ${message}`);
+    }
+  });
+}
+
 /**
  * Serialize Profile to YAML
  */
@@ -0,0 +1,250 @@
+/**
+ * Archive file system
+ *
+ * Scans a tar (optionally gzipped) or zip archive without extracting it
+ * to disk. A single top-level directory shared by all entries, as in
+ * GitHub source archives, is treated as the root.
+ */
+
+import * as fs from 'node:fs';
+import * as zlib from 'node:zlib';
+import type { ScanFileSystem } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { createIndexedFileSystem } from './indexed.js';
+import { normalizeScanPath } from './paths.js';
+
+const TAR_BLOCK = 512;
+
+// Zip record signatures
+const ZIP_LOCAL_FILE = 0x04034b50;
+const ZIP_CENTRAL_DIRECTORY = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+// Archive entry, decompressed on first read
+interface ArchiveEntry {
+  path: string;
+  directory: boolean;
+  data: () => Buffer;
+}
+
+/**
+ * Load a .tar, .tar.gz/.tgz or .zip file
+ */
+export async function loadArchiveFileSystem(archivePath: string): Promise<ScanFileSystem> {
+  let data: Buffer;
+  try {
+    data = await fs.promises.readFile(archivePath);
+  } catch (err) {
+    logger.debug({ path: archivePath, err }, 'Failed to read archive');
+    throw new Error(`Archive not found: ${archivePath}`);
+  }
+  return createArchiveFileSystem(data);
+}
+
+/**
+ * Create a file system from archive contents; the format is detected
+ * from the data
+ */
+export function createArchiveFileSystem(data: Buffer): ScanFileSystem {
+  const entries = isZip(data) ? readZipEntries(data) : readTarEntries(maybeGunzip(data));
+
+  // Normalize paths, dropping entries that would escape the root
+  const normalized: ArchiveEntry[] = [];
+  for (const entry of entries) {
+    const entryPath = normalizeScanPath(entry.path);
+    if (entryPath) normalized.push({ ...entry, path: entryPath });
+  }
+
+  const prefix = commonTopLevelDir(normalized);
+  const files = new Map<string, ArchiveEntry>();
+  const dirs: string[] = [];
+  for (const entry of normalized) {
+    if (!entry.path.startsWith(prefix)) continue;
+    const entryPath = entry.path.slice(prefix.length);
+    if (!entryPath) continue;
+    if (entry.directory) {
+      dirs.push(entryPath);
+    } else {
+      files.set(entryPath, entry);
+    }
+  }
+
+  const contents = new Map<string, string>();
+  return createIndexedFileSystem(
+    files.keys(),
+    (file) => {
+      if (!contents.has(file)) {
+        try {
+          contents.set(file, files.get(file)!.data().toString('utf-8'));
+        } catch (err) {
+          logger.debug({ path: file, err }, 'Failed to read archive entry');
+          return null;
+        }
+      }
+      return contents.get(file)!;
+    },
+    dirs
+  );
+}
+
+function isZip(data: Buffer): boolean {
+  return (
+    data.length >= 4 &&
+    (data.readUInt32LE(0) === ZIP_LOCAL_FILE ||
+      data.readUInt32LE(0) === ZIP_END_OF_CENTRAL_DIRECTORY)
+  );
+}
+
+function maybeGunzip(data: Buffer): Buffer {
+  return data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b ? zlib.gunzipSync(data) : data;
+}
+
+/**
+ * Read tar entries (ustar, with GNU long names and pax path headers)
+ */
+function readTarEntries(data: Buffer): ArchiveEntry[] {
+  if (data.length < TAR_BLOCK) {
+    throw new Error('Unsupported archive format: expected a tar, tar.gz or zip archive');
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let longName: string | undefined;
+
+  for (let offset = 0; offset + TAR_BLOCK <= data.length; ) {
+    const header = data.subarray(offset, offset + TAR_BLOCK);
+    // Two zero blocks end the archive
+    if (header.every((byte) => byte === 0)) break;
+
+    if (!isValidTarHeader(header)) {
+      throw new Error(`Unsupported archive format: invalid tar header at offset ${offset}`);
+    }
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156]);
+    const prefix =
+      header.subarray(257, 262).toString() === 'ustar' ? readString(header, 345, 155) : '';
+    const name = readString(header, 0, 100);
+
+    const start = offset + TAR_BLOCK;
+    const body = data.subarray(start, start + size);
+    offset = start + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+    switch (type) {
+      case 'L': // GNU long name for the next entry
+        longName = body.toString('utf-8').replace(/\0.*$/s, '');
+        continue;
+      case 'x': // pax extended header for the next entry
+        longName = parsePaxPath(body) ?? longName;
+        continue;
+      case 'g': // pax global header
+        continue;
+    }
+
+    const entryPath = longName ?? (prefix ? `${prefix}/${name}` : name);
+    longName = undefined;
+
+    if (type === '0' || type === '\0' || type === '7') {
+      entries.push({ path: entryPath, directory: false, data: () => body });
+    } else if (type === '5') {
+      entries.push({ path: entryPath, directory: true, data: () => Buffer.alloc(0) });
+    }
+    // Links and special files are skipped
+  }
+
+  return entries;
+}
+
+function isValidTarHeader(header: Buffer): boolean {
+  const expected = parseInt(readString(header, 148, 8).trim(), 8);
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum === expected;
+}
+
+function parsePaxPath(body: Buffer): string | undefined {
+  // Records are "<length> <key>=<value>\n"
+  for (const record of body.toString('utf-8').split('\n')) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+function readString(buffer: Buffer, start: number, length: number): string {
+  const raw = buffer.subarray(start, start + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? raw.length : end).toString('utf-8');
+}
+
+/**
+ * Read zip entries from the central directory (stored and deflated entries)
+ */
+function readZipEntries(data: Buffer): ArchiveEntry[] {
+  const end = findEndOfCentralDirectory(data);
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+
+  const entries: ArchiveEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (data.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY) {
+      throw new Error(`Unsupported archive format: invalid zip directory at offset ${offset}`);
+    }
+
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.subarray(offset + 46, offset + 46 + nameLength).toString('utf-8');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      entries.push({ path: name, directory: true, data: () => Buffer.alloc(0) });
+      continue;
+    }
+
+    entries.push({
+      path: name,
+      directory: false,
+      data: () => {
+        // File data follows the local header, whose extra field may differ
+        const start =
+          localOffset +
+          30 +
+          data.readUInt16LE(localOffset + 26) +
+          data.readUInt16LE(localOffset + 28);
+        const compressed = data.subarray(start, start + compressedSize);
+        if (method === 0) return compressed;
+        if (method === 8) return zlib.inflateRawSync(compressed);
+        throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+      },
+    });
+  }
+
+  return entries;
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KiB
+  const min = Math.max(0, data.length - 22 - 0xffff);
+  for (let offset = data.length - 22; offset >= min; offset--) {
+    if (data.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Unsupported archive format: zip end of central directory not found');
+}
+
+/**
+ * The 'dir/' prefix shared by every entry, or '' when there is none
+ */
+function commonTopLevelDir(entries: ArchiveEntry[]): string {
+  const files = entries.filter((entry) => !entry.directory);
+  if (files.length === 0) return '';
+
+  const [first] = files[0].path.split('/');
+  const shared = files.every((entry) => entry.path.startsWith(`${first}/`));
+  return shared ? `${first}/` : '';
+}
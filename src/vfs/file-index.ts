@@ -0,0 +1,139 @@
+/**
+ * Repository file index
+ *
+ * Walks the scan's file system once when the context is built, skipping
+ * paths matched by .gitignore files and the configured exclusions. Every
+ * glob and existence query during the scan is then answered from the index.
+ */
+
+import { Minimatch } from 'minimatch';
+import type { FileIndexStats, ScanFileSystem } from '../types.js';
+
+// Always excluded, in .gitignore syntax
+export const DEFAULT_EXCLUDES = ['node_modules/', 'dist/', '.git/'];
+
+export interface FileIndexOptions {
+  /** Extra exclusions in .gitignore syntax, relative to the root */
+  exclude?: string[];
+}
+
+export interface FileIndex {
+  /** File paths relative to the root, '/'-separated */
+  files: string[];
+  directories: string[];
+  stats: FileIndexStats;
+}
+
+// A .gitignore pattern, relative to the directory that declared it
+interface IgnoreRule {
+  base: string;
+  matcher: Minimatch;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Index the files of a file system
+ */
+export async function buildFileIndex(
+  fileSystem: ScanFileSystem,
+  options: FileIndexOptions = {}
+): Promise<FileIndex> {
+  const start = performance.now();
+  const files: string[] = [];
+  const directories: string[] = [];
+  let ignored = 0;
+
+  // Depth-first; each directory's rules extend its parent's
+  const walk = async (dir: string, inherited: IgnoreRule[]): Promise<void> => {
+    const entries = await fileSystem.readDirectory(dir);
+
+    let rules = inherited;
+    if (entries.files.includes('.gitignore')) {
+      const gitignore = await fileSystem.readFile(joinPath(dir, '.gitignore'));
+      if (gitignore) rules = [...rules, ...parseIgnoreRules(gitignore.split(/\r?\n/), dir)];
+    }
+
+    for (const name of entries.files) {
+      const file = joinPath(dir, name);
+      if (isIgnored(file, false, rules)) {
+        ignored++;
+      } else {
+        files.push(file);
+      }
+    }
+
+    for (const name of entries.directories) {
+      const subdir = joinPath(dir, name);
+      if (isIgnored(subdir, true, rules)) {
+        ignored++;
+      } else {
+        directories.push(subdir);
+        await walk(subdir, rules);
+      }
+    }
+  };
+
+  await walk('', parseIgnoreRules([...DEFAULT_EXCLUDES, ...(options.exclude ?? [])], ''));
+
+  return {
+    files,
+    directories,
+    stats: {
+      files: files.length,
+      directories: directories.length,
+      ignored,
+      duration_ms: Math.round(performance.now() - start),
+    },
+  };
+}
+
+/**
+ * Parse .gitignore lines declared in directory `base`
+ */
+function parseIgnoreRules(lines: string[], base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const line of lines) {
+    let pattern = line.trimEnd();
+    if (!pattern || pattern.startsWith('#')) continue;
+
+    const negate = pattern.startsWith('!');
+    if (negate) pattern = pattern.slice(1);
+    // '\#' and '\!' escape a literal first character
+    if (pattern.startsWith('\\')) pattern = pattern.slice(1);
+
+    const directoryOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+    if (!pattern) continue;
+
+    // A slash anywhere but the end anchors the pattern to `base`;
+    // otherwise it matches at any depth
+    pattern = pattern.includes('/') ? pattern.replace(/^\//, '') : `**/${pattern}`;
+
+    rules.push({ base, matcher: new Minimatch(pattern, { dot: true }), negate, directoryOnly });
+  }
+
+  return rules;
+}
+
+/**
+ * Whether a path is ignored: the last matching rule decides
+ */
+function isIgnored(relativePath: string, directory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !directory) continue;
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+
+    const local = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+    if (rule.matcher.match(local)) ignored = !rule.negate;
+  }
+
+  return ignored;
+}
+
+function joinPath(dir: string, name: string): string {
+  return dir ? `${dir}/${name}` : name;
+}
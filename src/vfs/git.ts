@@ -0,0 +1,93 @@
+/**
+ * Git tree file system
+ *
+ * Reads a repository as of a commit, branch or tag straight from the git
+ * object database, leaving the working copy untouched.
+ */
+
+import { execFileSync } from 'node:child_process';
+import * as path from 'node:path';
+import type { ScanFileSystem } from '../types.js';
+import { gitExec, MAX_OUTPUT_BYTES } from '../utils/exec.js';
+import { logger } from '../utils/logger.js';
+import { createIndexedFileSystem } from './indexed.js';
+
+// Large blobs (lockfiles, generated files) need more than the 1 MiB default
+const MAX_BLOB_BYTES = 64 * 1024 * 1024;
+
+export interface GitTree {
+  /** Absolute directory the tree is read relative to */
+  root: string;
+  /** Ref as given by the user */
+  ref: string;
+  /** Commit SHA the ref resolved to */
+  sha: string;
+  /** Commit date (ISO 8601) */
+  committed_at: string;
+  /** File paths relative to root, '/'-separated */
+  files: string[];
+  /** Read a file's content, null if it is not in the tree */
+  read(relativePath: string): string | null;
+}
+
+/**
+ * Load the tree of a ref for the directory at rootPath
+ *
+ * rootPath may be a subdirectory of the repository; paths are then
+ * relative to it, as with the working copy.
+ */
+export function loadGitTree(rootPath: string, ref: string): GitTree {
+  const root = path.resolve(rootPath);
+
+  const resolved = gitExec(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], root);
+  if (!resolved.success || !resolved.stdout) {
+    throw new Error(`Unknown git ref '${ref}' in ${root}`);
+  }
+  const sha = resolved.stdout;
+
+  const date = gitExec(['show', '-s', '--format=%cI', sha], root);
+  const listing = gitExec(['ls-tree', '-r', '-z', '--name-only', sha], root, {
+    maxBuffer: MAX_OUTPUT_BYTES,
+  });
+  if (!listing.success) {
+    throw new Error(`Failed to list files of git ref '${ref}'`);
+  }
+
+  const files = listing.stdout.split('\0').filter(Boolean);
+  const fileSet = new Set(files);
+  const blobs = new Map<string, string>();
+
+  return {
+    root,
+    ref,
+    sha,
+    committed_at: date.stdout || new Date().toISOString(),
+    files,
+    read(relativePath: string): string | null {
+      if (!fileSet.has(relativePath)) return null;
+      if (blobs.has(relativePath)) return blobs.get(relativePath)!;
+
+      try {
+        // './' keeps the path relative to root when root is a subdirectory
+        const content = execFileSync('git', ['show', `${sha}:./${relativePath}`], {
+          cwd: root,
+          encoding: 'utf-8',
+          maxBuffer: MAX_BLOB_BYTES,
+          stdio: ['pipe', 'pipe', 'pipe'],
+        });
+        blobs.set(relativePath, content);
+        return content;
+      } catch (err) {
+        logger.debug({ ref, path: relativePath, err }, 'Failed to read file from git tree');
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * Create a file system serving a git tree
+ */
+export function createGitFileSystem(tree: GitTree): ScanFileSystem {
+  return createIndexedFileSystem(tree.files, (file) => tree.read(file));
+}
@@ -0,0 +1,55 @@
+/**
+ * Virtual file systems
+ *
+ * Checks read repository files through `context.fs` rather than the disk,
+ * so the same scan runs against the working copy, a git ref, an archive or
+ * an in-memory map. Paths are relative to the scan root and '/'-separated.
+ */
+
+import type { ScanContext } from '../types.js';
+
+export { createLocalFileSystem } from './local.js';
+export { createMemoryFileSystem } from './memory.js';
+export { createIndexedFileSystem } from './indexed.js';
+export { createGitFileSystem, loadGitTree, type GitTree } from './git.js';
+export { createArchiveFileSystem, loadArchiveFileSystem } from './archive.js';
+export { scopeFileSystem } from './scoped.js';
+export { createAppLayers } from './layers.js';
+export {
+  buildFileIndex,
+  DEFAULT_EXCLUDES,
+  type FileIndex,
+  type FileIndexOptions,
+} from './file-index.js';
+export { normalizeScanPath } from './paths.js';
+
+/**
+ * Read a file through the context's file system, cached for the scan
+ */
+export async function readScanFile(
+  context: ScanContext,
+  relativePath: string
+): Promise<string | null> {
+  if (context.file_cache.has(relativePath)) {
+    return context.file_cache.get(relativePath)!;
+  }
+
+  const content = await context.fs.readFile(relativePath);
+  if (content !== null) {
+    context.file_cache.set(relativePath, content);
+  }
+  return content;
+}
+
+/**
+ * Find files matching a glob through the context's file system, cached for the scan
+ */
+export async function findScanFiles(context: ScanContext, pattern: string): Promise<string[]> {
+  if (context.glob_cache.has(pattern)) {
+    return context.glob_cache.get(pattern)!;
+  }
+
+  const matches = await context.fs.glob(pattern);
+  context.glob_cache.set(pattern, matches);
+  return matches;
+}
@@ -0,0 +1,104 @@
+/**
+ * File system over a known list of files
+ *
+ * Shared by the implementations that hold the whole file listing in
+ * memory (in-memory map, git tree, archive) and by the scan's file index.
+ */
+
+import * as path from 'node:path';
+import { Minimatch } from 'minimatch';
+import type { DirectoryEntries, ScanFileSystem } from '../types.js';
+import { IGNORED_DIRS } from '../utils/fs.js';
+import { normalizeScanPath } from './paths.js';
+
+const IGNORED = IGNORED_DIRS.map((pattern) => new Minimatch(pattern, { dot: true }));
+
+// Characters that make a path segment a pattern rather than a name
+const GLOB_MAGIC = /[*?[\]{}()!+@]/;
+
+/**
+ * Create a file system from file paths and a reader
+ *
+ * @param files - File paths relative to the root, '/'-separated
+ * @param read - Returns a listed file's content, or null if it cannot be read
+ * @param emptyDirs - Directories without files that should still exist
+ */
+export function createIndexedFileSystem(
+  files: Iterable<string>,
+  read: (relativePath: string) => string | null | Promise<string | null>,
+  emptyDirs: Iterable<string> = []
+): ScanFileSystem {
+  const fileSet = new Set(files);
+
+  // Directory -> entries, including every ancestor of a listed path
+  const dirs = new Map<string, DirectoryEntries>([['', { files: [], directories: [] }]]);
+  const addDirectory = (dir: string): DirectoryEntries => {
+    let entries = dirs.get(dir);
+    if (!entries) {
+      entries = { files: [], directories: [] };
+      dirs.set(dir, entries);
+      addDirectory(parentOf(dir)).directories.push(path.posix.basename(dir));
+    }
+    return entries;
+  };
+  for (const file of fileSet) {
+    addDirectory(parentOf(file)).files.push(path.posix.basename(file));
+  }
+  for (const dir of emptyDirs) {
+    if (!fileSet.has(dir)) addDirectory(dir);
+  }
+
+  // Files under a directory, recursively
+  const filesUnder = (dir: string, out: string[] = []): string[] => {
+    const entries = dirs.get(dir);
+    if (!entries) return out;
+    for (const name of entries.files) out.push(dir ? `${dir}/${name}` : name);
+    for (const name of entries.directories) filesUnder(dir ? `${dir}/${name}` : name, out);
+    return out;
+  };
+
+  // Only files under the pattern's literal leading directories can match
+  const candidates = (pattern: string): string[] => {
+    const segments = pattern.split('/');
+    const firstMagic = segments.findIndex((segment) => GLOB_MAGIC.test(segment));
+    if (firstMagic === -1) return fileSet.has(pattern) ? [pattern] : [];
+    return firstMagic === 0 ? [...fileSet] : filesUnder(segments.slice(0, firstMagic).join('/'));
+  };
+
+  return {
+    async exists(relativePath) {
+      const normalized = normalizeScanPath(relativePath);
+      return normalized !== null && (fileSet.has(normalized) || dirs.has(normalized));
+    },
+
+    async isDirectory(relativePath) {
+      const normalized = normalizeScanPath(relativePath);
+      return normalized !== null && dirs.has(normalized);
+    },
+
+    async readFile(relativePath) {
+      const normalized = normalizeScanPath(relativePath);
+      return normalized !== null && fileSet.has(normalized) ? read(normalized) : null;
+    },
+
+    async glob(pattern) {
+      const matcher = new Minimatch(pattern, { dot: true });
+      return candidates(pattern)
+        .filter((file) => matcher.match(file) && !IGNORED.some((ignored) => ignored.match(file)))
+        .sort();
+    },
+
+    async readDirectory(relativePath) {
+      const normalized = normalizeScanPath(relativePath);
+      const entries = normalized === null ? undefined : dirs.get(normalized);
+      return entries
+        ? { files: [...entries.files], directories: [...entries.directories] }
+        : { files: [], directories: [] };
+    },
+  };
+}
+
+function parentOf(relativePath: string): string {
+  const parent = path.posix.dirname(relativePath);
+  return parent === '.' ? '' : parent;
+}
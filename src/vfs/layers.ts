@@ -0,0 +1,81 @@
+/**
+ * Layered lookup for monorepo app scans
+ *
+ * An app inherits the files of the directories above it, up to the
+ * repository root: .github/workflows, .editorconfig, CODEOWNERS and the like.
+ * Ancestor layers hide every app directory, so an app never picks up files
+ * of its siblings or its own files a second time.
+ */
+
+import * as path from 'node:path';
+import type { ScanFileSystem, ScanLayer } from '../types.js';
+import { scopeFileSystem } from './scoped.js';
+
+/**
+ * Layers of an app scan, the app's own first and the repository root last
+ *
+ * @param repoFileSystem - File system of the whole repository
+ * @param appPath - App directory relative to the repository root
+ * @param appFileSystem - File system the app is scanned through
+ * @param apps - All app directories of the monorepo
+ */
+export function createAppLayers(
+  repoFileSystem: ScanFileSystem,
+  appPath: string,
+  appFileSystem: ScanFileSystem,
+  apps: string[]
+): ScanLayer[] {
+  const shared = hideDirectories(repoFileSystem, apps);
+  const layers: ScanLayer[] = [createLayer(appPath, appFileSystem)];
+
+  for (let dir = path.posix.dirname(appPath); ; dir = path.posix.dirname(dir)) {
+    layers.push(createLayer(dir, scopeFileSystem(shared, dir === '.' ? '' : dir)));
+    if (dir === '.') break;
+  }
+
+  return layers;
+}
+
+function createLayer(dir: string, fileSystem: ScanFileSystem): ScanLayer {
+  return { path: dir, fs: fileSystem, file_cache: new Map(), glob_cache: new Map() };
+}
+
+/**
+ * File system without the given directories and everything below them
+ */
+function hideDirectories(fileSystem: ScanFileSystem, directories: string[]): ScanFileSystem {
+  const isHidden = (relativePath: string) => {
+    const normalized = path.posix.normalize(relativePath);
+    return directories.some((dir) => normalized === dir || normalized.startsWith(`${dir}/`));
+  };
+
+  return {
+    async exists(relativePath) {
+      return !isHidden(relativePath) && fileSystem.exists(relativePath);
+    },
+
+    async isDirectory(relativePath) {
+      return !isHidden(relativePath) && fileSystem.isDirectory(relativePath);
+    },
+
+    async readFile(relativePath) {
+      return isHidden(relativePath) ? null : fileSystem.readFile(relativePath);
+    },
+
+    async glob(pattern) {
+      const matches = await fileSystem.glob(pattern);
+      return matches.filter((match) => !isHidden(match));
+    },
+
+    async readDirectory(relativePath) {
+      if (isHidden(relativePath)) return { files: [], directories: [] };
+      const entries = await fileSystem.readDirectory(relativePath);
+      return {
+        files: entries.files,
+        directories: entries.directories.filter(
+          (name) => !isHidden(path.posix.join(relativePath, name))
+        ),
+      };
+    },
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Local disk file system
+ */
+
+import * as path from 'node:path';
+import type { ScanFileSystem } from '../types.js';
+import {
+  directoryExists,
+  fileExists,
+  findFiles,
+  readDirectory,
+  readFile,
+  relativePath as toRelativePath,
+} from '../utils/fs.js';
+import { normalizeScanPath } from './paths.js';
+
+/**
+ * Create a file system reading the directory at rootPath
+ */
+export function createLocalFileSystem(rootPath: string): ScanFileSystem {
+  // Resolve a relative path, null if it escapes the root
+  const resolve = (relativePath: string) => {
+    const normalized = normalizeScanPath(relativePath);
+    return normalized === null ? null : path.join(rootPath, normalized);
+  };
+
+  return {
+    async exists(relativePath) {
+      const filePath = resolve(relativePath);
+      return filePath !== null && (await fileExists(filePath));
+    },
+
+    async isDirectory(relativePath) {
+      const dirPath = resolve(relativePath);
+      return dirPath !== null && (await directoryExists(dirPath));
+    },
+
+    async readFile(relativePath) {
+      const filePath = resolve(relativePath);
+      return filePath === null ? null : readFile(filePath);
+    },
+
+    async glob(pattern) {
+      const matches = await findFiles(pattern, rootPath);
+      return matches.map((match) => toRelativePath(match, rootPath).split(path.sep).join('/'));
+    },
+
+    async readDirectory(relativePath) {
+      const dirPath = resolve(relativePath);
+      return dirPath === null ? { files: [], directories: [] } : readDirectory(dirPath);
+    },
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * In-memory file system
+ *
+ * Scans a map of paths to contents; used to test checks without fixtures
+ * on disk.
+ */
+
+import type { ScanFileSystem } from '../types.js';
+import { createIndexedFileSystem } from './indexed.js';
+import { normalizeScanPath } from './paths.js';
+
+/**
+ * Create a file system from paths (relative to the root) and contents
+ */
+export function createMemoryFileSystem(
+  files: Record<string, string> | Map<string, string>
+): ScanFileSystem {
+  const contents = new Map<string, string>();
+  for (const [filePath, content] of files instanceof Map ? files : Object.entries(files)) {
+    const normalized = normalizeScanPath(filePath);
+    if (!normalized) {
+      throw new Error(`Invalid in-memory file path: ${filePath}`);
+    }
+    contents.set(normalized, content);
+  }
+
+  return createIndexedFileSystem(contents.keys(), (file) => contents.get(file) ?? null);
+}
@@ -0,0 +1,21 @@
+/**
+ * Path handling shared by the file system implementations
+ */
+
+import * as path from 'node:path';
+
+/**
+ * Normalize a path relative to the scan root to '/'-separated form
+ *
+ * @returns The normalized path ('' for the root), or null if it is absolute
+ * or escapes the root (path traversal)
+ */
+export function normalizeScanPath(relativePath: string): string | null {
+  const posix = relativePath.split(path.sep).join('/');
+  if (path.posix.isAbsolute(posix) || path.win32.isAbsolute(relativePath)) return null;
+
+  const normalized = path.posix.normalize(posix);
+  if (normalized === '..' || normalized.startsWith('../')) return null;
+
+  return normalized === '.' ? '' : normalized.replace(/\/$/, '');
+}
@@ -0,0 +1,53 @@
+/**
+ * Subdirectory view of a file system (used to scan monorepo apps)
+ */
+
+import * as path from 'node:path';
+import type { ScanFileSystem } from '../types.js';
+import { normalizeScanPath } from './paths.js';
+
+/**
+ * Create a file system rooted at a subdirectory of another
+ */
+export function scopeFileSystem(fileSystem: ScanFileSystem, directory: string): ScanFileSystem {
+  const base = normalizeScanPath(directory);
+  if (base === null) {
+    throw new Error(`Invalid directory (path traversal detected): ${directory}`);
+  }
+  if (base === '') return fileSystem;
+
+  // Resolve a path under the subdirectory, null if it escapes it
+  const resolve = (relativePath: string) => {
+    const normalized = normalizeScanPath(relativePath);
+    return normalized === null ? null : path.posix.join(base, normalized);
+  };
+
+  return {
+    async exists(relativePath) {
+      const resolved = resolve(relativePath);
+      return resolved !== null && fileSystem.exists(resolved);
+    },
+
+    async isDirectory(relativePath) {
+      const resolved = resolve(relativePath);
+      return resolved !== null && fileSystem.isDirectory(resolved);
+    },
+
+    async readFile(relativePath) {
+      const resolved = resolve(relativePath);
+      return resolved === null ? null : fileSystem.readFile(resolved);
+    },
+
+    async glob(pattern) {
+      const matches = await fileSystem.glob(`${base}/${pattern}`);
+      return matches.map((match) => match.slice(base.length + 1));
+    },
+
+    async readDirectory(relativePath) {
+      const resolved = resolve(relativePath);
+      return resolved === null
+        ? { files: [], directories: [] }
+        : fileSystem.readDirectory(resolved);
+    },
+  };
+}
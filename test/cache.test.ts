@@ -0,0 +1,131 @@
+/**
+ * Tests for the persistent scan cache
+ */
+
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import {
+  CACHE_DIR,
+  clearScanCache,
+  executeChecksWithCache,
+  openScanCache,
+  saveScanCache,
+} from '../src/cache/index.js';
+import { buildScanContext } from '../src/engine/context.js';
+import { scan } from '../src/scanner.js';
+import type { CheckConfig } from '../src/types.js';
+
+const base = { name: 'Test', description: 'Test', pillar: 'docs', level: 'L1' } as const;
+
+const CHECKS: CheckConfig[] = [
+  {
+    ...base,
+    id: 'test.readme',
+    type: 'file_exists',
+    required: false,
+    path: 'README.md',
+    content_regex: 'Installation',
+  },
+  { ...base, id: 'test.docs', type: 'path_glob', required: false, pattern: 'docs/**/*.md' },
+  { ...base, id: 'test.gh', type: 'command_exists', required: false, commands: ['git'] },
+];
+
+describe('scan cache', () => {
+  let repoDir: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repoDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(repoDir, file), content);
+  };
+
+  // Run the checks through a cache for the current HEAD
+  const runCached = async (clean: boolean) => {
+    const context = await buildScanContext(repoDir);
+    const cache = await openScanCache(repoDir, context.commit_sha, 'profile', clean);
+    const results = await executeChecksWithCache(CHECKS, context, cache);
+    await saveScanCache(cache);
+    return { cache, results };
+  };
+
+  before(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-ready-cache-'));
+    write('README.md', '# Demo\n');
+    write('docs/guide.md', 'Guide\n');
+    const git = (args: string[]) =>
+      execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+        cwd: repoDir,
+      });
+    git(['init', '-q']);
+    git(['add', '-A']);
+    git(['commit', '-q', '-m', 'init']);
+  });
+
+  after(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should reuse results of a clean checkout', async () => {
+    const first = await runCached(true);
+    assert.strictEqual(first.cache.hits, 0);
+    assert.strictEqual(first.cache.misses, 2);
+
+    const second = await runCached(true);
+    assert.strictEqual(second.cache.hits, 2);
+    assert.strictEqual(second.cache.misses, 0);
+    assert.deepStrictEqual(second.results, first.results);
+  });
+
+  it('should re-run only checks whose inputs changed', async () => {
+    write('README.md', '# Demo\n\n## Installation\n');
+
+    const { cache, results } = await runCached(false);
+    assert.strictEqual(cache.hits, 1);
+    assert.strictEqual(cache.misses, 1);
+    assert.strictEqual(results.find((r) => r.check_id === 'test.readme')?.passed, true);
+
+    write('docs/api/index.md', 'API\n');
+    const next = await runCached(false);
+    assert.strictEqual(next.cache.hits, 1);
+    assert.deepStrictEqual(next.results.find((r) => r.check_id === 'test.docs')?.matched_files, [
+      'docs/api/index.md',
+      'docs/guide.md',
+    ]);
+  });
+
+  it('should keep the cache out of git status and the file index', async () => {
+    const status = execFileSync('git', ['status', '--porcelain'], {
+      cwd: repoDir,
+      encoding: 'utf-8',
+    });
+    assert.ok(!status.includes('.agent-ready'));
+
+    const context = await buildScanContext(repoDir);
+    assert.deepStrictEqual(await context.fs.glob('.agent-ready/**'), []);
+  });
+
+  it('should only cache when asked to', async () => {
+    await clearScanCache(repoDir);
+    await scan({ path: repoDir, profile: 'factory_compat', output: 'json', verbose: false });
+    assert.strictEqual(fs.existsSync(path.join(repoDir, CACHE_DIR)), false);
+
+    await scan({
+      path: repoDir,
+      profile: 'factory_compat',
+      output: 'json',
+      verbose: false,
+      cache: true,
+    });
+    assert.strictEqual(fs.readdirSync(path.join(repoDir, CACHE_DIR)).length, 2);
+  });
+
+  it('should clear the cache', async () => {
+    assert.strictEqual(await clearScanCache(repoDir), 1);
+    assert.strictEqual(fs.existsSync(path.join(repoDir, '.agent-ready')), false);
+    assert.strictEqual(await clearScanCache(repoDir), 0);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Tests for changed-files scoped scans (--changed-since)
+ */
+
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { markTouched } from '../src/engine/changes.js';
+import { getChangedFiles } from '../src/utils/git.js';
+import { scan } from '../src/scanner.js';
+import { parseRepoConfig } from '../src/config/index.js';
+import type { CheckResult, FileExistsCheck, GitHubWorkflowEventCheck } from '../src/types.js';
+
+describe('markTouched', () => {
+  const base = { name: 'Test', description: 'Test', pillar: 'docs', level: 'L1' } as const;
+  const result = (check_id: string, passed: boolean, matched_files?: string[]): CheckResult => ({
+    check_id,
+    check_name: 'Test',
+    pillar: 'docs',
+    level: 'L1',
+    passed,
+    required: false,
+    message: '',
+    matched_files,
+  });
+  const readme: FileExistsCheck = {
+    ...base,
+    id: 'test.readme',
+    type: 'file_exists',
+    required: false,
+    path: 'README.md',
+  };
+  const ci: GitHubWorkflowEventCheck = {
+    ...base,
+    id: 'test.ci',
+    type: 'github_workflow_event',
+    required: false,
+    event: 'push',
+  };
+
+  it('should flag results whose matched files or targets changed', () => {
+    const results = markTouched(
+      [result('test.readme', false), result('test.ci', true, ['.github/workflows/ci.yml'])],
+      [readme, ci],
+      ['README.md', 'src/index.ts']
+    );
+    assert.deepStrictEqual(
+      results.map((r) => r.touched),
+      [true, undefined]
+    );
+
+    const [ciResult] = markTouched([result('test.ci', true)], [ci], ['.github/workflows/ci.yml']);
+    assert.strictEqual(ciResult.touched, true);
+  });
+
+  it('should match app results against the files of their layer', () => {
+    const changed = ['packages/a/README.md', '.github/workflows/ci.yml'];
+    const [own, inherited] = markTouched(
+      [result('test.readme', true, ['README.md']), { ...result('test.ci', true), layer: '.' }],
+      [readme, ci],
+      changed,
+      'packages/a'
+    );
+    assert.strictEqual(own.touched, true);
+    assert.strictEqual(inherited.touched, true);
+
+    const [other] = markTouched([result('test.readme', true)], [readme], changed, 'packages/b');
+    assert.strictEqual(other.touched, undefined);
+  });
+});
+
+describe('changed-since scanning', () => {
+  let repoDir: string;
+
+  const git = (args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: repoDir,
+      encoding: 'utf-8',
+    }).trim();
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repoDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(repoDir, file), content);
+  };
+
+  before(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-ready-changes-'));
+    git(['init', '-q']);
+
+    write('package.json', JSON.stringify({ name: 'mono', workspaces: ['packages/*'] }));
+    write('README.md', '# Mono\n');
+    write('packages/a/package.json', '{"name": "a"}');
+    write('packages/b/package.json', '{"name": "b"}');
+    git(['add', '-A']);
+    git(['commit', '-q', '-m', 'base']);
+    git(['tag', 'base']);
+
+    write('packages/a/README.md', '# A\n');
+    write('AGENTS.md', '# Agents\n\n## Commands\n\n```bash\nnpm test\n```\n');
+    git(['add', '-A']);
+    git(['commit', '-q', '-m', 'change']);
+
+    write('CONTRIBUTING.md', 'Untracked\n');
+  });
+
+  after(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should list files changed since the merge base', () => {
+    const { base, files } = getChangedFiles(repoDir, 'base');
+    assert.strictEqual(base, git(['rev-parse', 'base']));
+    assert.deepStrictEqual(files, ['AGENTS.md', 'CONTRIBUTING.md', 'packages/a/README.md']);
+
+    // Against a ref, the working copy is left out
+    assert.deepStrictEqual(getChangedFiles(repoDir, 'base', 'HEAD').files, [
+      'AGENTS.md',
+      'packages/a/README.md',
+    ]);
+    assert.throws(() => getChangedFiles(repoDir, 'no-such-ref'), /Unknown git ref 'no-such-ref'/);
+  });
+
+  it('should flag touched checks and scan only changed apps', async () => {
+    const result = await scan({
+      path: repoDir,
+      profile: 'factory_compat',
+      output: 'json',
+      verbose: false,
+      changedSince: 'base',
+    });
+
+    assert.strictEqual(result.changes?.since, 'base');
+    assert.ok(result.changes.touched_checks.includes('docs.agents_md'));
+    assert.ok(!result.changes.touched_checks.includes('docs.readme'));
+    assert.deepStrictEqual(result.changes.unchanged_apps, ['packages/b']);
+
+    assert.deepStrictEqual(
+      result.apps?.map((app) => app.path),
+      ['packages/a']
+    );
+    assert.ok(result.apps[0].touched_checks?.includes('docs.readme'));
+  });
+
+  it('should not roll up a subset of the apps', async () => {
+    const result = await scan({
+      path: repoDir,
+      profile: 'factory_compat',
+      output: 'json',
+      verbose: false,
+      config: parseRepoConfig('monorepo:\n  rollup: min\n'),
+      changedSince: 'base',
+    });
+
+    assert.strictEqual(result.rollup?.policy, 'root');
+    assert.strictEqual(result.rollup.partial, true);
+    assert.strictEqual(result.level, result.rollup.root_level);
+    assert.strictEqual(result.overall_score, result.rollup.root_score);
+  });
+});
+
+describe('changed-since scanning of large change sets', () => {
+  let repoDir: string;
+
+  const git = (args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: repoDir,
+      encoding: 'utf-8',
+    }).trim();
+
+  // ~250-byte paths: 4500 of them list to more than the 1 MiB default buffer
+  const writeMany = (dir: string) => {
+    fs.mkdirSync(path.join(repoDir, dir));
+    for (let i = 0; i < 4500; i++) {
+      fs.writeFileSync(path.join(repoDir, dir, `file-${i}.txt`), '');
+    }
+  };
+
+  before(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-ready-changes-'));
+    git(['init', '-q']);
+    fs.writeFileSync(path.join(repoDir, 'README.md'), '# Large\n');
+    git(['add', '-A']);
+    git(['commit', '-q', '-m', 'base']);
+    git(['tag', 'base']);
+
+    writeMany('committed-'.padEnd(235, 'x'));
+    git(['add', '-A']);
+    git(['commit', '-q', '-m', 'change']);
+
+    writeMany('untracked-'.padEnd(235, 'x'));
+  });
+
+  after(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should list changed and untracked files beyond the default buffer size', () => {
+    assert.strictEqual(getChangedFiles(repoDir, 'base', 'HEAD').files.length, 4500);
+    assert.strictEqual(getChangedFiles(repoDir, 'base').files.length, 9000);
+  });
+});
@@ -7,12 +7,22 @@ import * as assert from 'node:assert';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
-import { executeCheck } from '../src/checks/index.js';
+import {
+  executeCheck,
+  getSupportedCheckTypes,
+  registerCheckExecutor,
+  unregisterCheckExecutor,
+} from '../src/checks/index.js';
+import { createLocalFileSystem } from '../src/vfs/index.js';
 import type {
+  CheckConfig,
+  CheckExecutor,
   ScanContext,
   FileExistsCheck,
   PathGlobCheck,
   AnyOfCheck,
+  AllOfCheck,
+  NoneOfCheck,
   GitHubWorkflowEventCheck,
   GitHubActionPresentCheck,
   BuildCommandDetectCheck,
@@ -35,6 +45,7 @@ function createContext(rootPath: string): ScanContext {
     glob_cache: new Map(),
     is_monorepo: false,
     monorepo_apps: [],
+    fs: createLocalFileSystem(rootPath),
   };
 }
 
@@ -211,6 +222,97 @@ describe('any_of check', () => {
   });
 });
 
+// Nested check for composite tests
+function fileCheck(id: string, filePath: string, contentRegex?: string): FileExistsCheck {
+  return {
+    id,
+    name: id,
+    description: 'Test',
+    type: 'file_exists',
+    pillar: 'docs',
+    level: 'L1',
+    required: false,
+    path: filePath,
+    content_regex: contentRegex,
+  };
+}
+
+describe('all_of check', () => {
+  const base = {
+    id: 'test.readme_complete',
+    name: 'README complete',
+    description: 'Test',
+    type: 'all_of',
+    pillar: 'docs',
+    level: 'L1',
+    required: false,
+  } as const;
+
+  it('should pass when every nested check passes', async () => {
+    const context = createContext(STANDARD_REPO);
+    const check: AllOfCheck = {
+      ...base,
+      checks: [fileCheck('test.readme', 'README.md'), fileCheck('test.tsconfig', 'tsconfig.json')],
+    };
+
+    const result = await executeCheck(check, context);
+    assert.strictEqual(result.passed, true);
+    assert.deepStrictEqual(result.matched_files, ['README.md', 'tsconfig.json']);
+    assert.deepStrictEqual(
+      (result.details?.results as { check_id: string }[]).map((r) => r.check_id),
+      ['test.readme', 'test.tsconfig']
+    );
+  });
+
+  it('should fail and report nested results when one check fails', async () => {
+    const context = createContext(MINIMAL_REPO);
+    const check: AllOfCheck = {
+      ...base,
+      checks: [fileCheck('test.readme', 'README.md'), fileCheck('test.license', 'LICENSE')],
+    };
+
+    const result = await executeCheck(check, context);
+    assert.strictEqual(result.passed, false);
+    assert.deepStrictEqual(result.details?.failed_checks, ['test.license']);
+    assert.ok(result.suggestions?.includes('Create LICENSE'));
+  });
+});
+
+describe('none_of check', () => {
+  const base = {
+    id: 'test.no_env',
+    name: 'No committed .env',
+    description: 'Test',
+    type: 'none_of',
+    pillar: 'security',
+    level: 'L2',
+    required: false,
+  } as const;
+
+  it('should pass when no nested check passes', async () => {
+    const context = createContext(MINIMAL_REPO);
+    const check: NoneOfCheck = { ...base, checks: [fileCheck('test.env', '.env')] };
+
+    const result = await executeCheck(check, context);
+    assert.strictEqual(result.passed, true);
+    assert.deepStrictEqual(result.details?.matched_checks, []);
+  });
+
+  it('should fail on forbidden files and suggest removing them', async () => {
+    const context = createContext(STANDARD_REPO);
+    const check: NoneOfCheck = {
+      ...base,
+      checks: [fileCheck('test.env', '.env'), fileCheck('test.tsconfig', 'tsconfig.json')],
+    };
+
+    const result = await executeCheck(check, context);
+    assert.strictEqual(result.passed, false);
+    assert.deepStrictEqual(result.details?.matched_checks, ['test.tsconfig']);
+    assert.deepStrictEqual(result.matched_files, ['tsconfig.json']);
+    assert.deepStrictEqual(result.suggestions, ['Remove tsconfig.json']);
+  });
+});
+
 describe('github_workflow_event check', () => {
   it('should detect push event in workflow', async () => {
     const context = createContext(STANDARD_REPO);
@@ -415,3 +517,75 @@ describe('dependency_detect check', () => {
     assert.strictEqual(result.passed, false);
   });
 });
+
+describe('custom check executors', () => {
+  const executor: CheckExecutor = {
+    type: 'always_pass',
+    async execute(check) {
+      return {
+        check_id: check.id,
+        check_name: check.name,
+        pillar: check.pillar,
+        level: check.level,
+        passed: true,
+        required: check.required,
+        message: 'Custom check passed',
+      };
+    },
+  };
+
+  const customCheck = (type: string) =>
+    ({
+      id: 'test.custom',
+      name: 'Custom check',
+      description: 'Test',
+      type,
+      pillar: 'docs',
+      level: 'L1',
+      required: false,
+    }) as unknown as CheckConfig;
+
+  it('should dispatch registered check types', async () => {
+    registerCheckExecutor(executor);
+    try {
+      assert.ok(getSupportedCheckTypes().includes('always_pass'));
+
+      const result = await executeCheck(customCheck('always_pass'), createContext(MINIMAL_REPO));
+      assert.strictEqual(result.passed, true);
+      assert.strictEqual(result.message, 'Custom check passed');
+    } finally {
+      unregisterCheckExecutor('always_pass');
+    }
+
+    assert.ok(!getSupportedCheckTypes().includes('always_pass'));
+  });
+
+  it('should turn executor errors into failed results', async () => {
+    registerCheckExecutor({
+      type: 'always_throw',
+      async execute() {
+        throw new Error('boom');
+      },
+    });
+    try {
+      const result = await executeCheck(customCheck('always_throw'), createContext(MINIMAL_REPO));
+      assert.strictEqual(result.passed, false);
+      assert.match(result.message, /boom/);
+    } finally {
+      unregisterCheckExecutor('always_throw');
+    }
+  });
+
+  it('should refuse to override built-in or registered types', () => {
+    assert.throws(() => registerCheckExecutor({ ...executor, type: 'file_exists' }), /built-in/);
+
+    registerCheckExecutor(executor);
+    try {
+      // Same executor again is a no-op; a different one is a conflict
+      registerCheckExecutor(executor);
+      assert.throws(() => registerCheckExecutor({ ...executor }), /already registered/);
+    } finally {
+      unregisterCheckExecutor('always_pass');
+    }
+  });
+});
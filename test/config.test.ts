@@ -0,0 +1,357 @@
+/**
+ * Tests for repository config (.agent-ready.yml)
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import {
+  loadRepoConfig,
+  parseRepoConfig,
+  applyCheckOverrides,
+  applyWaivers,
+  isWaiverExpired,
+} from '../src/config/index.js';
+import { scan } from '../src/scanner.js';
+import type { CheckConfig, CheckResult, Waiver } from '../src/types.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const MINIMAL_REPO = path.join(__dirname, 'fixtures', 'minimal-repo');
+const MONOREPO = path.join(__dirname, 'fixtures', 'monorepo');
+
+function makeCheck(id: string, overrides?: Partial<CheckConfig>): CheckConfig {
+  return {
+    id,
+    name: id,
+    description: '',
+    type: 'file_exists',
+    pillar: 'docs',
+    level: 'L1',
+    required: false,
+    path: 'README.md',
+    ...overrides,
+  } as CheckConfig;
+}
+
+function makeResult(id: string, passed: boolean): CheckResult {
+  return {
+    check_id: id,
+    check_name: id,
+    pillar: 'docs',
+    level: 'L1',
+    passed,
+    required: false,
+    message: passed ? 'Passed' : 'Failed',
+  };
+}
+
+function makeWaiver(check: string, expires: string): Waiver {
+  return { check, reason: 'Tracked in backlog', owner: '@team', expires };
+}
+
+describe('parseRepoConfig', () => {
+  it('should parse all sections', () => {
+    const config = parseRepoConfig(`
+profile: factory_compat
+output: json
+disable:
+  - product.ab_testing
+overrides:
+  docs.readme:
+    level: L2
+    required: false
+    weight: 2
+waivers:
+  - check: security.codeowners
+    reason: Reorganizing teams
+    owner: "@platform"
+    expires: 2030-01-31
+`);
+
+    assert.strictEqual(config.profile, 'factory_compat');
+    assert.strictEqual(config.output, 'json');
+    assert.deepStrictEqual(config.disable, ['product.ab_testing']);
+    assert.deepStrictEqual(config.overrides['docs.readme'], {
+      level: 'L2',
+      required: false,
+      weight: 2,
+    });
+    assert.strictEqual(config.waivers.length, 1);
+    assert.strictEqual(config.waivers[0].expires, '2030-01-31');
+  });
+
+  it('should treat an empty file as an empty config', () => {
+    const config = parseRepoConfig('');
+    assert.deepStrictEqual(config, { disable: [], exclude: [], overrides: {}, waivers: [] });
+  });
+
+  it('should reject invalid output formats', () => {
+    assert.throws(() => parseRepoConfig('output: pdf'), /output/);
+  });
+
+  it('should reject invalid override levels', () => {
+    assert.throws(() => parseRepoConfig('overrides:\n  docs.readme:\n    level: L9'), /level/);
+  });
+
+  it('should require reason, owner and expires on waivers', () => {
+    assert.throws(
+      () => parseRepoConfig('waivers:\n  - check: docs.readme\n    reason: x\n    owner: y'),
+      /expires/
+    );
+  });
+
+  it('should parse and validate project_types', () => {
+    assert.deepStrictEqual(parseRepoConfig('project_types: [library, cli, cli]').project_types, [
+      'library',
+      'cli',
+    ]);
+    assert.throws(() => parseRepoConfig('project_types: [service]'), /'project_types' must be/);
+    assert.throws(() => parseRepoConfig('project_types: []'), /'project_types' must be/);
+  });
+
+  it('should parse monorepo app settings and rollup', () => {
+    const config = parseRepoConfig(`
+monorepo:
+  rollup: average
+  apps:
+    ./packages/api/:
+      project_types: [web-service]
+      disable: [docs.readme]
+      weight: 2
+`);
+    assert.deepStrictEqual(config.monorepo, {
+      rollup: 'average',
+      apps: {
+        'packages/api': {
+          project_types: ['web-service'],
+          disable: ['docs.readme'],
+          overrides: {},
+          weight: 2,
+        },
+      },
+    });
+    assert.throws(() => parseRepoConfig('monorepo:\n  rollup: max'), /'monorepo.rollup'/);
+    assert.throws(
+      () => parseRepoConfig('monorepo:\n  apps:\n    api:\n      weight: -1'),
+      /app 'api' 'weight'/
+    );
+  });
+
+  it('should reject malformed expiry dates', () => {
+    assert.throws(
+      () =>
+        parseRepoConfig(
+          'waivers:\n  - check: docs.readme\n    reason: x\n    owner: y\n    expires: next week'
+        ),
+      /YYYY-MM-DD/
+    );
+  });
+});
+
+describe('loadRepoConfig', () => {
+  it('should return an empty config when no file exists', async () => {
+    const config = await loadRepoConfig(MINIMAL_REPO);
+    assert.strictEqual(config.path, undefined);
+    assert.deepStrictEqual(config.disable, []);
+  });
+
+  it('should discover .agent-ready.yml at the root', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-ready-config-'));
+    try {
+      fs.writeFileSync(path.join(tempDir, '.agent-ready.yml'), 'profile: custom\n');
+      const config = await loadRepoConfig(tempDir);
+      assert.strictEqual(config.profile, 'custom');
+      assert.strictEqual(config.path, path.join(tempDir, '.agent-ready.yml'));
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('applyCheckOverrides', () => {
+  it('should drop disabled checks and patch overridden ones', () => {
+    const checks = [makeCheck('a'), makeCheck('b'), makeCheck('c')];
+    const result = applyCheckOverrides(checks, {
+      disable: ['b'],
+      overrides: { c: { level: 'L3', required: true, weight: 4 } },
+      waivers: [],
+    });
+
+    assert.deepStrictEqual(
+      result.map((c) => c.id),
+      ['a', 'c']
+    );
+    assert.strictEqual(result[1].level, 'L3');
+    assert.strictEqual(result[1].required, true);
+    assert.strictEqual(result[1].weight, 4);
+    // Original profile checks are not mutated
+    assert.strictEqual(checks[2].level, 'L1');
+  });
+});
+
+describe('waivers', () => {
+  const now = new Date('2026-06-15T12:00:00Z');
+
+  it('should treat the expiry date as inclusive', () => {
+    assert.strictEqual(isWaiverExpired(makeWaiver('a', '2026-06-15'), now), false);
+    assert.strictEqual(isWaiverExpired(makeWaiver('a', '2026-06-14'), now), true);
+  });
+
+  it('should set aside results covered by an active waiver', () => {
+    const { scored, waived, expired } = applyWaivers(
+      [makeResult('a', false), makeResult('b', true)],
+      [makeWaiver('a', '2026-12-31')],
+      now
+    );
+
+    assert.deepStrictEqual(
+      scored.map((r) => r.check_id),
+      ['b']
+    );
+    assert.strictEqual(waived.length, 1);
+    assert.strictEqual(waived[0].check_id, 'a');
+    assert.strictEqual(waived[0].waiver.owner, '@team');
+    assert.strictEqual(expired.length, 0);
+  });
+
+  it('should score checks with expired waivers as failures', () => {
+    const { scored, waived, expired } = applyWaivers(
+      [makeResult('a', false)],
+      [makeWaiver('a', '2026-01-01')],
+      now
+    );
+
+    assert.strictEqual(scored.length, 1);
+    assert.strictEqual(scored[0].passed, false);
+    assert.strictEqual(waived.length, 0);
+    assert.strictEqual(expired[0].check, 'a');
+  });
+});
+
+describe('scan with repository config', () => {
+  it('should apply disable and waivers from config', async () => {
+    const baseline = await scan({
+      path: MINIMAL_REPO,
+      profile: 'factory_compat',
+      output: 'json',
+      verbose: false,
+    });
+    const [firstFailed, secondFailed] = baseline.failed_checks;
+
+    const result = await scan({
+      path: MINIMAL_REPO,
+      profile: 'factory_compat',
+      output: 'json',
+      verbose: false,
+      config: {
+        disable: [firstFailed.check_id],
+        overrides: {},
+        waivers: [makeWaiver(secondFailed.check_id, '2999-12-31')],
+      },
+    });
+
+    const scoredIds = result.check_results.map((r) => r.check_id);
+    assert.ok(!scoredIds.includes(firstFailed.check_id), 'Disabled check should not run');
+    assert.ok(!scoredIds.includes(secondFailed.check_id), 'Waived check should not be scored');
+    assert.deepStrictEqual(
+      result.waived_checks?.map((r) => r.check_id),
+      [secondFailed.check_id]
+    );
+    assert.strictEqual(result.check_results.length, baseline.check_results.length - 2);
+  });
+
+  it('should filter checks by pinned project types', async () => {
+    const result = await scan({
+      path: MINIMAL_REPO,
+      profile: 'factory_compat',
+      output: 'json',
+      verbose: false,
+      config: {
+        disable: [],
+        exclude: [],
+        overrides: {},
+        waivers: [],
+        project_types: ['cli', 'web-service'],
+      },
+    });
+
+    assert.strictEqual(result.project_type.pinned, true);
+    assert.deepStrictEqual(
+      result.project_type.types.map((t) => t.type),
+      ['cli', 'web-service']
+    );
+    assert.strictEqual(result.checks_skipped_by_type, 0);
+  });
+
+  it('should apply per-app settings and roll up the monorepo level', async () => {
+    const config = parseRepoConfig(`
+monorepo:
+  rollup: min
+  apps:
+    packages/app-a:
+      project_types: [web-service]
+      disable: [docs.readme]
+`);
+    const result = await scan({
+      path: MONOREPO,
+      profile: 'factory_compat',
+      output: 'json',
+      verbose: false,
+      config,
+    });
+
+    const [appA, appB] = result.apps ?? [];
+    assert.strictEqual(appA.path, 'packages/app-a');
+    assert.deepStrictEqual(
+      appA.project_type?.types.map((t) => t.type),
+      ['web-service']
+    );
+    assert.strictEqual(appA.checks_skipped_by_type, 0);
+    assert.ok(!appA.failed_checks?.some((r) => r.check_id === 'docs.readme'));
+    // app-b has no README of its own and inherits the repository's
+    assert.strictEqual(appB.inherited_checks?.['docs.readme'], '.');
+    assert.ok(appB.pillars?.docs.checks_total);
+
+    assert.strictEqual(result.rollup?.policy, 'min');
+    assert.strictEqual(
+      result.overall_score,
+      Math.min(result.rollup.root_score, appA.score, appB.score)
+    );
+  });
+
+  it('should report waived checks and expired waivers of monorepo apps', async () => {
+    const result = await scan({
+      path: MONOREPO,
+      profile: 'factory_compat',
+      output: 'json',
+      verbose: false,
+      config: {
+        disable: [],
+        exclude: [],
+        overrides: {},
+        waivers: [
+          makeWaiver('docs.agents_md', '2999-12-31'),
+          makeWaiver('docs.readme', '2000-01-01'),
+        ],
+      },
+    });
+
+    for (const app of result.apps ?? []) {
+      assert.deepStrictEqual(
+        app.waived_checks?.map((r) => r.check_id),
+        ['docs.agents_md']
+      );
+      assert.ok(!app.failed_checks?.some((r) => r.check_id === 'docs.agents_md'));
+      assert.deepStrictEqual(
+        app.expired_waivers?.map((w) => w.check),
+        ['docs.readme']
+      );
+    }
+  });
+});
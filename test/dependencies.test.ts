@@ -0,0 +1,250 @@
+/**
+ * Tests for dependency manifest parsing and dependency-based checks
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+
+import { findDependencies, loadDependencies } from '../src/engine/dependencies.js';
+import { buildScanContext } from '../src/engine/context.js';
+import { executeCheck } from '../src/checks/index.js';
+import { createMemoryFileSystem } from '../src/vfs/index.js';
+import type { Dependency, DependencyDetectCheck, LogFrameworkDetectCheck } from '../src/types.js';
+
+const MANIFESTS: Record<string, string> = {
+  'requirements.txt': [
+    '# runtime',
+    'Flask[async]>=2.0 ; python_version >= "3.8"',
+    'opentelemetry-sdk==1.2.0 \\',
+    '    --hash=sha256:abc',
+    '-r requirements-dev.txt',
+    '-e git+https://github.com/org/tool.git#egg=internal_tool',
+  ].join('\n'),
+  'requirements-dev.txt': 'pytest\n',
+  'pyproject.toml': `
+[project]
+dependencies = ["structlog>=23"]
+
+[project.optional-dependencies]
+test = ["hypothesis"]
+
+[tool.poetry.dependencies]
+python = "^3.11"
+prometheus-client = { version = "^0.19" }
+
+[tool.poetry.group.lint.dependencies]
+ruff = "*"
+`,
+  Pipfile: '[packages]\nrequests = "*"\n\n[dev-packages]\nblack = "*"\n',
+  'go.mod': `module example.com/svc
+
+go 1.22
+
+require github.com/sirupsen/logrus v1.9.3
+
+require (
+\tgo.opentelemetry.io/otel/sdk v1.24.0
+\tgolang.org/x/sys v0.18.0 // indirect
+)
+`,
+  'Cargo.toml': `
+[dependencies]
+tracing = "0.1"
+otel = { package = "opentelemetry", version = "0.22" }
+
+[dev-dependencies]
+criterion = "0.5"
+
+[target.'cfg(unix)'.dependencies]
+nix = "0.28"
+`,
+  Gemfile: `source "https://rubygems.org"
+gem "rails", "~> 7.1"
+gem "rspec", group: :test
+group :development, :test do
+  gem "pry"
+end
+`,
+  'composer.json': JSON.stringify({
+    require: { php: '>=8.1', 'monolog/monolog': '^3.0' },
+    'require-dev': { 'phpunit/phpunit': '^10' },
+  }),
+  'pom.xml': `<project>
+  <dependencies>
+    <dependency>
+      <groupId>io.micrometer</groupId>
+      <artifactId>micrometer-registry-prometheus</artifactId>
+      <version>1.12.0</version>
+    </dependency>
+    <!-- <dependency><groupId>x</groupId><artifactId>commented</artifactId></dependency> -->
+    <dependency>
+      <groupId>org.junit.jupiter</groupId>
+      <artifactId>junit-jupiter</artifactId>
+      <scope>test</scope>
+    </dependency>
+  </dependencies>
+</project>`,
+  'service/build.gradle.kts': `dependencies {
+    implementation("io.opentelemetry:opentelemetry-api:1.36.0")
+    implementation(platform("org.springframework.boot:spring-boot-dependencies:3.2.0"))
+    testImplementation(group = "org.mockito", name = "mockito-core", version = "5.0.0")
+    // implementation("commented:out:1.0")
+}
+`,
+  'tools/lint/build.gradle': "implementation 'nested:too-deep:1.0'",
+  'package.json': JSON.stringify({ dependencies: { pino: '^8' }, devDependencies: { tsx: '^4' } }),
+};
+
+describe('loadDependencies', () => {
+  const load = () =>
+    loadDependencies(
+      createMemoryFileSystem(MANIFESTS),
+      JSON.parse(MANIFESTS['package.json']) as Record<string, never>
+    );
+  const names = (deps: Dependency[], source: string) =>
+    deps.filter((d) => d.source === source).map((d) => `${d.name}${d.dev ? ' (dev)' : ''}`);
+
+  it('should parse Python manifests', async () => {
+    const deps = await load();
+    assert.deepStrictEqual(names(deps, 'requirements.txt'), [
+      'Flask',
+      'opentelemetry-sdk',
+      'internal_tool',
+    ]);
+    assert.deepStrictEqual(names(deps, 'requirements-dev.txt'), ['pytest (dev)']);
+    assert.deepStrictEqual(names(deps, 'pyproject.toml'), [
+      'structlog',
+      'hypothesis (dev)',
+      'prometheus-client',
+      'ruff (dev)',
+    ]);
+    assert.deepStrictEqual(names(deps, 'Pipfile'), ['requests', 'black (dev)']);
+    assert.strictEqual(deps.find((d) => d.name === 'Flask')?.version, '>=2.0');
+  });
+
+  it('should parse Go, Rust, Ruby and PHP manifests', async () => {
+    const deps = await load();
+    assert.deepStrictEqual(names(deps, 'go.mod'), [
+      'github.com/sirupsen/logrus',
+      'go.opentelemetry.io/otel/sdk',
+      'golang.org/x/sys',
+    ]);
+    assert.deepStrictEqual(names(deps, 'Cargo.toml'), [
+      'tracing',
+      'opentelemetry',
+      'criterion (dev)',
+      'nix',
+    ]);
+    assert.deepStrictEqual(names(deps, 'Gemfile'), ['rails', 'rspec (dev)', 'pry (dev)']);
+    assert.deepStrictEqual(names(deps, 'composer.json'), [
+      'monolog/monolog',
+      'phpunit/phpunit (dev)',
+    ]);
+  });
+
+  it('should parse Maven and Gradle manifests', async () => {
+    const deps = await load();
+    assert.deepStrictEqual(names(deps, 'pom.xml'), [
+      'io.micrometer:micrometer-registry-prometheus',
+      'org.junit.jupiter:junit-jupiter (dev)',
+    ]);
+    assert.deepStrictEqual(names(deps, 'service/build.gradle.kts'), [
+      'io.opentelemetry:opentelemetry-api',
+      'org.springframework.boot:spring-boot-dependencies',
+      'org.mockito:mockito-core (dev)',
+    ]);
+    assert.strictEqual(
+      deps.find((d) => d.name === 'io.opentelemetry:opentelemetry-api')?.version,
+      '1.36.0'
+    );
+    assert.deepStrictEqual(names(deps, 'package.json'), ['pino', 'tsx (dev)']);
+  });
+
+  it('should skip manifests that fail to parse', async () => {
+    const deps = await loadDependencies(
+      createMemoryFileSystem({ 'Cargo.toml': '[dependencies\n', 'go.mod': 'require a v1\n' })
+    );
+    assert.deepStrictEqual(
+      deps.map((d) => d.name),
+      ['a']
+    );
+  });
+});
+
+describe('findDependencies', () => {
+  const deps: Dependency[] = [
+    { name: 'prometheus_client', ecosystem: 'pypi', dev: false, source: 'requirements.txt' },
+    { name: 'go.opentelemetry.io/otel/sdk', ecosystem: 'go', dev: false, source: 'go.mod' },
+    {
+      name: 'io.opentelemetry:opentelemetry-api',
+      ecosystem: 'maven',
+      dev: false,
+      source: 'pom.xml',
+    },
+    { name: '@sentry/node', ecosystem: 'npm', dev: false, source: 'package.json' },
+  ];
+  const find = (name: string) => findDependencies(deps, name).map((d) => d.source);
+
+  it('should match names the way each ecosystem compares them', () => {
+    assert.deepStrictEqual(find('Prometheus-Client'), ['requirements.txt']);
+    assert.deepStrictEqual(find('go.opentelemetry.io/otel'), ['go.mod']);
+    assert.deepStrictEqual(find('go.opentelemetry.io/ot'), []);
+    assert.deepStrictEqual(find('io.opentelemetry'), ['pom.xml']);
+    assert.deepStrictEqual(find('opentelemetry-api'), ['pom.xml']);
+    assert.deepStrictEqual(find('@sentry'), []);
+  });
+});
+
+describe('dependency checks on other ecosystems', () => {
+  const context = () => buildScanContext('/virtual/svc', { fs: createMemoryFileSystem(MANIFESTS) });
+
+  it('should expose dependencies on the scan context', async () => {
+    const { dependencies } = await context();
+    assert.ok(dependencies.some((d) => d.ecosystem === 'maven'));
+    assert.ok(dependencies.some((d) => d.name === 'pino' && d.source === 'package.json'));
+  });
+
+  it('should detect tracing packages in Go and Gradle manifests', async () => {
+    const check: DependencyDetectCheck = {
+      id: 'test.tracing',
+      name: 'Tracing',
+      description: 'Test',
+      type: 'dependency_detect',
+      pillar: 'observability',
+      level: 'L4',
+      required: false,
+      packages: ['go.opentelemetry.io/otel', 'io.opentelemetry'],
+    };
+    const result = await executeCheck(check, await context());
+    assert.strictEqual(result.passed, true);
+    assert.deepStrictEqual(result.matched_files, ['go.mod', 'service/build.gradle.kts']);
+    assert.deepStrictEqual(result.details?.packages, [
+      {
+        package: 'go.opentelemetry.io/otel',
+        source: 'go.mod',
+        name: 'go.opentelemetry.io/otel/sdk',
+      },
+      {
+        package: 'io.opentelemetry',
+        source: 'service/build.gradle.kts',
+        name: 'io.opentelemetry:opentelemetry-api',
+      },
+    ]);
+  });
+
+  it('should detect logging frameworks from manifests', async () => {
+    const check: LogFrameworkDetectCheck = {
+      id: 'test.logging',
+      name: 'Logging',
+      description: 'Test',
+      type: 'log_framework_detect',
+      pillar: 'observability',
+      level: 'L3',
+      required: false,
+      frameworks: ['logrus', 'structlog', 'log4j'],
+    };
+    const result = await executeCheck(check, await context());
+    assert.strictEqual(result.passed, true);
+    assert.deepStrictEqual(result.matched_files, ['go.mod', 'pyproject.toml']);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Tests for report diff
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import {
+  diffReports,
+  evaluateFailOn,
+  loadReport,
+  parseFailOn,
+  parseReport,
+} from '../src/diff/index.js';
+import { formatDiffJson, formatDiffMarkdown } from '../src/output/diff.js';
+import { formatJson, outputJson } from '../src/output/json.js';
+import { scan } from '../src/scanner.js';
+import type { ReportSnapshot } from '../src/types.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const MINIMAL_REPO = path.join(__dirname, 'fixtures', 'minimal-repo');
+
+function makeSnapshot(overrides?: Partial<ReportSnapshot>): ReportSnapshot {
+  return {
+    commit: 'abc123',
+    level: 'L2',
+    overall_score: 60,
+    pillars: {
+      docs: { level_achieved: 'L2', score: 70 },
+      test: { level_achieved: 'L1', score: 50 },
+    },
+    failed_checks: ['docs.contributing', 'test.integration'],
+    passed_checks: ['docs.readme', 'test.unit'],
+    ...overrides,
+  };
+}
+
+describe('parseReport', () => {
+  it('should read the readiness.json shape written by outputJson', async () => {
+    const result = await scan({
+      path: MINIMAL_REPO,
+      profile: 'factory_compat',
+      output: 'json',
+      verbose: false,
+    });
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-ready-diff-'));
+    try {
+      const reportPath = path.join(tempDir, 'readiness.json');
+      await outputJson(result, reportPath);
+      const snapshot = await loadReport(reportPath);
+
+      assert.strictEqual(snapshot.level, result.level);
+      assert.strictEqual(snapshot.overall_score, result.overall_score);
+      assert.deepStrictEqual(
+        snapshot.failed_checks,
+        result.failed_checks.map((c) => c.check_id)
+      );
+      assert.strictEqual(
+        snapshot.passed_checks?.length,
+        result.check_results.filter((c) => c.passed).length
+      );
+      assert.strictEqual(snapshot.pillars.docs?.score, result.pillars.docs.score);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should read a full ScanResult from formatJson', async () => {
+    const result = await scan({
+      path: MINIMAL_REPO,
+      profile: 'factory_compat',
+      output: 'json',
+      verbose: false,
+    });
+    const snapshot = parseReport(JSON.parse(formatJson(result)));
+
+    assert.strictEqual(snapshot.commit, result.commit);
+    assert.deepStrictEqual(
+      snapshot.passed_checks,
+      result.check_results.filter((c) => c.passed).map((c) => c.check_id)
+    );
+  });
+
+  it('should reject files that are not readiness reports', () => {
+    assert.throws(() => parseReport([]), /not an object/);
+    assert.throws(() => parseReport({ pillars: {} }), /overall_score/);
+  });
+
+  it('should fail clearly when a report is missing', async () => {
+    await assert.rejects(() => loadReport('/nonexistent/readiness.json'), /Report not found/);
+  });
+});
+
+describe('diffReports', () => {
+  it('should report level, score and pillar changes', () => {
+    const diff = diffReports(
+      makeSnapshot(),
+      makeSnapshot({
+        level: 'L3',
+        overall_score: 72.5,
+        pillars: {
+          docs: { level_achieved: 'L3', score: 90 },
+          test: { level_achieved: 'L1', score: 50 },
+        },
+      })
+    );
+
+    assert.strictEqual(diff.level_change, 'up');
+    assert.strictEqual(diff.score_delta, 12.5);
+    assert.deepStrictEqual(diff.pillars[0], {
+      pillar: 'docs',
+      before_level: 'L2',
+      after_level: 'L3',
+      before_score: 70,
+      after_score: 90,
+      score_delta: 20,
+    });
+    assert.strictEqual(diff.regression, false);
+  });
+
+  it('should list newly failing and newly passing checks', () => {
+    const diff = diffReports(
+      makeSnapshot(),
+      makeSnapshot({
+        failed_checks: ['test.integration', 'test.unit'],
+        passed_checks: ['docs.readme', 'docs.contributing'],
+      })
+    );
+
+    assert.deepStrictEqual(diff.newly_failing, ['test.unit']);
+    assert.deepStrictEqual(diff.newly_passing, ['docs.contributing']);
+    assert.strictEqual(diff.regression, true);
+  });
+
+  it('should not count checks dropped from the report as passing', () => {
+    const diff = diffReports(
+      makeSnapshot(),
+      makeSnapshot({ failed_checks: ['test.integration'], passed_checks: ['docs.readme'] })
+    );
+    assert.deepStrictEqual(diff.newly_passing, []);
+
+    // Reports that only list failures treat "no longer failing" as passing
+    const slim = diffReports(
+      makeSnapshot(),
+      makeSnapshot({ failed_checks: ['test.integration'], passed_checks: undefined })
+    );
+    assert.deepStrictEqual(slim.newly_passing, ['docs.contributing']);
+  });
+
+  it('should flag a level drop as a regression', () => {
+    const diff = diffReports(makeSnapshot(), makeSnapshot({ level: null }));
+
+    assert.strictEqual(diff.level_change, 'down');
+    assert.strictEqual(diff.regression, true);
+  });
+});
+
+describe('diff output', () => {
+  const diff = diffReports(
+    makeSnapshot(),
+    makeSnapshot({
+      level: 'L1',
+      overall_score: 55,
+      failed_checks: ['docs.contributing', 'test.integration', 'docs.readme'],
+      passed_checks: ['test.unit'],
+    })
+  );
+
+  it('should format Markdown', () => {
+    const markdown = formatDiffMarkdown(diff);
+
+    assert.match(markdown, /^## Readiness Diff/);
+    assert.match(markdown, /\| Score: \| 60% \| 55% \| -5 \|/);
+    assert.match(markdown, /### Newly Failing \(1\)\n\n- `docs.readme`/);
+    assert.match(markdown, /\*\*Regression detected\*\*/);
+  });
+
+  it('should format JSON', () => {
+    const parsed = JSON.parse(formatDiffJson(diff));
+
+    assert.strictEqual(parsed.before.level, 'L2');
+    assert.strictEqual(parsed.after.level, 'L1');
+    assert.strictEqual(parsed.level_change, 'down');
+    assert.deepStrictEqual(parsed.newly_failing, ['docs.readme']);
+    assert.strictEqual(parsed.regression, true);
+    assert.strictEqual(parsed.after.failed_checks, undefined);
+  });
+});
+
+describe('baseline fail-on conditions', () => {
+  it('should parse comma-separated conditions', () => {
+    assert.deepStrictEqual(parseFailOn('regression, level-drop,score-drop:2.5'), [
+      { type: 'regression' },
+      { type: 'level-drop' },
+      { type: 'score-drop', threshold: 2.5 },
+    ]);
+    assert.throws(() => parseFailOn('score-drop'), /Invalid fail-on condition 'score-drop'/);
+    assert.throws(() => parseFailOn('everything'), /Valid conditions/);
+  });
+
+  // test.new is a check the baseline never ran; test.unit passed in the baseline
+  const diff = diffReports(
+    makeSnapshot(),
+    makeSnapshot({
+      level: 'L1',
+      overall_score: 55,
+      failed_checks: ['docs.contributing', 'test.integration', 'test.unit', 'test.new'],
+      passed_checks: ['docs.readme'],
+    })
+  );
+
+  it('should only count checks that passed in the baseline as regressions', () => {
+    const [regression] = evaluateFailOn(diff, [{ type: 'regression' }]);
+    assert.deepStrictEqual(regression.checks, ['test.unit']);
+
+    const [newFailures] = evaluateFailOn(diff, [{ type: 'new-failures' }]);
+    assert.deepStrictEqual(newFailures.checks, ['test.unit', 'test.new']);
+  });
+
+  it('should apply level and score thresholds', () => {
+    assert.strictEqual(evaluateFailOn(diff, [{ type: 'level-drop' }]).length, 1);
+    assert.strictEqual(evaluateFailOn(diff, [{ type: 'score-drop', threshold: 5 }]).length, 0);
+    assert.strictEqual(evaluateFailOn(diff, [{ type: 'score-drop', threshold: 4 }]).length, 1);
+  });
+
+  it('should pass a legacy repo whose failures are all in the baseline', () => {
+    const legacy = makeSnapshot({ level: null, overall_score: 10 });
+    const unchanged = diffReports(legacy, { ...legacy, passed_checks: [...legacy.passed_checks!] });
+
+    assert.deepStrictEqual(
+      evaluateFailOn(unchanged, parseFailOn('regression,new-failures,level-drop,score-drop:0')),
+      []
+    );
+  });
+});
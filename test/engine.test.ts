@@ -10,11 +10,20 @@ import {
   determineAchievedLevel,
   calculateProgressToNext,
   calculateOverallScore,
+  calculatePillarSummaries,
+  calculateScoreContributions,
+  rollupLevels,
 } from '../src/engine/level-gate.js';
 import type { CheckResult, Level } from '../src/types.js';
 
 // Helper to create check results
-function makeResult(id: string, level: Level, passed: boolean, required: boolean): CheckResult {
+function makeResult(
+  id: string,
+  level: Level,
+  passed: boolean,
+  required: boolean,
+  weight?: number
+): CheckResult {
   return {
     check_id: id,
     check_name: id,
@@ -23,6 +32,7 @@ function makeResult(id: string, level: Level, passed: boolean, required: boolean
     passed,
     required,
     message: passed ? 'Passed' : 'Failed',
+    weight,
   };
 }
 
@@ -355,6 +365,80 @@ describe('calculateOverallScore', () => {
   });
 });
 
+describe('Weighted scoring', () => {
+  it('should weight the overall score by check weight', () => {
+    const results: CheckResult[] = [
+      makeResult('heavy', 'L1', true, false, 3),
+      makeResult('light', 'L1', false, false, 1),
+    ];
+
+    assert.strictEqual(calculateOverallScore(results), 75); // 3/4
+  });
+
+  it('should apply the 80% gate to weighted pass ratios', () => {
+    // 1/2 checks pass, but the passing check carries 90% of the weight
+    const results: CheckResult[] = [
+      makeResult('heavy', 'L1', true, false, 9),
+      makeResult('light', 'L1', false, false, 1),
+    ];
+
+    const summaries = calculateLevelSummaries(results);
+
+    assert.strictEqual(summaries.L1.checks_passed, 1);
+    assert.strictEqual(summaries.L1.weight_passed, 9);
+    assert.strictEqual(summaries.L1.weight_total, 10);
+    assert.strictEqual(summaries.L1.score, 90);
+    assert.strictEqual(summaries.L1.achieved, true);
+    assert.strictEqual(determineAchievedLevel(summaries), 'L5');
+  });
+
+  it('should fail the gate when a heavy check fails', () => {
+    const results: CheckResult[] = [
+      makeResult('heavy', 'L1', false, false, 9),
+      makeResult('light1', 'L1', true, false),
+      makeResult('light2', 'L1', true, false),
+    ];
+
+    const summaries = calculateLevelSummaries(results);
+
+    assert.strictEqual(summaries.L1.score, 18); // 2/11
+    assert.strictEqual(determineAchievedLevel(summaries), null);
+  });
+
+  it('should weight pillar scores', () => {
+    const results: CheckResult[] = [
+      makeResult('heavy', 'L1', true, false, 4),
+      makeResult('light', 'L1', false, false, 1),
+    ];
+
+    const pillars = calculatePillarSummaries(results);
+
+    assert.strictEqual(pillars.docs.score, 80);
+    assert.strictEqual(pillars.docs.weight_total, 5);
+  });
+
+  it('should treat missing weight as 1.0', () => {
+    const results: CheckResult[] = [
+      makeResult('c1', 'L1', true, false),
+      makeResult('c2', 'L1', false, false, 1),
+    ];
+
+    assert.strictEqual(calculateOverallScore(results), 50);
+  });
+
+  it('should report each check weight and score contribution', () => {
+    const results = calculateScoreContributions([
+      makeResult('heavy', 'L1', true, false, 3),
+      makeResult('light', 'L1', false, false),
+    ]);
+
+    assert.strictEqual(results[0].weight, 3);
+    assert.strictEqual(results[0].score_contribution, 75);
+    assert.strictEqual(results[1].weight, 1);
+    assert.strictEqual(results[1].score_contribution, 25);
+  });
+});
+
 describe('Factory.ai 80% Rule (Current Level Gating)', () => {
   // Factory.ai spec: "To unlock Level N, you must pass 80% of criteria from THAT level"
   // This means each level must meet its OWN 80% threshold, not the previous level's.
@@ -690,3 +774,51 @@ describe('Factory.ai 80% Rule (Current Level Gating)', () => {
     assert.strictEqual(level, 'L1'); // L1 achieved with no previous level
   });
 });
+
+describe('rollupLevels', () => {
+  const root = { level: 'L3' as Level, score: 80, progress_to_next: 0.5, weight: 1 };
+  const apps = [
+    { level: 'L1' as Level, score: 40, progress_to_next: 0.9, weight: 1 },
+    { level: 'L4' as Level, score: 90, progress_to_next: 0.2, weight: 2 },
+  ];
+
+  it('should keep the root level by default', () => {
+    assert.deepStrictEqual(rollupLevels('root', root, apps), {
+      level: 'L3',
+      score: 80,
+      progress_to_next: 0.5,
+    });
+  });
+
+  it('should take the lowest level and score', () => {
+    // Progress to L2 is app L1's; the others are past it
+    assert.deepStrictEqual(rollupLevels('min', root, apps), {
+      level: 'L1',
+      score: 40,
+      progress_to_next: 0.9,
+    });
+    assert.deepStrictEqual(
+      rollupLevels('min', root, [{ level: null, score: 0, progress_to_next: 0.3, weight: 1 }]),
+      { level: null, score: 0, progress_to_next: 0.3 }
+    );
+  });
+
+  it('should average by weight and round the level down', () => {
+    // (3 + 1 + 4 * 2) / 4 = 3; (80 + 40 + 90 * 2) / 4 = 75; to L4: (0.5 + 0 + 1 * 2) / 4
+    assert.deepStrictEqual(rollupLevels('average', root, apps), {
+      level: 'L3',
+      score: 75,
+      progress_to_next: 0.625,
+    });
+    // To L3: the root is there, the L1 app has not started
+    assert.deepStrictEqual(
+      rollupLevels('average', root, [{ level: 'L1', score: 50, progress_to_next: 0.4, weight: 1 }]),
+      { level: 'L2', score: 65, progress_to_next: 0.5 }
+    );
+  });
+
+  it('should report full progress at the top level', () => {
+    const top = { level: 'L5' as Level, score: 100, progress_to_next: 1, weight: 1 };
+    assert.strictEqual(rollupLevels('min', top, [top]).progress_to_next, 1);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Example check plugin used by the plugin tests
+ *
+ * Provides a `max_lines` check type that fails when a file is longer
+ * than the configured limit
+ */
+
+import type { CheckConfig, CheckPlugin, ScanContext } from '../../../src/types.js';
+
+interface MaxLinesCheck extends CheckConfig {
+  path: string;
+  max: number;
+}
+
+const plugin: CheckPlugin = {
+  name: 'max-lines',
+  executors: [
+    {
+      type: 'max_lines',
+      validate(check) {
+        if (typeof check.path !== 'string') {
+          throw new Error("'path' is required");
+        }
+        if (typeof check.max !== 'number') {
+          throw new Error("'max' must be a number");
+        }
+      },
+      async execute(check, context: ScanContext) {
+        const { path: file, max } = check as MaxLinesCheck;
+        const content = (await context.fs.readFile(file)) ?? '';
+        const lines = content.split('\n').length;
+
+        return {
+          check_id: check.id,
+          check_name: check.name,
+          pillar: check.pillar,
+          level: check.level,
+          passed: lines <= max,
+          required: check.required,
+          message: `${file} has ${lines} lines (max ${max})`,
+          matched_files: [file],
+        };
+      },
+    },
+  ],
+};
+
+export default plugin;
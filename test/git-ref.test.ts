@@ -0,0 +1,94 @@
+/**
+ * Tests for scanning git refs without a checkout
+ */
+
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { createGitFileSystem, loadGitTree } from '../src/vfs/index.js';
+import { scan } from '../src/scanner.js';
+
+describe('git ref scanning', () => {
+  let repoDir: string;
+
+  const git = (args: string[], date = '2024-01-01T00:00:00Z') =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: repoDir,
+      env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date },
+      encoding: 'utf-8',
+    }).trim();
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repoDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(repoDir, file), content);
+  };
+
+  before(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-ready-ref-'));
+    git(['init', '-q']);
+
+    write('README.md', '# Old readme\n');
+    write('docs/guide.md', 'Guide\n');
+    git(['add', '-A']);
+    git(['commit', '-q', '-m', 'first']);
+    git(['tag', 'v1']);
+
+    write('README.md', '# New readme\n');
+    write('AGENTS.md', '# Agents\n\n## Commands\n\n```bash\nnpm test\n```\n');
+    git(['add', '-A']);
+    git(['commit', '-q', '-m', 'second'], '2024-06-01T00:00:00Z');
+
+    // Uncommitted change: must not leak into ref scans
+    write('CONTRIBUTING.md', 'Working copy only\n');
+  });
+
+  after(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should fail on unknown refs', () => {
+    assert.throws(() => loadGitTree(repoDir, 'no-such-ref'), /Unknown git ref 'no-such-ref'/);
+  });
+
+  it('should read files as of the ref', async () => {
+    const tree = loadGitTree(repoDir, 'v1');
+    const fileSystem = createGitFileSystem(tree);
+
+    assert.strictEqual(tree.sha, git(['rev-parse', 'v1']));
+    assert.strictEqual(await fileSystem.readFile('README.md'), '# Old readme\n');
+    assert.strictEqual(await fileSystem.exists('AGENTS.md'), false);
+    assert.strictEqual(await fileSystem.exists('CONTRIBUTING.md'), false);
+    assert.strictEqual(await fileSystem.isDirectory('docs'), true);
+    assert.deepStrictEqual(await fileSystem.glob('**/*.md'), ['README.md', 'docs/guide.md']);
+
+    // The working copy is untouched
+    assert.strictEqual(fs.readFileSync(path.join(repoDir, 'README.md'), 'utf-8'), '# New readme\n');
+  });
+
+  it('should scan the files and commit of a ref, not the working copy', async () => {
+    const options = {
+      path: repoDir,
+      profile: 'factory_compat',
+      output: 'json' as const,
+      verbose: false,
+    };
+
+    const old = await scan({ ...options, ref: 'v1' });
+    const current = await scan(options);
+
+    assert.strictEqual(old.ref, 'v1');
+    assert.strictEqual(old.commit, git(['rev-parse', 'v1']));
+    assert.strictEqual(current.ref, undefined);
+
+    const failed = (result: typeof old, id: string) =>
+      result.failed_checks.some((c) => c.check_id === id);
+    assert.strictEqual(failed(old, 'docs.agents_md'), true);
+    assert.strictEqual(failed(current, 'docs.agents_md'), false);
+    assert.strictEqual(failed(old, 'docs.contributing'), true);
+    assert.strictEqual(failed(current, 'docs.contributing'), false);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for the history command's sampling, scanning and formatting
+ */
+
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { listCommits, parseInterval, sampleCommits, scanHistory } from '../src/history/index.js';
+import { formatHistoryCsv, sparkline } from '../src/output/history.js';
+import type { HistoryCommit, HistoryPoint } from '../src/types.js';
+
+const commit = (sha: string, committed_at: string): HistoryCommit => ({ sha, committed_at });
+
+describe('history', () => {
+  describe('parseInterval', () => {
+    it('should parse commit intervals', () => {
+      assert.deepStrictEqual(parseInterval('10'), { type: 'commits', count: 10 });
+      assert.deepStrictEqual(parseInterval('5 commits'), { type: 'commits', count: 5 });
+      assert.deepStrictEqual(parseInterval('1 commit'), { type: 'commits', count: 1 });
+    });
+
+    it('should parse week intervals', () => {
+      assert.deepStrictEqual(parseInterval('week'), { type: 'weeks', count: 1 });
+      assert.deepStrictEqual(parseInterval('2 weeks'), { type: 'weeks', count: 2 });
+    });
+
+    it('should reject invalid intervals', () => {
+      assert.throws(() => parseInterval('fortnight'), /Invalid interval 'fortnight'/);
+      assert.throws(() => parseInterval('0 commits'), /Invalid interval/);
+      assert.throws(() => parseInterval(''), /Invalid interval/);
+    });
+  });
+
+  describe('sampleCommits', () => {
+    const commits = [
+      commit('a', '2025-01-01T10:00:00Z'),
+      commit('b', '2025-01-03T10:00:00Z'),
+      commit('c', '2025-01-09T10:00:00Z'),
+      commit('d', '2025-01-10T10:00:00Z'),
+      commit('e', '2025-01-30T10:00:00Z'),
+    ];
+    const shas = (sampled: HistoryCommit[]) => sampled.map((c) => c.sha);
+
+    it('should take every nth commit and end at the newest', () => {
+      assert.deepStrictEqual(shas(sampleCommits(commits, { type: 'commits', count: 2 })), [
+        'a',
+        'c',
+        'e',
+      ]);
+      assert.deepStrictEqual(shas(sampleCommits(commits, { type: 'commits', count: 3 })), [
+        'a',
+        'd',
+        'e',
+      ]);
+    });
+
+    it('should take the last commit of each week', () => {
+      assert.deepStrictEqual(shas(sampleCommits(commits, { type: 'weeks', count: 1 })), [
+        'b',
+        'd',
+        'e',
+      ]);
+      assert.deepStrictEqual(shas(sampleCommits(commits, { type: 'weeks', count: 4 })), ['d', 'e']);
+    });
+
+    it('should handle an empty history', () => {
+      assert.deepStrictEqual(sampleCommits([], { type: 'weeks', count: 1 }), []);
+    });
+  });
+
+  describe('formatting', () => {
+    const points: HistoryPoint[] = [
+      {
+        ...commit('abc', '2025-01-01T10:00:00Z'),
+        level: null,
+        overall_score: 20,
+        pillars: { docs: 50 },
+      },
+      {
+        ...commit('def', '2025-01-08T10:00:00Z'),
+        level: 'L2',
+        overall_score: 85,
+        pillars: { docs: 100, build: 70 },
+      },
+    ];
+
+    it('should format CSV with one column per pillar', () => {
+      const lines = formatHistoryCsv(points).trim().split('\n');
+      const header = lines[0].split(',');
+
+      assert.deepStrictEqual(header.slice(0, 6), [
+        'commit',
+        'committed_at',
+        'level',
+        'overall_score',
+        'docs',
+        'style',
+      ]);
+      assert.strictEqual(lines.length, 3);
+
+      const row = Object.fromEntries(header.map((h, i) => [h, lines[1].split(',')[i]]));
+      assert.strictEqual(row.commit, 'abc');
+      assert.strictEqual(row.level, '');
+      assert.strictEqual(row.docs, '50');
+      assert.strictEqual(row.build, '');
+    });
+
+    it('should render scores as a sparkline', () => {
+      assert.strictEqual(sparkline([0, 50, 100]), '▁▅█');
+      assert.strictEqual(sparkline([]), '');
+    });
+  });
+
+  describe('scanHistory', () => {
+    let repoDir: string;
+
+    const git = (args: string[], date: string) =>
+      execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+        cwd: repoDir,
+        env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date },
+        encoding: 'utf-8',
+      });
+
+    before(() => {
+      repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-ready-history-'));
+      git(['init', '-q'], '2025-01-01T00:00:00Z');
+
+      fs.writeFileSync(path.join(repoDir, 'notes.txt'), 'Nothing here yet\n');
+      git(['add', '-A'], '2025-01-01T00:00:00Z');
+      git(['commit', '-q', '-m', 'first'], '2025-01-01T00:00:00Z');
+
+      fs.writeFileSync(path.join(repoDir, 'README.md'), '# Project\n\n## Installation\n');
+      fs.writeFileSync(path.join(repoDir, 'AGENTS.md'), '# Agents\n');
+      fs.writeFileSync(path.join(repoDir, 'CONTRIBUTING.md'), '# Contributing\n');
+      git(['add', '-A'], '2025-01-02T00:00:00Z');
+      git(['commit', '-q', '-m', 'second'], '2025-01-02T00:00:00Z');
+    });
+
+    after(() => {
+      fs.rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    it('should list commits oldest first, honoring since', () => {
+      assert.strictEqual(listCommits(repoDir).length, 2);
+      assert.strictEqual(listCommits(repoDir, '2025-01-01T12:00:00Z').length, 1);
+    });
+
+    it('should scan each sampled commit', async () => {
+      const progress: number[] = [];
+      const points = await scanHistory(
+        { path: repoDir, verbose: false, every: { type: 'commits', count: 1 } },
+        (_, current) => progress.push(current)
+      );
+
+      assert.strictEqual(points.length, 2);
+      assert.deepStrictEqual(progress, [1, 2]);
+      assert.strictEqual(points[1].sha, git(['rev-parse', 'HEAD'], '').trim());
+      assert.ok(points[1].overall_score > points[0].overall_score);
+      assert.ok(points[1].pillars.docs! > (points[0].pillars.docs ?? 0));
+    });
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Tests for Markdown parsing and the markdown_sections check
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+
+import {
+  headingSlug,
+  parseMarkdownAnchors,
+  parseMarkdownHeadings,
+  parseMarkdownLinks,
+  parseMarkdownSections,
+} from '../src/utils/markdown.js';
+import { parseProfile } from '../src/utils/yaml.js';
+import { executeCheck } from '../src/checks/index.js';
+import { buildScanContext } from '../src/engine/context.js';
+import { createMemoryFileSystem } from '../src/vfs/index.js';
+import type { DocsLinksCheck, MarkdownSectionsCheck } from '../src/types.js';
+
+const README = `---
+title: Demo
+---
+
+Demo Project
+============
+
+A small demo.
+
+## 🚀 Quick Start
+
+Install the package and run it from your shell to get going quickly.
+
+\`\`\`bash
+# Not a heading
+npm install demo
+\`\`\`
+
+### Requirements
+
+Node 20.
+
+Usage
+-----
+
+Call \`demo()\`.
+
+##### Deep heading ####
+`;
+
+describe('parseMarkdownHeadings', () => {
+  it('should parse ATX and setext headings outside code blocks', () => {
+    assert.deepStrictEqual(parseMarkdownHeadings(README), [
+      { level: 1, text: 'Demo Project', line: 5 },
+      { level: 2, text: '🚀 Quick Start', line: 10 },
+      { level: 3, text: 'Requirements', line: 19 },
+      { level: 2, text: 'Usage', line: 23 },
+      { level: 5, text: 'Deep heading', line: 28 },
+    ]);
+  });
+
+  it('should not treat list items or thematic breaks as headings', () => {
+    assert.deepStrictEqual(parseMarkdownHeadings('- item\n---\n\n---\n#hashtag\n'), []);
+  });
+});
+
+describe('parseMarkdownSections', () => {
+  it('should include subsections and count words outside code', () => {
+    const sections = parseMarkdownSections(README);
+    const quickStart = sections[1];
+    assert.strictEqual(quickStart.heading.text, '🚀 Quick Start');
+    assert.strictEqual(quickStart.has_code_block, true);
+    assert.strictEqual(quickStart.word_count, 15);
+    assert.strictEqual(sections[2].has_code_block, false);
+    assert.strictEqual(sections[3].word_count, 2);
+  });
+});
+
+describe('Markdown links and anchors', () => {
+  it('should find links outside code', () => {
+    const content = [
+      'See [guide](docs/guide.md "Guide") and ![logo](<img/logo 1.png>).',
+      '[![badge](https://img.shields.io/x)](https://example.com/ci)',
+      '`[not](a-link.md)`',
+      '```',
+      '[nor](this.md)',
+      '```',
+      '[ref]: ./CONTRIBUTING.md#setup',
+      '<https://example.com> <a href="LICENSE">License</a>',
+    ].join('\n');
+    assert.deepStrictEqual(parseMarkdownLinks(content), [
+      { target: 'docs/guide.md', line: 1 },
+      { target: 'img/logo 1.png', line: 1 },
+      { target: 'https://img.shields.io/x', line: 2 },
+      { target: 'https://example.com/ci', line: 2 },
+      { target: './CONTRIBUTING.md#setup', line: 7 },
+      { target: 'https://example.com', line: 8 },
+      { target: 'LICENSE', line: 8 },
+    ]);
+  });
+
+  it('should build GitHub heading anchors', () => {
+    assert.strictEqual(headingSlug('🚀 Quick Start'), '-quick-start');
+    assert.strictEqual(headingSlug('`scan --ref` (v0.7)'), 'scan---ref-v07');
+    assert.deepStrictEqual(
+      [...parseMarkdownAnchors('# Setup\n## Setup\n<a id="Custom"></a>\n')],
+      ['setup', 'setup-1', 'custom']
+    );
+  });
+});
+
+describe('markdown_sections check', () => {
+  const fileSystem = createMemoryFileSystem({ 'README.md': README });
+
+  const run = async (options: Partial<MarkdownSectionsCheck>) => {
+    const check: MarkdownSectionsCheck = {
+      id: 'test.sections',
+      name: 'Sections',
+      description: 'Test',
+      type: 'markdown_sections',
+      pillar: 'docs',
+      level: 'L2',
+      required: false,
+      path: 'README.md',
+      ...options,
+    };
+    return executeCheck(check, await buildScanContext('/virtual/demo', { fs: fileSystem }));
+  };
+
+  it('should match headings by any alias as whole words', async () => {
+    const result = await run({
+      sections: [
+        { heading: ['Installation', 'Quick Start'], min_words: 10, code_block: true },
+        { heading: 'usage' },
+      ],
+    });
+    assert.strictEqual(result.passed, true);
+    assert.deepStrictEqual(result.matched_files, ['README.md']);
+
+    const partial = await run({ sections: [{ heading: 'Start' }, { heading: 'Use' }] });
+    assert.strictEqual(partial.passed, false);
+    assert.match(partial.message, /missing section 'Use'/);
+  });
+
+  it('should report sections that are too short or lack code', async () => {
+    const result = await run({
+      sections: [{ heading: 'Usage', min_words: 5, code_block: true }, { heading: 'Contributing' }],
+    });
+    assert.strictEqual(result.passed, false);
+    assert.match(
+      result.message,
+      /section 'Usage' \(line 23\) has 2 word\(s\), expected at least 5 and has no fenced code block/
+    );
+    assert.deepStrictEqual(result.suggestions, [
+      "Expand the 'Usage' section of README.md to at least 5 words",
+      "Add a fenced code block under 'Usage' in README.md",
+      "Add a '## Contributing' section to README.md",
+    ]);
+  });
+
+  it('should enforce the maximum heading depth', async () => {
+    const result = await run({ max_depth: 3 });
+    assert.strictEqual(result.passed, false);
+    assert.match(result.message, /1 heading\(s\) deeper than level 3 \(line 28/);
+
+    assert.strictEqual((await run({ max_depth: 5 })).passed, true);
+  });
+
+  it('should fail on missing files', async () => {
+    const result = await run({ path: 'CLAUDE.md', sections: [{ heading: 'Commands' }] });
+    assert.strictEqual(result.passed, false);
+    assert.deepStrictEqual(result.suggestions, ['Create CLAUDE.md']);
+  });
+
+  it('should be validated when loading a profile', () => {
+    const profile = (check: string) => `
+name: sections
+checks:
+  - id: docs.readme
+    type: markdown_sections
+    pillar: docs
+    level: L2
+    path: README.md
+${check}
+`;
+    const parsed = parseProfile(
+      profile('    sections:\n      - heading: [Installation, Setup]\n        min_words: 20')
+    );
+    assert.strictEqual(parsed.checks[0].type, 'markdown_sections');
+
+    assert.throws(() => parseProfile(profile('')), /needs a 'sections' array or 'max_depth'/);
+    assert.throws(() => parseProfile(profile('    max_depth: 7')), /between 1 and 6/);
+    assert.throws(
+      () => parseProfile(profile('    sections:\n      - heading: []')),
+      /'heading' must be a string or a non-empty array/
+    );
+    assert.throws(
+      () => parseProfile(profile('    sections:\n      - heading: Usage\n        code_block: yes')),
+      /'code_block' must be a boolean/
+    );
+  });
+});
+
+describe('docs_links check', () => {
+  const fileSystem = createMemoryFileSystem({
+    'README.md': [
+      '# Demo',
+      '',
+      '[Guide](docs/guide.md#install) · [Usage](#usage) · [Site](https://example.com)',
+      '',
+      '## Usage',
+      '',
+      '[Missing](docs/missing.md) [Bad anchor](docs/guide.md#nope) [Up](../outside.md)',
+    ].join('\n'),
+    'docs/guide.md': '# Guide\n\n## Install\n\n[Home](/README.md) [Docs](./)\n',
+    'docs/image.png': '',
+  });
+
+  const run = async (pattern: string) => {
+    const check: DocsLinksCheck = {
+      id: 'test.links',
+      name: 'Links',
+      description: 'Test',
+      type: 'docs_links',
+      pillar: 'docs',
+      level: 'L3',
+      required: false,
+      pattern,
+    };
+    return executeCheck(check, await buildScanContext('/virtual/demo', { fs: fileSystem }));
+  };
+
+  it('should resolve relative links and anchors offline', async () => {
+    const result = await run('docs/**/*.md');
+    assert.strictEqual(result.passed, true);
+    assert.match(result.message, /2 local link\(s\) in 1 Markdown file\(s\) resolve/);
+  });
+
+  it('should list broken links with file and line', async () => {
+    const result = await run('**/*');
+    assert.strictEqual(result.passed, false);
+    assert.deepStrictEqual(result.locations, [
+      { path: 'README.md', line: 7, message: "Broken link 'docs/missing.md': file not found" },
+      {
+        path: 'README.md',
+        line: 7,
+        message: "Broken link 'docs/guide.md#nope': anchor '#nope' not found in docs/guide.md",
+      },
+      {
+        path: 'README.md',
+        line: 7,
+        message: "Broken link '../outside.md': points outside the repository",
+      },
+    ]);
+    assert.deepStrictEqual(result.matched_files, ['README.md']);
+    assert.deepStrictEqual(result.details?.external, [
+      { url: 'https://example.com', file: 'README.md', line: 3 },
+    ]);
+  });
+
+  it('should fail when no Markdown files match', async () => {
+    const result = await run('docs/*.png');
+    assert.strictEqual(result.passed, false);
+    assert.match(result.message, /No Markdown files match pattern/);
+  });
+
+  it('should require a pattern in profiles', () => {
+    assert.throws(
+      () =>
+        parseProfile(
+          'name: links\nchecks:\n  - { id: docs.links, type: docs_links, pillar: docs, level: L3 }\n'
+        ),
+      /missing required 'pattern' field/
+    );
+  });
+});
@@ -4,9 +4,15 @@
 
 import { describe, it, beforeEach } from 'node:test';
 import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
 
-import { formatJson } from '../src/output/json.js';
+import { formatJson, outputJson } from '../src/output/json.js';
 import { outputMarkdown } from '../src/output/markdown.js';
+import { formatSarif, getInformationUri } from '../src/output/sarif.js';
+import { formatJunit } from '../src/output/junit.js';
+import { formatHtml } from '../src/output/html.js';
 import { setLocale } from '../src/i18n/index.js';
 import type {
   ScanResult,
@@ -16,6 +22,8 @@ import type {
   Pillar,
   LevelSummary,
   CheckResult,
+  CheckConfig,
+  WaivedCheckResult,
   ProjectType,
 } from '../src/types.js';
 
@@ -135,11 +143,62 @@ function createMockScanResult(): ScanResult {
       type: 'library',
       confidence: 'medium',
       indicators: ['package.json has main field'],
+      types: [
+        { type: 'library', confidence: 'medium', indicators: ['package.json has main field'] },
+      ],
+      languages: [{ language: 'TypeScript', files: 12, percent: 100 }],
+      frameworks: [],
     },
     checks_skipped_by_type: 0,
   };
 }
 
+/**
+ * Mock scan result with failed docs.api and env.docker checks and a skipped
+ * env.k8s check, for the formatters that report individual checks
+ */
+function createFailingScanResult(overrides: Partial<ScanResult> = {}): ScanResult {
+  const result = createMockScanResult();
+  const failed: CheckResult[] = [
+    {
+      check_id: 'docs.api',
+      check_name: 'API documentation',
+      pillar: 'docs',
+      level: 'L3',
+      passed: false,
+      required: true,
+      message: 'File not found: docs/API.md',
+      suggestions: ['Create docs/API.md', 'Document <endpoint> parameters'],
+    },
+    {
+      check_id: 'env.docker',
+      check_name: 'Docker Compose',
+      pillar: 'env',
+      level: 'L3',
+      passed: false,
+      required: false,
+      message: 'Found 1 file, expected 2',
+      matched_files: ['docker-compose.yml'],
+    },
+  ];
+
+  return {
+    ...result,
+    check_results: [...result.check_results, ...failed],
+    failed_checks: failed,
+    skipped_checks: [
+      {
+        check_id: 'env.k8s',
+        check_name: 'Kubernetes manifests',
+        pillar: 'env',
+        level: 'L4',
+        reason: 'project_type',
+      },
+    ],
+    ...overrides,
+  };
+}
+
 describe('JSON output formatter', () => {
   it('should produce valid JSON', () => {
     const result = createMockScanResult();
@@ -223,6 +282,243 @@ describe('JSON output formatter', () => {
 
     assert.strictEqual(parsed.level, 'L2', 'Should have correct level');
   });
+
+  it('should write the weight and score contribution of failed checks', async () => {
+    const result = createMockScanResult();
+    result.failed_checks = [
+      {
+        check_id: 'docs.api',
+        check_name: 'API docs',
+        pillar: 'docs',
+        level: 'L3',
+        passed: false,
+        required: false,
+        message: 'No API docs',
+        weight: 2,
+        score_contribution: 12.5,
+      },
+    ];
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-ready-json-'));
+    try {
+      const outputPath = path.join(dir, 'readiness.json');
+      await outputJson(result, outputPath);
+      const [failed] = JSON.parse(fs.readFileSync(outputPath, 'utf-8')).failed_checks;
+
+      assert.strictEqual(failed.weight, 2);
+      assert.strictEqual(failed.score_contribution, 12.5);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('SARIF output formatter', () => {
+  const checks = [
+    {
+      id: 'docs.api',
+      name: 'API documentation',
+      description: 'API docs exist',
+      type: 'file_exists',
+      pillar: 'docs',
+      level: 'L3',
+      required: true,
+      path: 'docs/API.md',
+    },
+    {
+      id: 'env.docker',
+      name: 'Docker Compose',
+      description: 'docker-compose.yml exists',
+      type: 'path_glob',
+      pillar: 'env',
+      level: 'L3',
+      required: false,
+      pattern: 'docker-compose.y*ml',
+    },
+  ] as CheckConfig[];
+
+  it('should emit a SARIF 2.1.0 log with rules from check definitions', () => {
+    const sarif = formatSarif(createFailingScanResult(), checks);
+
+    assert.strictEqual(sarif.version, '2.1.0');
+    assert.strictEqual(sarif.runs.length, 1);
+
+    const rules = sarif.runs[0].tool.driver.rules;
+    assert.deepStrictEqual(
+      rules.map((r) => r.id),
+      ['docs.api', 'env.docker']
+    );
+    assert.strictEqual(rules[0].fullDescription.text, 'API docs exist');
+  });
+
+  it('should map failed checks to results', () => {
+    const [api, docker] = formatSarif(createFailingScanResult(), checks).runs[0].results;
+
+    assert.strictEqual(api.ruleId, 'docs.api');
+    assert.strictEqual(api.ruleIndex, 0);
+    // high priority -> error, medium -> warning
+    assert.strictEqual(api.level, 'error');
+    assert.strictEqual(docker.level, 'warning');
+    assert.match(api.message.text, /Fix: Create docs\/API\.md/);
+    assert.strictEqual(api.properties.fix, 'Create docs/API.md');
+  });
+
+  it('should locate results by matched files or the expected path', () => {
+    const [api, docker] = formatSarif(createFailingScanResult(), checks).runs[0].results;
+
+    assert.strictEqual(api.locations?.[0].physicalLocation.artifactLocation.uri, 'docs/API.md');
+    assert.strictEqual(
+      docker.locations?.[0].physicalLocation.artifactLocation.uri,
+      'docker-compose.yml'
+    );
+  });
+
+  it('should leave out locations when the check names no single file', () => {
+    const result = createFailingScanResult();
+    delete result.failed_checks[1].matched_files;
+    const [, docker] = formatSarif(result, checks).runs[0].results;
+
+    // 'docker-compose.y*ml' is a pattern, not a file
+    assert.strictEqual('locations' in docker, false);
+  });
+
+  it('should describe the tool from package.json', () => {
+    const { driver } = formatSarif(createFailingScanResult(), checks).runs[0].tool;
+    const packageJson = JSON.parse(fs.readFileSync('package.json', 'utf-8'));
+
+    assert.strictEqual(driver.name, 'agent-ready');
+    assert.strictEqual(driver.version, packageJson.version);
+    assert.strictEqual(driver.informationUri, packageJson.homepage);
+  });
+
+  it('should fall back to the repository URL for the tool link', () => {
+    assert.strictEqual(
+      getInformationUri({ repository: { url: 'git+https://github.com/acme/fork.git' } }),
+      'https://github.com/acme/fork'
+    );
+    assert.strictEqual(getInformationUri({ repository: 'acme/fork' }), undefined);
+  });
+
+  it('should add rules for failed checks missing from the definitions', () => {
+    const sarif = formatSarif(createFailingScanResult(), checks.slice(0, 1));
+    const { rules } = sarif.runs[0].tool.driver;
+
+    assert.strictEqual(rules.length, 2);
+    assert.strictEqual(sarif.runs[0].results[1].ruleIndex, 1);
+    assert.strictEqual(rules[1].name, 'Docker Compose');
+  });
+
+  it('should emit one result per line for checks with locations', () => {
+    const result = createFailingScanResult();
+    result.failed_checks[1].locations = [
+      { path: 'README.md', line: 3, message: "Broken link 'a.md': file not found" },
+      { path: 'docs/b.md', line: 10 },
+    ];
+    const results = formatSarif(result, checks).runs[0].results;
+
+    assert.strictEqual(results.length, 3);
+    assert.strictEqual(results[1].message.text, "Broken link 'a.md': file not found");
+    assert.deepStrictEqual(results[2].locations?.[0].physicalLocation, {
+      artifactLocation: { uri: 'docs/b.md', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 10 },
+    });
+    assert.strictEqual(results[2].message.text, 'Found 1 file, expected 2');
+  });
+});
+
+describe('JUnit output formatter', () => {
+  const waived_checks: WaivedCheckResult[] = [
+    {
+      check_id: 'security.codeowners',
+      check_name: 'CODEOWNERS',
+      pillar: 'security',
+      level: 'L2',
+      passed: false,
+      required: false,
+      message: 'Missing',
+      waiver: {
+        check: 'security.codeowners',
+        reason: 'Teams <reorg>',
+        owner: '@a',
+        expires: '2030-01-01',
+      },
+    },
+  ];
+
+  it('should emit one testsuite per pillar with checks', () => {
+    const xml = formatJunit(createFailingScanResult({ waived_checks }));
+
+    assert.ok(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>'));
+    assert.match(xml, /<testsuites name="agent-ready" tests="5" failures="2" skipped="2">/);
+    assert.strictEqual((xml.match(/<testsuite /g) ?? []).length, 3);
+    assert.match(xml, /<testsuite name="Documentation" id="docs" tests="2" failures="1"/);
+  });
+
+  it('should include message and suggestions in failures', () => {
+    const xml = formatJunit(createFailingScanResult({ waived_checks }));
+
+    assert.match(
+      xml,
+      /<testcase name="docs.api" classname="agent-ready.docs">\s*<failure message="File not found: docs\/API.md" type="L3">File not found: docs\/API.md\n- Create docs\/API.md\n- Document &lt;endpoint&gt; parameters<\/failure>/
+    );
+    assert.match(xml, /<testcase name="docs.readme" classname="agent-ready.docs"\/>/);
+  });
+
+  it('should report filtered and waived checks as skipped', () => {
+    const xml = formatJunit(createFailingScanResult({ waived_checks }));
+
+    assert.match(
+      xml,
+      /name="env.k8s"[^>]*>\s*<skipped message="Not applicable to project type &apos;library&apos;"\/>/
+    );
+    // XML special characters are escaped
+    assert.match(xml, /<skipped message="Waived until 2030-01-01 \(@a\): Teams &lt;reorg&gt;"\/>/);
+  });
+});
+
+describe('HTML output formatter', () => {
+  it('should render a self-contained page', () => {
+    const html = formatHtml(createFailingScanResult());
+
+    assert.ok(html.startsWith('<!DOCTYPE html>'));
+    assert.match(html, /<style>[\s\S]+<\/style>/);
+    assert.match(html, /<script>[\s\S]+<\/script>/);
+    // Nothing loaded from the network
+    assert.doesNotMatch(html, /\b(src|href)=/);
+    assert.doesNotMatch(html, /https?:/);
+  });
+
+  it('should list failed checks first with escaped suggestions', () => {
+    const html = formatHtml(createFailingScanResult());
+    const statuses = [...html.matchAll(/<tr data-status="(\w+)"/g)].map((m) => m[1]);
+
+    assert.strictEqual(statuses[0], 'failed');
+    assert.strictEqual(statuses.at(-1), 'skipped');
+    assert.strictEqual(statuses.length, createFailingScanResult().check_results.length + 1);
+    assert.match(html, /<li>Document &lt;endpoint&gt; parameters<\/li>/);
+    assert.match(html, /<option value="skipped">Skipped<\/option>/);
+  });
+
+  it('should include monorepo apps when present', () => {
+    const result = createFailingScanResult();
+    assert.doesNotMatch(formatHtml(result), /Monorepo Apps/);
+
+    result.apps = [
+      { name: 'web', path: 'apps/web', level: 'L2', score: 80, checks_passed: 8, checks_total: 10 },
+      {
+        name: 'api',
+        path: 'apps/api',
+        level: null,
+        score: 0,
+        checks_passed: 0,
+        checks_total: 0,
+        error: 'Scan failed',
+      },
+    ];
+    const html = formatHtml(result);
+    assert.match(html, /<h2>Monorepo Apps<\/h2>/);
+    assert.match(html, /<code>apps\/web<\/code><\/td><td class="level"[^>]*>L2<\/td><td>80%<\/td>/);
+    assert.match(html, /<td colspan="4" class="no">Scan failed<\/td>/);
+  });
 });
 
 describe('Markdown output formatter', () => {
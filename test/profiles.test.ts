@@ -2,12 +2,25 @@
  * Tests for profile loading and validation
  */
 
-import { describe, it } from 'node:test';
+import { describe, it, before, after } from 'node:test';
 import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
 
 import { loadProfile, loadDefaultProfile, listProfiles } from '../src/profiles/index.js';
+import { parseProfile } from '../src/utils/yaml.js';
+import { unregisterCheckExecutor } from '../src/checks/index.js';
+import { scan } from '../src/scanner.js';
+import { loadRepoConfig } from '../src/config/index.js';
 import type { Level, Pillar } from '../src/types.js';
 
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
 describe('Profile loading', () => {
   describe('loadDefaultProfile', () => {
     it('should load factory_compat profile by default', async () => {
@@ -117,6 +130,7 @@ describe('Profile checks structure', () => {
       'log_framework_detect',
       'git_freshness',
       'command_exists',
+      'docs_links',
     ];
 
     for (const check of profile.checks) {
@@ -247,3 +261,340 @@ describe('dependency_detect checks', () => {
     }
   });
 });
+
+describe('check weight', () => {
+  const profileWithWeight = (weight: string) => `
+name: weighted
+checks:
+  - id: docs.readme
+    type: file_exists
+    pillar: docs
+    level: L1
+    path: README.md
+    weight: ${weight}
+`;
+
+  it('should parse weight and default it to 1.0', () => {
+    assert.strictEqual(parseProfile(profileWithWeight('2.5')).checks[0].weight, 2.5);
+
+    const unweighted = parseProfile(profileWithWeight('2.5').replace(/\s+weight:.*/, ''));
+    assert.strictEqual(unweighted.checks[0].weight, 1.0);
+  });
+
+  it('should reject negative or non-numeric weights', () => {
+    assert.throws(() => parseProfile(profileWithWeight('-1')), /weight/);
+    assert.throws(() => parseProfile(profileWithWeight('"heavy"')), /weight/);
+  });
+});
+
+describe('composite checks', () => {
+  const profileWithChecks = (checks: string) => `
+name: composite
+checks:
+  - id: docs.readme_complete
+    type: all_of
+    pillar: docs
+    level: L1
+${checks}
+`;
+
+  it('should parse nested all_of and none_of checks', () => {
+    const profile = parseProfile(
+      profileWithChecks(`    checks:
+      - id: docs.readme
+        type: file_exists
+        pillar: docs
+        level: L1
+        path: README.md
+      - id: docs.no_env
+        type: none_of
+        pillar: docs
+        level: L1
+        checks:
+          - id: docs.env
+            type: file_exists
+            pillar: docs
+            level: L1
+            path: .env`)
+    );
+
+    const check = profile.checks[0];
+    assert.strictEqual(check.type, 'all_of');
+    assert.ok(check.type === 'all_of' && check.checks[1].type === 'none_of');
+  });
+
+  it('should reject missing or invalid nested checks', () => {
+    assert.throws(() => parseProfile(profileWithChecks('')), /missing required 'checks' array/);
+    assert.throws(
+      () => parseProfile(profileWithChecks('    checks: []')),
+      /missing required 'checks' array/
+    );
+    assert.throws(
+      () =>
+        parseProfile(
+          profileWithChecks(`    checks:
+      - id: docs.readme
+        type: file_exists
+        pillar: docs
+        level: L1`)
+        ),
+      /'docs.readme_complete' has an invalid nested check: .*'docs.readme'.*'path'/
+    );
+  });
+
+  it('should reject min_pass outside the nested check count', () => {
+    const anyOf = (minPass: string) =>
+      profileWithChecks(`    checks:
+      - id: docs.readme
+        type: file_exists
+        pillar: docs
+        level: L1
+        path: README.md`)
+        .replace('type: all_of', 'type: any_of')
+        .concat(`    min_pass: ${minPass}\n`);
+
+    assert.strictEqual(parseProfile(anyOf('1')).checks.length, 1);
+    assert.throws(() => parseProfile(anyOf('2')), /'min_pass' must be an integer between 1 and 1/);
+  });
+});
+
+describe('profile inheritance', () => {
+  let tempDir: string;
+
+  const write = (name: string, content: string) => {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-ready-profiles-'));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should extend a built-in profile with remove, override and add', async () => {
+    const base = await loadDefaultProfile();
+    const [removed, overridden] = base.checks;
+
+    const profilePath = write(
+      'team.yaml',
+      `
+name: team
+extends: factory_compat
+remove:
+  - ${removed.id}
+override:
+  ${overridden.id}:
+    level: L4
+    weight: 3
+add:
+  - id: team.spec
+    name: SPEC.md exists
+    type: file_exists
+    pillar: docs
+    level: L3
+    path: SPEC.md
+`
+    );
+
+    const profile = await loadProfile(profilePath);
+    const ids = profile.checks.map((c) => c.id);
+
+    assert.strictEqual(profile.name, 'team');
+    assert.deepStrictEqual(profile.extends, ['factory_compat']);
+    assert.strictEqual(profile.checks.length, base.checks.length);
+    assert.ok(!ids.includes(removed.id));
+    assert.ok(ids.includes('team.spec'));
+
+    const patched = profile.checks.find((c) => c.id === overridden.id)!;
+    assert.strictEqual(patched.level, 'L4');
+    assert.strictEqual(patched.weight, 3);
+    assert.strictEqual(patched.type, overridden.type);
+
+    assert.deepStrictEqual(profile.check_sources?.['team.spec'], { profile: 'team' });
+    assert.deepStrictEqual(profile.check_sources?.[overridden.id], {
+      profile: 'factory_compat',
+      overridden_by: ['team'],
+    });
+  });
+
+  it('should resolve relative paths recursively', async () => {
+    write(
+      'root.yaml',
+      `
+name: root
+checks:
+  - id: docs.readme
+    type: file_exists
+    pillar: docs
+    level: L1
+    path: README.md
+`
+    );
+    write(
+      'middle.yaml',
+      'name: middle\nextends: ./root.yaml\noverride:\n  docs.readme:\n    level: L2\n'
+    );
+    const leafPath = write(
+      'leaf.yaml',
+      'name: leaf\nextends: middle.yaml\noverride:\n  docs.readme:\n    required: true\n'
+    );
+
+    const profile = await loadProfile(leafPath);
+
+    assert.deepStrictEqual(profile.extends, ['middle', 'root']);
+    assert.strictEqual(profile.checks[0].level, 'L2');
+    assert.strictEqual(profile.checks[0].required, true);
+    assert.deepStrictEqual(profile.check_sources?.['docs.readme'], {
+      profile: 'root',
+      overridden_by: ['middle', 'leaf'],
+    });
+  });
+
+  it('should detect inheritance cycles', async () => {
+    write('cycle-a.yaml', 'name: a\nextends: cycle-b.yaml\n');
+    const cyclePath = write('cycle-b.yaml', 'name: b\nextends: cycle-a.yaml\n');
+
+    await assert.rejects(() => loadProfile(cyclePath), /cycle/);
+  });
+
+  it('should reject removing or overriding unknown checks', async () => {
+    const removePath = write(
+      'bad-remove.yaml',
+      'name: x\nextends: factory_compat\nremove: [nope]\n'
+    );
+    await assert.rejects(() => loadProfile(removePath), /unknown check 'nope'/);
+
+    const overridePath = write(
+      'bad-override.yaml',
+      'name: x\nextends: factory_compat\noverride:\n  nope:\n    level: L2\n'
+    );
+    await assert.rejects(() => loadProfile(overridePath), /unknown check 'nope'/);
+  });
+
+  it('should validate patched checks', async () => {
+    const base = await loadDefaultProfile();
+    const profilePath = write(
+      'bad-patch.yaml',
+      `name: x\nextends: factory_compat\noverride:\n  ${base.checks[0].id}:\n    level: L9\n`
+    );
+
+    await assert.rejects(() => loadProfile(profilePath), /invalid level/);
+  });
+
+  it('should not mark flat profiles as inherited', async () => {
+    const profile = await loadDefaultProfile();
+
+    assert.strictEqual(profile.extends, undefined);
+    assert.strictEqual(profile.check_sources, undefined);
+  });
+});
+
+describe('profile plugins', () => {
+  let tempDir: string;
+
+  const pluginPath = path.join(FIXTURES_DIR, 'plugins', 'max-lines-plugin.ts');
+
+  const write = (name: string, content: string) => {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const maxLinesProfile = (check: string) => `
+name: with-plugin
+plugins:
+  - ${path.relative(tempDir, pluginPath)}
+checks:
+  - id: docs.readme_short
+    name: README is short
+    type: max_lines
+    pillar: docs
+    level: L1
+${check}
+`;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-ready-plugins-'));
+  });
+
+  after(() => {
+    unregisterCheckExecutor('max_lines');
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load plugins relative to the profile and run their checks', async () => {
+    const profilePath = write('plugin.yaml', maxLinesProfile('    path: README.md\n    max: 500'));
+
+    const profile = await loadProfile(profilePath, { allowPlugins: true });
+    assert.deepStrictEqual(profile.plugins, [pluginPath]);
+    assert.strictEqual(profile.checks[0].type, 'max_lines');
+
+    const result = await scan({
+      path: path.join(FIXTURES_DIR, 'minimal-repo'),
+      profile: profilePath,
+      output: 'json',
+      verbose: false,
+      allowPlugins: true,
+    });
+    const check = result.check_results.find((r) => r.check_id === 'docs.readme_short');
+    assert.strictEqual(check?.passed, true);
+    assert.match(check?.message ?? '', /README\.md has \d+ lines/);
+  });
+
+  it('should apply the plugin validator', async () => {
+    const profilePath = write('bad-plugin.yaml', maxLinesProfile('    path: README.md'));
+
+    await assert.rejects(
+      () => loadProfile(profilePath, { allowPlugins: true }),
+      /'max' must be a number/
+    );
+  });
+
+  it('should reject unknown types without a plugin', () => {
+    assert.throws(
+      () =>
+        parseProfile(
+          'name: x\nchecks:\n  - id: a\n    type: nope\n    pillar: docs\n    level: L1\n'
+        ),
+      /unknown type 'nope'/
+    );
+  });
+
+  it('should report plugins that fail to load', async () => {
+    const profilePath = write(
+      'missing-plugin.yaml',
+      'name: x\nplugins: [./missing.js]\nchecks: []\n'
+    );
+
+    await assert.rejects(
+      () => loadProfile(profilePath, { allowPlugins: true }),
+      /Failed to load check plugin/
+    );
+  });
+
+  it('should not load plugins of a profile chosen by the repository config without opt-in', async () => {
+    const repoDir = path.join(tempDir, 'untrusted-repo');
+    fs.mkdirSync(path.join(repoDir, 'profiles'), { recursive: true });
+    fs.writeFileSync(
+      path.join(repoDir, 'profiles', 'evil.js'),
+      'globalThis.agentReadyEvilPlugin = true;\nexport default { name: "evil", executors: [] };\n'
+    );
+    fs.writeFileSync(
+      path.join(repoDir, 'profiles', 'repo.yaml'),
+      'name: repo\nplugins: [./evil.js]\nchecks: []\n'
+    );
+    fs.writeFileSync(path.join(repoDir, '.agent-ready.yml'), 'profile: profiles/repo.yaml\n');
+
+    const config = await loadRepoConfig(repoDir);
+    await assert.rejects(
+      () =>
+        scan({ path: repoDir, profile: config.profile!, config, output: 'json', verbose: false }),
+      /declares check plugins .*--allow-plugins/
+    );
+    assert.strictEqual((globalThis as Record<string, unknown>).agentReadyEvilPlugin, undefined);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Tests for project type detection across ecosystems
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+
+import { detectProjectType, isApplicableToProjectType } from '../src/engine/project-type.js';
+import { buildScanContext } from '../src/engine/context.js';
+import { createMemoryFileSystem } from '../src/vfs/index.js';
+
+const detect = async (files: Record<string, string>) =>
+  (await buildScanContext('/virtual/project', { fs: createMemoryFileSystem(files) })).project_type;
+
+describe('detectProjectType', () => {
+  it('should keep package.json detection', async () => {
+    const fileSystem = createMemoryFileSystem({ 'src/index.ts': '' });
+    const cli = await detectProjectType(fileSystem, { name: 'tool', bin: { tool: 'cli.js' } });
+    assert.strictEqual(cli.type, 'cli');
+
+    const library = await detectProjectType(fileSystem, {
+      name: 'ui',
+      main: 'index.js',
+      types: 'index.d.ts',
+      peerDependencies: { react: '^18' },
+    } as Record<string, never>);
+    assert.strictEqual(library.type, 'library');
+    assert.deepStrictEqual(library.frameworks, []);
+  });
+
+  it('should detect Python CLIs and services', async () => {
+    const cli = await detect({
+      'pyproject.toml': '[project]\nname = "tool"\n\n[project.scripts]\ntool = "tool.cli:main"\n',
+      'tool/cli.py': '',
+      Dockerfile: 'FROM python:3.12',
+    });
+    assert.strictEqual(cli.type, 'cli');
+    assert.deepStrictEqual(cli.indicators, ['pyproject.toml declares console scripts']);
+
+    const service = await detect({
+      'requirements.txt': 'fastapi==0.110\nuvicorn\n',
+      'app/main.py': '',
+    });
+    assert.strictEqual(service.type, 'web-service');
+    assert.deepStrictEqual(service.frameworks, ['FastAPI']);
+    assert.deepStrictEqual(service.indicators, [
+      'Found server framework: FastAPI (requirements.txt)',
+    ]);
+
+    const library = await detect({ 'pyproject.toml': '[project]\nname = "lib"\n' });
+    assert.strictEqual(library.type, 'library');
+  });
+
+  it('should detect Go mains and net/http servers', async () => {
+    const goMod = 'module example.com/x\n\ngo 1.22\n';
+    const cli = await detect({
+      'go.mod': `${goMod}require github.com/spf13/cobra v1.8.0\n`,
+      'cmd/x/main.go': 'package main\n\nfunc main() {}\n',
+    });
+    assert.strictEqual(cli.type, 'cli');
+    assert.strictEqual(cli.confidence, 'high');
+    assert.deepStrictEqual(cli.indicators, [
+      'Found Go main package: cmd/x/main.go',
+      'Found CLI framework: Cobra (go.mod)',
+    ]);
+
+    const service = await detect({
+      'go.mod': goMod,
+      'cmd/api/main.go': 'package main\n',
+      'internal/server/server.go':
+        'package server\n\nfunc Run() { http.ListenAndServe(":8080", nil) }\n',
+    });
+    assert.strictEqual(service.type, 'web-service');
+    assert.deepStrictEqual(service.indicators, [
+      'Found net/http server in internal/server/server.go',
+    ]);
+
+    const library = await detect({ 'go.mod': goMod, 'x.go': 'package x\n' });
+    assert.strictEqual(library.type, 'library');
+  });
+
+  it('should detect Rust binaries, libraries and servers', async () => {
+    const bin = await detect({
+      'Cargo.toml': '[package]\nname = "x"\n\n[[bin]]\nname = "x"\npath = "src/bin.rs"\n',
+    });
+    assert.strictEqual(bin.type, 'cli');
+
+    const library = await detect({ 'Cargo.toml': '[package]\nname = "x"\n', 'src/lib.rs': '' });
+    assert.strictEqual(library.type, 'library');
+
+    const service = await detect({
+      'Cargo.toml': '[package]\nname = "x"\n\n[dependencies]\naxum = "0.7"\n',
+      'src/main.rs': '',
+    });
+    assert.strictEqual(service.type, 'web-service');
+    assert.deepStrictEqual(service.frameworks, ['axum']);
+  });
+
+  it('should detect Spring Boot services', async () => {
+    const service = await detect({
+      'build.gradle.kts':
+        'dependencies {\n  implementation("org.springframework.boot:spring-boot-starter-web")\n}\n',
+      'src/main/kotlin/App.kt': '',
+      Dockerfile: 'FROM eclipse-temurin:21',
+    });
+    assert.strictEqual(service.type, 'web-service');
+    assert.strictEqual(service.confidence, 'high');
+    assert.deepStrictEqual(service.frameworks, ['Spring Boot']);
+  });
+
+  it('should list every type that applies', async () => {
+    const fileSystem = createMemoryFileSystem({ 'src/index.ts': '' });
+    const info = await detectProjectType(fileSystem, {
+      name: 'tool',
+      bin: { tool: 'cli.js' },
+      main: 'index.js',
+      exports: './index.js',
+    } as Record<string, never>);
+    assert.strictEqual(info.type, 'cli');
+    assert.deepStrictEqual(info.types, [
+      { type: 'cli', confidence: 'high', indicators: ['package.json has bin field'] },
+      {
+        type: 'library',
+        confidence: 'medium',
+        indicators: ['package.json has main field', 'package.json has exports field'],
+      },
+    ]);
+
+    const fullStack = await detect({
+      'package.json': JSON.stringify({
+        main: 'server.js',
+        dependencies: { express: '^4', react: '^18' },
+      }),
+      'vite.config.ts': '',
+    });
+    assert.deepStrictEqual(
+      fullStack.types.map((t) => `${t.type} (${t.confidence})`),
+      ['webapp (high)', 'web-service (medium)']
+    );
+  });
+
+  it('should prefer the most confident type as the primary one', async () => {
+    // A CLI framework alone is weaker evidence than a declared library target
+    const rust = await detect({
+      'Cargo.toml': '[package]\nname = "lib"\n\n[lib]\n\n[dependencies]\nclap = "4"\n',
+      'src/lib.rs': '',
+    });
+    assert.strictEqual(rust.type, 'library');
+    assert.strictEqual(rust.confidence, 'medium');
+    assert.deepStrictEqual(rust.frameworks, ['clap']);
+
+    // Equal confidence keeps priority order
+    const python = await detect({
+      'pyproject.toml': '[project]\nname = "tool"\ndependencies = ["click>=8"]\n',
+    });
+    assert.strictEqual(python.type, 'cli');
+    assert.strictEqual(python.confidence, 'low');
+  });
+
+  it('should not list deployment configs of a CLI as a web service', async () => {
+    const info = await detect({
+      'Cargo.toml': '[package]\nname = "x"\n',
+      'src/main.rs': '',
+      'src/lib.rs': '',
+      Dockerfile: 'FROM rust',
+    });
+    assert.deepStrictEqual(
+      info.types.map((t) => t.type),
+      ['cli', 'library']
+    );
+  });
+
+  it('should apply checks when any project type matches', () => {
+    assert.strictEqual(isApplicableToProjectType(['web-service'], ['cli', 'web-service']), true);
+    assert.strictEqual(isApplicableToProjectType(['webapp'], ['cli', 'library']), false);
+    assert.strictEqual(isApplicableToProjectType(undefined, ['cli']), true);
+    assert.strictEqual(isApplicableToProjectType(['cli'], 'cli'), true);
+  });
+
+  it('should count source files per language', async () => {
+    const info = await detect({
+      'go.mod': 'module example.com/x\n',
+      'a.go': '',
+      'b.go': '',
+      'c.go': '',
+      'scripts/gen.py': '',
+      'README.md': '',
+      Makefile: '',
+    });
+    assert.deepStrictEqual(info.languages, [
+      { language: 'Go', files: 3, percent: 75 },
+      { language: 'Python', files: 1, percent: 25 },
+    ]);
+  });
+});
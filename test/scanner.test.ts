@@ -2,13 +2,16 @@
  * Tests for scanner module
  */
 
-import { describe, it } from 'node:test';
+import { describe, it, before, after } from 'node:test';
 import * as assert from 'node:assert';
 import * as path from 'node:path';
 import * as fs from 'node:fs';
+import * as os from 'node:os';
 import { fileURLToPath } from 'node:url';
 
-import { scan } from '../src/scanner.js';
+import { scan, scanWithChecks } from '../src/scanner.js';
+import { parseRepoConfig } from '../src/config/index.js';
+import { createMemoryFileSystem } from '../src/vfs/index.js';
 import type { Pillar, ScanOptions } from '../src/types.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -274,4 +277,150 @@ describe('Scanner options', () => {
     const result = await scan(createScanOptions(FIXTURES_DIR, { level: 'L2' }));
     assert.ok(result);
   });
+
+  it('should record checks skipped by level filtering', async () => {
+    const result = await scan(createScanOptions(FIXTURES_DIR, { level: 'L2' }));
+    const skippedByLevel = result.skipped_checks?.filter((c) => c.reason === 'level') ?? [];
+
+    assert.ok(skippedByLevel.length > 0, 'Should skip checks above L2');
+    assert.ok(skippedByLevel.every((c) => c.level !== 'L1' && c.level !== 'L2'));
+    assert.strictEqual(
+      result.skipped_checks?.filter((c) => c.reason === 'project_type').length,
+      result.checks_skipped_by_type
+    );
+  });
+
+  it('should return the check definitions the scan ran with', async () => {
+    const config = parseRepoConfig('overrides:\n  docs.readme:\n    level: L3');
+    const { result, checks } = await scanWithChecks(createScanOptions(FIXTURES_DIR, { config }));
+
+    assert.ok(result.check_results.length > 0);
+    assert.strictEqual(checks.find((c) => c.id === 'docs.readme')?.level, 'L3');
+  });
+});
+
+describe('Monorepo app scanning', () => {
+  let tempDir: string;
+  let appProfile: string;
+
+  const MONOREPO_FILES = {
+    'package.json': JSON.stringify({ name: 'mono', workspaces: ['packages/*'] }),
+    'README.md': '# Mono\n\nA monorepo.\n',
+    'packages/api/package.json': JSON.stringify({
+      name: 'api',
+      main: 'server.js',
+      dependencies: { express: '^4' },
+    }),
+    'packages/api/README.md': '# API\n',
+    'packages/cli/package.json': JSON.stringify({ name: 'cli', bin: { cli: 'cli.js' } }),
+  };
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-ready-apps-'));
+    appProfile = path.join(tempDir, 'service.yaml');
+    fs.writeFileSync(
+      appProfile,
+      `name: service
+checks:
+  - id: service.readme
+    name: README exists
+    type: file_exists
+    pillar: docs
+    level: L1
+    path: README.md
+  - id: service.openapi
+    name: OpenAPI spec exists
+    type: file_exists
+    pillar: docs
+    level: L1
+    path: openapi.yaml
+    applicableTo: [web-service]
+  - id: service.cli_help
+    name: CLI help exists
+    type: file_exists
+    pillar: docs
+    level: L1
+    path: docs/cli.md
+    applicableTo: [cli]
+`
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should scan each app with its own profile, overrides and project type', async () => {
+    const config = parseRepoConfig(`
+monorepo:
+  rollup: min
+  apps:
+    packages/api:
+      profile: ${appProfile}
+    packages/cli:
+      overrides:
+        docs.agents_md:
+          level: L1
+`);
+    const result = await scan(
+      createScanOptions('/virtual/mono', { fs: createMemoryFileSystem(MONOREPO_FILES), config })
+    );
+
+    const [api, cli] = result.apps ?? [];
+    assert.strictEqual(api.path, 'packages/api');
+    assert.strictEqual(api.profile, 'service');
+    assert.strictEqual(api.project_type?.type, 'web-service');
+    // The CLI check of the app profile does not apply to a web service
+    assert.strictEqual(api.checks_total, 2);
+    assert.strictEqual(api.checks_skipped_by_type, 1);
+    assert.deepStrictEqual(
+      api.failed_checks?.map((r) => r.check_id),
+      ['service.openapi']
+    );
+    assert.strictEqual(api.pillars?.docs.checks_total, 2);
+    assert.strictEqual(api.pillars?.docs.score, 50);
+    assert.strictEqual(api.level, null);
+
+    assert.strictEqual(cli.path, 'packages/cli');
+    assert.strictEqual(cli.profile, undefined);
+    assert.strictEqual(cli.project_type?.type, 'cli');
+    assert.ok(cli.checks_skipped_by_type! > 0, 'Web checks should be skipped for a CLI');
+    const agentsMd = cli.failed_checks?.find((r) => r.check_id === 'docs.agents_md');
+    assert.strictEqual(agentsMd?.level, 'L1');
+
+    // The headline follows the min rollup; the root keeps its own values
+    assert.strictEqual(result.rollup?.policy, 'min');
+    assert.strictEqual(result.level, null);
+    assert.strictEqual(
+      result.overall_score,
+      Math.min(result.rollup.root_score, api.score, cli.score)
+    );
+    assert.ok(result.progress_to_next <= api.progress_to_next!);
+  });
+
+  for (const policy of ['min', 'average'] as const) {
+    it(`should leave apps that failed to scan out of the ${policy} rollup`, async () => {
+      const config = parseRepoConfig(`
+monorepo:
+  rollup: ${policy}
+  apps:
+    packages/api:
+      profile: ${path.join(tempDir, 'missing.yaml')}
+`);
+      const result = await scan(
+        createScanOptions('/virtual/mono', { fs: createMemoryFileSystem(MONOREPO_FILES), config })
+      );
+
+      const [api, cli] = result.apps ?? [];
+      assert.ok(api.error);
+      assert.deepStrictEqual(result.rollup?.errored_apps, ['packages/api']);
+      // The headline is the rollup of the root and the CLI alone
+      const expected =
+        policy === 'min'
+          ? Math.min(result.rollup.root_score, cli.score)
+          : Math.round((result.rollup.root_score + cli.score) / 2);
+      assert.strictEqual(result.overall_score, expected);
+      assert.ok(result.overall_score > 0);
+    });
+  }
 });
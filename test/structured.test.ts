@@ -0,0 +1,221 @@
+/**
+ * Tests for structured file parsing and the structured_match check
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+
+import { parseToml } from '../src/utils/toml.js';
+import { parseJsonc } from '../src/utils/jsonc.js';
+import { parseProfile } from '../src/utils/yaml.js';
+import { evaluatePathExpression, parsePathExpression } from '../src/checks/structured-match.js';
+import { executeCheck } from '../src/checks/index.js';
+import { buildScanContext } from '../src/engine/context.js';
+import { createMemoryFileSystem } from '../src/vfs/index.js';
+import type { StructuredAssertion, StructuredMatchCheck } from '../src/types.js';
+
+const PYPROJECT = `
+[project]
+name = "demo"
+dependencies = [
+  "requests>=2.0",  # HTTP
+  "rich",
+]
+
+[tool.pytest.ini_options]
+addopts = "-ra"
+testpaths = ['tests']
+
+[[tool.mypy.overrides]]
+module = "vendor.*"
+ignore_errors = true
+`;
+
+const TSCONFIG = `{
+  // Strictness
+  "compilerOptions": {
+    "strict": true,
+    "target": "ES2022", /* modern */
+  },
+}`;
+
+const SETTINGS = JSON.stringify({ permissions: { deny: ['Bash(rm:*)'], allow: [] } });
+
+describe('parseToml', () => {
+  it('should parse tables, arrays of tables and inline values', () => {
+    const doc = parseToml(PYPROJECT);
+    assert.deepStrictEqual(doc.project, { name: 'demo', dependencies: ['requests>=2.0', 'rich'] });
+    assert.deepStrictEqual(doc.tool, {
+      pytest: { ini_options: { addopts: '-ra', testpaths: ['tests'] } },
+      mypy: { overrides: [{ module: 'vendor.*', ignore_errors: true }] },
+    });
+  });
+
+  it('should parse strings, numbers, dates and dotted keys', () => {
+    const doc = parseToml(`
+a.b = { c = 1_000, d = 0x1f, e = 1.5 }
+s = "tab\\there \\u00e9"
+l = 'C:\\path'
+m = """
+line one
+line two"""
+when = 1979-05-27T07:32:00Z
+`);
+    assert.deepStrictEqual(doc.a, { b: { c: 1000, d: 31, e: 1.5 } });
+    assert.strictEqual(doc.s, 'tab\there é');
+    assert.strictEqual(doc.l, 'C:\\path');
+    assert.strictEqual(doc.m, 'line one\nline two');
+    assert.strictEqual(doc.when, '1979-05-27T07:32:00Z');
+  });
+
+  it('should report the line of invalid documents', () => {
+    assert.throws(() => parseToml('a = 1\na = 2'), /line 2: duplicate key 'a'/);
+    assert.throws(() => parseToml('x = [1 2]'), /line 1/);
+    assert.throws(() => parseToml('s = "open'), /unterminated string/);
+  });
+});
+
+describe('parseJsonc', () => {
+  it('should allow comments and trailing commas', () => {
+    assert.deepStrictEqual(parseJsonc(TSCONFIG), {
+      compilerOptions: { strict: true, target: 'ES2022' },
+    });
+  });
+
+  it('should leave comment markers inside strings alone', () => {
+    assert.deepStrictEqual(parseJsonc('{"url": "http://x/*y*/", "s": "a,]"}'), {
+      url: 'http://x/*y*/',
+      s: 'a,]',
+    });
+  });
+});
+
+describe('path expressions', () => {
+  const doc = { a: { 'b.c': [{ d: 1 }, { d: 2 }] } };
+
+  it('should parse keys, indexes, wildcards and quoted keys', () => {
+    assert.deepStrictEqual(parsePathExpression('a["b.c"][1].d'), [
+      { key: 'a' },
+      { key: 'b.c' },
+      { index: 1 },
+      { key: 'd' },
+    ]);
+    assert.throws(() => parsePathExpression('a..b'), /empty segment/);
+    assert.throws(() => parsePathExpression('a[x]'), /unsupported segment/);
+  });
+
+  it('should evaluate to every matching value', () => {
+    assert.deepStrictEqual(evaluatePathExpression(doc, 'a["b.c"][*].d'), [
+      { path: 'a["b.c"][0].d', value: 1 },
+      { path: 'a["b.c"][1].d', value: 2 },
+    ]);
+    assert.deepStrictEqual(evaluatePathExpression(doc, 'a.missing'), []);
+  });
+});
+
+describe('structured_match check', () => {
+  const fileSystem = createMemoryFileSystem({
+    'pyproject.toml': PYPROJECT,
+    'tsconfig.json': TSCONFIG,
+    '.claude/settings.json': SETTINGS,
+    'broken.toml': 'a = ',
+  });
+
+  const run = async (filePath: string, assertions: StructuredAssertion[]) => {
+    const check: StructuredMatchCheck = {
+      id: 'test.structured',
+      name: 'Structured',
+      description: 'Test',
+      type: 'structured_match',
+      pillar: 'style',
+      level: 'L2',
+      required: false,
+      path: filePath,
+      assertions,
+    };
+    return executeCheck(check, await buildScanContext('/virtual/demo', { fs: fileSystem }));
+  };
+
+  it('should pass when every assertion holds and report matched values', async () => {
+    const result = await run('tsconfig.json', [
+      { path: 'compilerOptions.strict', equals: true },
+      { path: 'compilerOptions.target', matches: '^ES20[2-9]\\d$' },
+    ]);
+    assert.strictEqual(result.passed, true);
+    assert.deepStrictEqual(result.matched_files, ['tsconfig.json']);
+    const assertions = result.details?.assertions as { values: unknown[] }[];
+    assert.deepStrictEqual(assertions[1].values, ['ES2022']);
+  });
+
+  it('should evaluate TOML tables and arrays', async () => {
+    const result = await run('pyproject.toml', [
+      { path: 'tool.pytest', exists: true },
+      { path: 'project.dependencies', contains: 'rich', min_length: 2 },
+      { path: 'tool.mypy.overrides[*].ignore_errors', equals: true },
+      { path: 'tool.black', exists: false },
+    ]);
+    assert.strictEqual(result.passed, true);
+  });
+
+  it('should fail with the unmet assertions', async () => {
+    const result = await run('.claude/settings.json', [
+      { path: 'permissions.deny', min_length: 1 },
+      { path: 'permissions.allow', min_length: 1 },
+      { path: 'hooks', exists: true },
+    ]);
+    assert.strictEqual(result.passed, false);
+    assert.match(result.message, /fails 2\/3 assertion/);
+    assert.deepStrictEqual(result.suggestions, [
+      'Update .claude/settings.json so that permissions.allow has at least 1 item(s)',
+      'Update .claude/settings.json so that hooks exists',
+    ]);
+  });
+
+  it('should fail on missing or unparsable files', async () => {
+    const missing = await run('Cargo.toml', [{ path: 'package', exists: true }]);
+    assert.strictEqual(missing.passed, false);
+    assert.deepStrictEqual(missing.suggestions, ['Create Cargo.toml']);
+
+    const broken = await run('broken.toml', [{ path: 'a', exists: true }]);
+    assert.strictEqual(broken.passed, false);
+    assert.match(broken.message, /Failed to parse broken.toml as toml/);
+  });
+
+  it('should be validated when loading a profile', () => {
+    const profile = (check: string) => `
+name: structured
+checks:
+  - id: style.strict
+    type: structured_match
+    pillar: style
+    level: L2
+${check}
+`;
+    const parsed = parseProfile(
+      profile(`    path: tsconfig.json
+    assertions:
+      - path: compilerOptions.strict
+        equals: true`)
+    );
+    assert.strictEqual(parsed.checks[0].type, 'structured_match');
+
+    assert.throws(
+      () => parseProfile(profile('    path: tsconfig.json')),
+      /missing required 'assertions' array/
+    );
+    assert.throws(
+      () =>
+        parseProfile(
+          profile('    path: settings.ini\n    assertions:\n      - path: a\n        exists: true')
+        ),
+      /cannot infer the format/
+    );
+    assert.throws(
+      () =>
+        parseProfile(
+          profile('    path: tsconfig.json\n    assertions:\n      - path: compilerOptions')
+        ),
+      /needs one of: exists, equals, matches, contains, min_length/
+    );
+  });
+});
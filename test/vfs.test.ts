@@ -0,0 +1,367 @@
+/**
+ * Tests for the virtual file systems behind ScanContext
+ */
+
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as zlib from 'node:zlib';
+import { fileURLToPath } from 'node:url';
+
+import {
+  buildFileIndex,
+  createArchiveFileSystem,
+  createLocalFileSystem,
+  createAppLayers,
+  createMemoryFileSystem,
+  loadArchiveFileSystem,
+  normalizeScanPath,
+  scopeFileSystem,
+} from '../src/vfs/index.js';
+import { buildScanContext } from '../src/engine/context.js';
+import { executeCheck } from '../src/checks/index.js';
+import { scan } from '../src/scanner.js';
+import type { FileExistsCheck, PathGlobCheck } from '../src/types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const MINIMAL_REPO = path.join(__dirname, 'fixtures', 'minimal-repo');
+
+const MONOREPO_FILES = {
+  'package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+  '.editorconfig': 'root = true\n',
+  '.github/CODEOWNERS': '* @org/team\n',
+  'packages/a/package.json': '{}',
+  'packages/a/README.md': '# A\n',
+  'packages/b/package.json': '{}',
+  'packages/b/README.md': '# B\n',
+  'packages/b/src/index.ts': 'export {};\n',
+};
+
+const REPO_FILES = {
+  'README.md': '# Demo\n\n## Installation\n',
+  'package.json': JSON.stringify({ name: 'demo', scripts: { build: 'tsc', test: 'node --test' } }),
+  'src/index.ts': 'export {};\n',
+  'src/utils/helpers.ts': 'export {};\n',
+  'node_modules/dep/index.js': '',
+};
+
+/**
+ * Build a zip archive (stored and deflated entries) in memory
+ */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content], i) => {
+    const raw = Buffer.from(content);
+    const method = i % 2 === 0 ? 8 : 0;
+    const data = method === 8 ? zlib.deflateRawSync(raw) : raw;
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  });
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('virtual file systems', () => {
+  describe('normalizeScanPath', () => {
+    it('should normalize relative paths', () => {
+      assert.strictEqual(normalizeScanPath('docs/./guide.md'), 'docs/guide.md');
+      assert.strictEqual(normalizeScanPath('docs/'), 'docs');
+      assert.strictEqual(normalizeScanPath('.'), '');
+    });
+
+    it('should reject paths escaping the root', () => {
+      assert.strictEqual(normalizeScanPath('../secret'), null);
+      assert.strictEqual(normalizeScanPath('docs/../../secret'), null);
+      assert.strictEqual(normalizeScanPath('/etc/passwd'), null);
+    });
+  });
+
+  describe('memory', () => {
+    const fileSystem = createMemoryFileSystem(REPO_FILES);
+
+    it('should serve files and directories', async () => {
+      assert.strictEqual(await fileSystem.readFile('README.md'), REPO_FILES['README.md']);
+      assert.strictEqual(await fileSystem.readFile('missing.md'), null);
+      assert.strictEqual(await fileSystem.exists('src/utils'), true);
+      assert.strictEqual(await fileSystem.isDirectory('src'), true);
+      assert.strictEqual(await fileSystem.isDirectory('README.md'), false);
+      assert.deepStrictEqual((await fileSystem.readDirectory('')).directories.sort(), [
+        'node_modules',
+        'src',
+      ]);
+      assert.deepStrictEqual(await fileSystem.readDirectory('src'), {
+        files: ['index.ts'],
+        directories: ['utils'],
+      });
+    });
+
+    it('should glob without ignored directories', async () => {
+      assert.deepStrictEqual(await fileSystem.glob('**/*.ts'), [
+        'src/index.ts',
+        'src/utils/helpers.ts',
+      ]);
+      assert.deepStrictEqual(await fileSystem.glob('**/*.js'), []);
+    });
+
+    it('should treat paths escaping the root as missing', async () => {
+      assert.strictEqual(await fileSystem.exists('../README.md'), false);
+      assert.strictEqual(await fileSystem.readFile('src/../../README.md'), null);
+    });
+  });
+
+  describe('local', () => {
+    const fileSystem = createLocalFileSystem(MINIMAL_REPO);
+
+    it('should read relative to the root', async () => {
+      assert.strictEqual(await fileSystem.exists('README.md'), true);
+      assert.ok((await fileSystem.readFile('README.md'))?.length);
+      assert.ok((await fileSystem.glob('*.md')).includes('README.md'));
+    });
+
+    it('should not read outside the root', async () => {
+      assert.strictEqual(await fileSystem.exists('../minimal-repo/README.md'), false);
+      assert.strictEqual(await fileSystem.readFile('../../checks.test.ts'), null);
+    });
+  });
+
+  describe('scoped', () => {
+    it('should view a subdirectory', async () => {
+      const fileSystem = scopeFileSystem(createMemoryFileSystem(REPO_FILES), 'src');
+      assert.strictEqual(await fileSystem.readFile('index.ts'), 'export {};\n');
+      assert.deepStrictEqual(await fileSystem.glob('**/*.ts'), ['index.ts', 'utils/helpers.ts']);
+      assert.strictEqual(await fileSystem.exists('../README.md'), false);
+    });
+  });
+
+  describe('archive', () => {
+    let tempDir: string;
+
+    before(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-ready-vfs-'));
+      for (const [file, content] of Object.entries(REPO_FILES)) {
+        fs.mkdirSync(path.dirname(path.join(tempDir, 'demo-main', file)), { recursive: true });
+        fs.writeFileSync(path.join(tempDir, 'demo-main', file), content);
+      }
+    });
+
+    after(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should read a gzipped tarball, stripping its top-level directory', async () => {
+      const archivePath = path.join(tempDir, 'demo.tar.gz');
+      execFileSync('tar', ['-czf', archivePath, '-C', tempDir, 'demo-main']);
+
+      const fileSystem = await loadArchiveFileSystem(archivePath);
+      assert.strictEqual(await fileSystem.readFile('README.md'), REPO_FILES['README.md']);
+      assert.strictEqual(await fileSystem.isDirectory('src/utils'), true);
+      assert.deepStrictEqual((await fileSystem.glob('src/**/*.ts')).sort(), [
+        'src/index.ts',
+        'src/utils/helpers.ts',
+      ]);
+    });
+
+    it('should read a zip archive', async () => {
+      const fileSystem = createArchiveFileSystem(buildZip(REPO_FILES));
+      assert.strictEqual(await fileSystem.readFile('README.md'), REPO_FILES['README.md']);
+      assert.strictEqual(await fileSystem.readFile('package.json'), REPO_FILES['package.json']);
+      assert.strictEqual(await fileSystem.exists('src/utils/helpers.ts'), true);
+    });
+
+    it('should reject unknown formats', async () => {
+      assert.throws(() => createArchiveFileSystem(Buffer.from('not an archive')), /Unsupported/);
+      await assert.rejects(
+        loadArchiveFileSystem(path.join(tempDir, 'missing.zip')),
+        /Archive not found/
+      );
+    });
+  });
+
+  describe('file index', () => {
+    const fileSystem = createMemoryFileSystem({
+      ...REPO_FILES,
+      '.gitignore': '# build output\ncoverage/\n*.log\n!keep.log\n/tmp\n',
+      'debug.log': '',
+      'keep.log': '',
+      'coverage/lcov.info': '',
+      'tmp/scratch.txt': '',
+      'src/tmp/kept.ts': '',
+      'src/generated/.gitignore': '*.ts\n',
+      'src/generated/api.ts': '',
+      'vendor/lib/index.ts': '',
+    });
+
+    it('should honor .gitignore files and default exclusions', async () => {
+      const index = await buildFileIndex(fileSystem);
+      assert.deepStrictEqual(index.files.sort(), [
+        '.gitignore',
+        'README.md',
+        'keep.log',
+        'package.json',
+        'src/generated/.gitignore',
+        'src/index.ts',
+        'src/tmp/kept.ts',
+        'src/utils/helpers.ts',
+        'vendor/lib/index.ts',
+      ]);
+      assert.ok(!index.directories.includes('node_modules'));
+      assert.strictEqual(index.stats.files, index.files.length);
+      assert.strictEqual(index.stats.ignored, 5);
+    });
+
+    it('should apply configured exclusions', async () => {
+      const index = await buildFileIndex(fileSystem, { exclude: ['vendor/', '**/*.md'] });
+      assert.ok(!index.files.includes('vendor/lib/index.ts'));
+      assert.ok(!index.files.includes('README.md'));
+      assert.ok(!index.directories.includes('vendor'));
+    });
+
+    it('should answer scan queries from the index', async () => {
+      const context = await buildScanContext('/virtual/demo', {
+        fs: fileSystem,
+        exclude: ['vendor/'],
+      });
+      assert.deepStrictEqual(await context.fs.glob('**/*.ts'), [
+        'src/index.ts',
+        'src/tmp/kept.ts',
+        'src/utils/helpers.ts',
+      ]);
+      assert.strictEqual(await context.fs.exists('debug.log'), false);
+      assert.strictEqual(await context.fs.readFile('keep.log'), '');
+      assert.strictEqual(context.file_index.files, 8);
+    });
+  });
+
+  describe('checks', () => {
+    it('should run checks against an in-memory repository', async () => {
+      const context = await buildScanContext('/virtual/demo', {
+        fs: createMemoryFileSystem(REPO_FILES),
+      });
+      const base = { name: 'Test', description: 'Test', pillar: 'docs', level: 'L1' } as const;
+
+      const readme: FileExistsCheck = {
+        ...base,
+        id: 'test.readme',
+        type: 'file_exists',
+        required: true,
+        path: 'README.md',
+        content_regex: '## Installation',
+      };
+      const sources: PathGlobCheck = {
+        ...base,
+        id: 'test.sources',
+        type: 'path_glob',
+        required: false,
+        pattern: 'src/**/*.ts',
+        min_matches: 2,
+      };
+
+      assert.strictEqual(context.commit_sha, 'unknown');
+      assert.strictEqual((await executeCheck(readme, context)).passed, true);
+      assert.deepStrictEqual((await executeCheck(sources, context)).matched_files, [
+        'src/index.ts',
+        'src/utils/helpers.ts',
+      ]);
+    });
+
+    it('should satisfy app checks from the directories above the app', async () => {
+      const repo = await buildScanContext('/virtual/mono', {
+        fs: createMemoryFileSystem(MONOREPO_FILES),
+      });
+      const context = await buildScanContext('/virtual/mono/packages/a', {
+        fs: scopeFileSystem(repo.fs, 'packages/a'),
+      });
+      context.layers = createAppLayers(repo.fs, 'packages/a', context.fs, repo.monorepo_apps);
+      const base = { name: 'Test', description: 'Test', pillar: 'docs', level: 'L1' } as const;
+      const file = (filePath: string): FileExistsCheck => ({
+        ...base,
+        id: 'test.file',
+        type: 'file_exists',
+        required: false,
+        path: filePath,
+      });
+
+      assert.deepStrictEqual(
+        context.layers.map((layer) => layer.path),
+        ['packages/a', 'packages', '.']
+      );
+      assert.strictEqual((await executeCheck(file('README.md'), context)).layer, 'packages/a');
+      const inherited = await executeCheck(file('.editorconfig'), context);
+      assert.strictEqual(inherited.layer, '.');
+      assert.deepStrictEqual(inherited.matched_files, ['.editorconfig']);
+
+      // Sibling apps are not part of the inherited layers
+      const sources: PathGlobCheck = {
+        ...base,
+        id: 'test.sources',
+        type: 'path_glob',
+        required: false,
+        pattern: '**/*.ts',
+      };
+      const result = await executeCheck(sources, context);
+      assert.strictEqual(result.passed, false);
+      assert.strictEqual(result.layer, undefined);
+    });
+
+    it('should report inherited checks of monorepo apps', async () => {
+      const result = await scan({
+        path: '/virtual/mono',
+        profile: 'factory_compat',
+        output: 'json',
+        verbose: false,
+        fs: createMemoryFileSystem(MONOREPO_FILES),
+      });
+
+      const [appA] = result.apps ?? [];
+      assert.strictEqual(appA.inherited_checks?.['style.editorconfig'], '.');
+      assert.strictEqual(appA.inherited_checks?.['docs.readme'], undefined);
+    });
+
+    it('should scan a custom file system', async () => {
+      const result = await scan({
+        path: '/virtual/demo',
+        profile: 'factory_compat',
+        output: 'json',
+        verbose: false,
+        fs: createMemoryFileSystem(REPO_FILES),
+      });
+
+      assert.strictEqual(result.repo, 'demo');
+      const passed = result.check_results.filter((c) => c.passed).map((c) => c.check_id);
+      assert.ok(passed.includes('docs.readme'));
+      assert.ok(passed.includes('build.scripts'));
+    });
+  });
+});
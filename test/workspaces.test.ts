@@ -0,0 +1,104 @@
+/**
+ * Tests for monorepo workspace detection
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { detectWorkspaces } from '../src/engine/workspaces.js';
+import { buildScanContext } from '../src/engine/context.js';
+import { createMemoryFileSystem } from '../src/vfs/index.js';
+import type { PackageJson } from '../src/types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const detect = (files: Record<string, string>) => {
+  const packageJson = files['package.json']
+    ? (JSON.parse(files['package.json']) as PackageJson)
+    : undefined;
+  return detectWorkspaces(createMemoryFileSystem(files), packageJson);
+};
+
+describe('detectWorkspaces', () => {
+  it('should expand npm workspace globs to package directories', async () => {
+    const info = await detect({
+      'package.json': JSON.stringify({ workspaces: { packages: ['packages/*', 'tools/cli/'] } }),
+      'packages/a/package.json': '{}',
+      'packages/b/package.json': '{}',
+      'packages/README.md': '',
+      'tools/cli/package.json': '{}',
+    });
+    assert.deepStrictEqual(info, {
+      isMonorepo: true,
+      apps: ['packages/a', 'packages/b', 'tools/cli'],
+      indicators: ['package.json has workspaces'],
+      guessed: false,
+    });
+  });
+
+  it('should read pnpm, Lerna and Rush package lists', async () => {
+    const info = await detect({
+      'pnpm-workspace.yaml': "packages:\n  - 'apps/**'\n  - '!**/test/**'\n",
+      'apps/web/package.json': '{}',
+      'apps/web/test/fixture/package.json': '{}',
+      'lerna.json': '{ "packages": ["modules/*"] }',
+      'modules/core/package.json': '{}',
+      'rush.json':
+        '{\n  // Rush allows comments\n  "projects": [{ "projectFolder": "libs/ui" }]\n}',
+      'libs/ui/package.json': '{}',
+    });
+    assert.deepStrictEqual(info.apps, ['apps/web', 'libs/ui', 'modules/core']);
+    assert.deepStrictEqual(info.indicators, [
+      'Found pnpm workspace config (pnpm-workspace.yaml)',
+      'Found Lerna config (lerna.json)',
+      'Found Rush config (rush.json)',
+    ]);
+  });
+
+  it('should find Nx projects, Cargo members and Go workspace modules', async () => {
+    const info = await detect({
+      'nx.json': '{}',
+      'services/api/project.json': '{}',
+      'Cargo.toml': '[workspace]\nmembers = ["crates/*"]\nexclude = ["crates/legacy"]\n',
+      'crates/core/Cargo.toml': '',
+      'crates/legacy/Cargo.toml': '',
+      'go.work': 'go 1.22\n\nuse (\n\t./cmd/tool // main\n\t.\n)\nuse ./lib\n',
+      'cmd/tool/go.mod': '',
+      'lib/go.mod': '',
+      'go.mod': '',
+    });
+    assert.deepStrictEqual(info.apps, ['cmd/tool', 'crates/core', 'lib', 'services/api']);
+    assert.deepStrictEqual(info.indicators, [
+      'Found Nx config (nx.json)',
+      'Found Cargo workspace (Cargo.toml)',
+      'Found Go workspace (go.work)',
+    ]);
+  });
+
+  it('should not treat a single Go module or Cargo crate as a monorepo', async () => {
+    const info = await detect({
+      'go.work': 'use .\n',
+      'go.mod': '',
+      'Cargo.toml': '[package]\nname = "x"\n\n[workspace]\n',
+    });
+    assert.strictEqual(info.isMonorepo, false);
+  });
+
+  it('should list workspace packages on the scan context', async () => {
+    const context = await buildScanContext(path.join(__dirname, 'fixtures', 'monorepo'));
+    assert.strictEqual(context.is_monorepo, true);
+    assert.deepStrictEqual(context.monorepo_apps, ['packages/app-a', 'packages/app-b']);
+    assert.strictEqual(context.project_type.type, 'monorepo');
+  });
+
+  it('should fall back to apps/ or packages/ without workspace config', async () => {
+    const guessed = await detect({
+      'apps/a/package.json': '{}',
+      'apps/b/package.json': '{}',
+    });
+    assert.strictEqual(guessed.guessed, true);
+    assert.deepStrictEqual(guessed.apps, ['apps/a', 'apps/b']);
+  });
+});